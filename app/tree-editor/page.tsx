@@ -5,12 +5,16 @@
  */
 "use client";
 
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useEffect, useMemo, useRef } from "react";
 import { useTreeStore } from "../../hooks/useTreeStore";
+import { useAutosave } from "../../hooks/useAutosave";
+import { useLayoutWorker } from "../../hooks/useLayoutWorker";
 import { TreeSvg } from "../../components/tree-editor/TreeSvg";
 import { Toolbar } from "../../components/tree-editor/Toolbar";
 import { AddOrEditNodeForm } from "../../components/tree-editor/AddOrEditNodeForm";
 import { DebugComponent } from "../../components/tree-editor/DebugComponent";
+import { LineageFilterBadge } from "../../components/tree/LineageFilterBadge";
+import { MemberSearch } from "../../components/tree/MemberSearch";
 import { TreeNodeData, FamilyMember } from "../../lib/types";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -25,13 +29,45 @@ import {
   Sparkles,
   Focus,
   Maximize2,
+  Crown,
 } from "lucide-react";
 import { RelationshipManager } from "@/components/tree-editor/RelationshipManager";
 import { DragDropProvider } from "@/components/tree-editor/DragDropProvider";
 import { getParentIds } from "../../lib/utils/relationshipHelpers";
 import { TreeErrorBoundary, FormErrorBoundary } from "@/components/ui/error-boundary";
 import { toast } from "@/lib/utils/toast";
-import { DeleteConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import { parseGedcom, isGedcom } from "@/lib/utils/gedcomImport";
+import {
+  parseFamilyData,
+  serializeFamilyData,
+  ImportReport,
+} from "@/lib/utils/familyDataFormat";
+import { ImportReportDialog } from "@/components/tree-editor/ImportReportDialog";
+import { ImportMergeDialog } from "@/components/tree-editor/ImportMergeDialog";
+import { applyTreeMerge, planTreeMerge, TreeMergePlan } from "@/lib/utils/treeMerge";
+import { TreeLibraryPicker } from "@/components/tree-editor/TreeLibraryPicker";
+import { IntegrityPanel } from "@/components/tree-editor/IntegrityPanel";
+import { DuplicatesPanel } from "@/components/tree-editor/DuplicatesPanel";
+import { MemberFilterPanel } from "@/components/tree-editor/MemberFilterPanel";
+import { FamilyStatsPanel } from "@/components/tree-editor/FamilyStatsPanel";
+import { IntegrityFix } from "@/lib/utils/integrityCheck";
+import { MergeChoices } from "@/lib/utils/duplicates";
+import {
+  EMPTY_MEMBER_FILTER,
+  filterMembers,
+  isMemberFilterActive,
+  MemberFilter,
+} from "@/lib/utils/memberFilter";
+import {
+  getGenerationNumbers,
+  resolveFounderId,
+} from "@/lib/utils/generations";
+import { formatFamilyDate } from "@/lib/utils/familyDate";
+import { buildNasab, indexFathers } from "@/lib/utils/arabicName";
+import {
+  ConfirmationDialog,
+  DeleteConfirmationDialog,
+} from "@/components/ui/confirmation-dialog";
 import { LanguageToggle } from "@/components/ui/language-toggle";
 import { useTranslation } from "@/lib/i18n/useTranslation";
 
@@ -55,6 +91,18 @@ export default function TreeEditor() {
     open: false,
     personName: ""
   });
+  // Asks before the toolbar's discard clears the tree from the editor
+  const [discardDialogOpen, setDiscardDialogOpen] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  // Changes found in a file being merged, shown for review before applying
+  const [mergePlan, setMergePlan] = useState<TreeMergePlan | null>(null);
+  // Member ids highlighted on the tree, e.g. the path between two compared people
+  const [highlightedPath, setHighlightedPath] = useState<string[] | null>(null);
+  // Member picked in the search, centred and highlighted until the next click
+  const [spotlightId, setSpotlightId] = useState<string | null>(null);
+  // Member filter; matches are highlighted on the tree and the rest dimmed
+  const [memberFilter, setMemberFilter] =
+    useState<MemberFilter>(EMPTY_MEMBER_FILTER);
 
   // Use the custom hook to interact with the Redux store.
   const {
@@ -75,14 +123,54 @@ export default function TreeEditor() {
     removeRelationship,
     modifyRelationship,
     fixRelationshipInconsistencies,
+    applyIntegrityFix,
+    mergeMembers,
     relationships,
     undo,
     redo,
     canUndo,
     canRedo,
     addRelative,
+    revealMember,
+    founderId,
+    setFounder,
+    calendarDisplay,
   } = useTreeStore();
 
+  const filterMatchIds = useMemo(
+    () =>
+      isMemberFilterActive(memberFilter)
+        ? filterMembers(data, memberFilter)
+        : null,
+    [data, memberFilter]
+  );
+
+  // Generation numbers shown for the selected member
+  const effectiveFounderId = useMemo(
+    () => resolveFounderId(data, relationships, founderId, mainId),
+    [data, relationships, founderId, mainId]
+  );
+  const generations = useMemo(
+    () => getGenerationNumbers(data, relationships, effectiveFounderId),
+    [data, relationships, effectiveFounderId]
+  );
+  const fathers = useMemo(
+    () => indexFathers(data, relationships),
+    [data, relationships]
+  );
+
+  // Local draft autosave and restore
+  const {
+    pendingDraft,
+    restorePendingDraft,
+    dismissPendingDraft,
+    discardDraft,
+    isAutosavePaused,
+    resumeAutosave,
+  } = useAutosave();
+  // Lay out large trees off the main thread
+  useLayoutWorker();
+
   // A ref to access methods on the TreeSvg component (e.g., for zoom).
   const treeSvgRef = useRef<any>(null);
   
@@ -96,6 +184,11 @@ export default function TreeEditor() {
     setIsLoading(false);
   }, []); // Empty dependency array to run only once on mount
 
+  // Say so when closing the restore prompt paused autosave
+  useEffect(() => {
+    if (isAutosavePaused) toast.warning(t('messages.autosavePaused'));
+  }, [isAutosavePaused]);
+
   // Effect to detect and apply the system's preferred color scheme.
   useEffect(() => {
     const mediaQuery = window.matchMedia("(prefers-color-scheme: dark)");
@@ -120,6 +213,7 @@ export default function TreeEditor() {
    * Automatically switches to 3-level focus view when a node is selected.
    */
   const handleNodeClick = (node: TreeNodeData) => {
+    setSpotlightId(null);
     if (node.isPlaceholder) {
       if (node.targetId && node.type) {
         setAddRelativeInfo({ targetId: node.targetId, type: node.type });
@@ -162,6 +256,38 @@ export default function TreeEditor() {
     setSidebarMode("view");
   };
 
+  /**
+   * Applies a one-click fix from the integrity panel.
+   */
+  const handleApplyIntegrityFix = (fix: IntegrityFix) => {
+    applyIntegrityFix(fix);
+    toast.success(t('relationships.integrityFixApplied'));
+  };
+
+  /**
+   * Merges two records of the same person from the duplicates panel.
+   */
+  const handleMergeMembers = (
+    survivorId: string,
+    duplicateId: string,
+    choices: MergeChoices
+  ) => {
+    const duplicateName = data[duplicateId].name;
+    const survivorName =
+      choices.name === "duplicate" ? duplicateName : data[survivorId].name;
+    mergeMembers(survivorId, duplicateId, choices);
+    // The selected record is either gone or out of date
+    if (selectedNode?.id === survivorId || selectedNode?.id === duplicateId) {
+      setSelectedNode(null);
+      setSidebarMode("stats");
+    }
+    toast.success(
+      t('relationships.membersMerged')
+        .replace('{{duplicate}}', duplicateName)
+        .replace('{{name}}', survivorName)
+    );
+  };
+
   /**
    * Handles clicks on the '+' buttons around a selected node.
    * Switches the sidebar to 'add' mode for the specified relative type.
@@ -329,12 +455,7 @@ export default function TreeEditor() {
    */
   const handleSaveToFile = () => {
     try {
-      const exportData = {
-        members: data,
-        relationships,
-        mainId,
-      };
-      const dataStr = JSON.stringify(exportData, null, 2);
+      const dataStr = serializeFamilyData(data, relationships, mainId);
       const dataBlob = new Blob([dataStr], { type: "application/json" });
       const url = URL.createObjectURL(dataBlob);
       const link = document.createElement("a");
@@ -350,12 +471,89 @@ export default function TreeEditor() {
   };
 
   /**
-   * Opens a file dialog to load tree data from a local JSON file.
+   * Selects the member picked in the search and brings them into view.
+   */
+  const handleSearchSelect = (personId: string) => {
+    setSelectedNode(data[personId]);
+    setFocusNode(personId);
+    setSidebarMode("view");
+    setSpotlightId(personId);
+  };
+
+  /**
+   * Brings a member from the filter results into view and selects them.
+   */
+  const handleJumpToMatch = (personId: string) => {
+    revealMember(personId);
+    handleSearchSelect(personId);
+  };
+
+  /**
+   * Clears the selection and sidebar when another tree is loaded.
+   */
+  const handleTreeChange = () => {
+    setSpotlightId(null);
+    setSelectedNode(null);
+    setAddRelativeInfo(null);
+    setSidebarMode("stats");
+  };
+
+  /**
+   * Restores the local draft found on load.
+   */
+  const handleRestoreDraft = () => {
+    restorePendingDraft();
+    toast.success(t('messages.draftRestored'));
+  };
+
+  /**
+   * Discards the active tree's local draft and clears the editor; other
+   * saved trees are kept.
+   */
+  const handleDiscardDraft = async () => {
+    try {
+      await discardDraft();
+      handleTreeChange();
+      toast.info(t('messages.draftDiscarded'));
+    } catch (error) {
+      toast.error(t('messages.draftDiscardError'));
+      console.error("Error discarding local draft:", error);
+    }
+  };
+
+  /**
+   * Loads a parsed GEDCOM file into the store and reports anything that
+   * could not be mapped onto our data model.
+   */
+  const handleGedcomImport = (text: string) => {
+    const result = parseGedcom(text);
+    updateMembersAndRelationships({
+      members: result.members,
+      relationships: result.relationships,
+    });
+    updateMainId(result.mainId);
+    toast.success(t('messages.gedcomImported')
+      .replace('{{members}}', String(Object.keys(result.members).length))
+      .replace('{{relationships}}', String(result.relationships.length)));
+
+    if (result.unsupportedTags.length > 0) {
+      const skipped = result.unsupportedTags.reduce(
+        (total, tag) => total + tag.count,
+        0
+      );
+      toast.warning(t('messages.gedcomUnsupportedTags')
+        .replace('{{count}}', String(skipped))
+        .replace('{{tags}}', result.unsupportedTags.map((tag) => tag.path).join(', ')));
+    }
+  };
+
+  /**
+   * Opens a file dialog to load tree data from a local JSON or GEDCOM file.
    */
   const handleLoadFromFile = () => {
     const input = document.createElement("input");
     input.type = "file";
-    input.accept = ".json";
+    input.accept = ".json,.ged";
     input.setAttribute('data-testid', 'file-input');
     input.onchange = (e) => {
       const file = (e.target as HTMLInputElement).files?.[0];
@@ -363,23 +561,56 @@ export default function TreeEditor() {
         const reader = new FileReader();
         reader.onload = (ev) => {
           try {
-            const loadedData = JSON.parse(ev.target?.result as string);
-            if (
-              loadedData.members &&
-              loadedData.relationships &&
-              loadedData.mainId !== undefined
-            ) {
-              updateMembersAndRelationships({
-                members: loadedData.members,
-                relationships: loadedData.relationships,
-              });
-              updateMainId(loadedData.mainId);
-              toast.success(t('messages.dataImported'));
-            } else {
-              throw new Error("Invalid data format in loaded file.");
+            const text = ev.target?.result as string;
+            if (file.name.toLowerCase().endsWith(".ged") || isGedcom(text)) {
+              handleGedcomImport(text);
+              return;
+            }
+            const { data: loadedData, report } = parseFamilyData(JSON.parse(text));
+            updateMembersAndRelationships({
+              members: loadedData.members,
+              relationships: loadedData.relationships,
+            });
+            updateMainId(loadedData.mainId);
+            toast.success(t('messages.dataImported'));
+
+            if (report.problems.length > 0 || report.fixes.length > 0) {
+              setImportReport(report);
             }
           } catch (error) {
-            console.error("Failed to parse JSON file.", error);
+            console.error("Failed to parse imported file.", error);
+            toast.error(t('messages.importError'));
+          }
+        };
+        reader.readAsText(file);
+      }
+    };
+    input.click();
+  };
+
+  /**
+   * Opens a file dialog to merge a JSON or GEDCOM file into the open tree.
+   * Nothing changes until the previewed changes are applied.
+   */
+  const handleLoadAndMerge = () => {
+    const input = document.createElement("input");
+    input.type = "file";
+    input.accept = ".json,.ged";
+    input.setAttribute('data-testid', 'merge-file-input');
+    input.onchange = (e) => {
+      const file = (e.target as HTMLInputElement).files?.[0];
+      if (file) {
+        const reader = new FileReader();
+        reader.onload = (ev) => {
+          try {
+            const text = ev.target?.result as string;
+            const incoming =
+              file.name.toLowerCase().endsWith(".ged") || isGedcom(text)
+                ? parseGedcom(text)
+                : parseFamilyData(JSON.parse(text)).data;
+            setMergePlan(planTreeMerge(data, relationships, incoming));
+          } catch (error) {
+            console.error("Failed to parse merged file.", error);
             toast.error(t('messages.importError'));
           }
         };
@@ -389,6 +620,20 @@ export default function TreeEditor() {
     input.click();
   };
 
+  /**
+   * Applies the accepted changes of a merge as a single undo step.
+   */
+  const handleApplyMerge = (accepted: Set<string>) => {
+    if (!mergePlan) return;
+    const merged = applyTreeMerge(data, relationships, mergePlan, accepted);
+    updateMembersAndRelationships(merged);
+    if (!mainId && merged.members[mergePlan.mainId]) {
+      updateMainId(mergePlan.mainId);
+    }
+    setMergePlan(null);
+    toast.success(t('messages.mergeApplied').replace('{{count}}', String(accepted.size)));
+  };
+
   // Handlers to call zoom/reset methods on the TreeSvg component.
   const handleResetView = () => treeSvgRef.current?.onResetView();
   const handleZoomIn = () => treeSvgRef.current?.onZoomIn();
@@ -410,6 +655,22 @@ export default function TreeEditor() {
     );
   }
 
+  // Shown in the stats sidebar and on the empty-tree placeholder
+  const addPersonButton = (
+    <Button
+      data-testid="add-member-btn"
+      aria-label={t('common.addPerson')}
+      size='sm'
+      onClick={() => {
+        setSidebarMode("add");
+        setAddRelativeInfo({ targetId: "", type: "child" });
+      }}
+      className='mt-2'>
+      <TreePine className='w-3 h-3 mr-1' />
+      {t('common.addPerson')}
+    </Button>
+  );
+
   // Render the main editor layout.
   return (
     <div
@@ -437,8 +698,17 @@ export default function TreeEditor() {
                 }`}>
                 {t('toolbar.treeEditor')}
               </h1>
+              <TreeLibraryPicker
+                isDarkMode={isDarkMode}
+                onTreeChange={handleTreeChange}
+              />
             </div>
             <div className='flex items-center gap-2'>
+              <MemberSearch
+                isDarkMode={isDarkMode}
+                onSelect={handleSearchSelect}
+                className='w-64'
+              />
               <LanguageToggle isDarkMode={isDarkMode} />
               <Button
                 variant='outline'
@@ -536,18 +806,74 @@ export default function TreeEditor() {
                     <p>
                       <Label>{t('forms.name')}:</Label> {selectedNode.name}
                     </p>
+                    {data[selectedNode.id] && (
+                      <p data-testid='member-nasab'>
+                        <Label>{t('forms.fullNasab')}:</Label>{" "}
+                        {buildNasab(selectedNode.id, data, fathers)}
+                      </p>
+                    )}
+                    {selectedNode.nameParts?.kunya && (
+                      <p>
+                        <Label>{t('forms.kunya')}:</Label>{" "}
+                        {selectedNode.nameParts.kunya}
+                      </p>
+                    )}
+                    {selectedNode.nameParts?.laqab && (
+                      <p>
+                        <Label>{t('forms.laqab')}:</Label>{" "}
+                        {selectedNode.nameParts.laqab}
+                      </p>
+                    )}
                     <p>
                       <Label>{t('forms.gender')}:</Label>{" "}
                       {selectedNode.gender === "male" ? t('forms.male') : t('forms.female')}
                     </p>
-                    <p>
-                      <Label>{t('forms.birthYear')}:</Label> {selectedNode.birth_year}
-                    </p>
-                    {selectedNode.death_year && (
-                      <p>
-                        <Label>{t('forms.deathYear')}:</Label> {selectedNode.death_year}
+                    {selectedNode.birth && (
+                      <p data-testid='member-birth-date' title={selectedNode.birth.original}>
+                        <Label>{t('forms.birthDate')}:</Label>{" "}
+                        {formatFamilyDate(selectedNode.birth, {
+                          t,
+                          calendar: calendarDisplay,
+                        })}
+                      </p>
+                    )}
+                    {selectedNode.death && (
+                      <p title={selectedNode.death.original}>
+                        <Label>{t('forms.deathDate')}:</Label>{" "}
+                        {formatFamilyDate(selectedNode.death, {
+                          t,
+                          calendar: calendarDisplay,
+                        })}
                       </p>
                     )}
+                    <div className='flex items-center justify-between gap-2'>
+                      <p data-testid='member-generation'>
+                        <Label>{t('forms.generation')}:</Label>{" "}
+                        {generations.get(selectedNode.id) ?? "—"}
+                      </p>
+                      <Button
+                        data-testid='set-founder-btn'
+                        size='sm'
+                        variant={
+                          selectedNode.id === founderId ? "secondary" : "ghost"
+                        }
+                        className='h-7 px-2 text-xs'
+                        title={
+                          selectedNode.id === effectiveFounderId
+                            ? t('forms.founder')
+                            : t('forms.setAsFounder')
+                        }
+                        onClick={() =>
+                          setFounder(
+                            selectedNode.id === founderId ? null : selectedNode.id
+                          )
+                        }>
+                        <Crown className='w-3 h-3 mr-1' />
+                        {selectedNode.id === founderId
+                          ? t('forms.clearFounder')
+                          : t('forms.setAsFounder')}
+                      </Button>
+                    </div>
                     <div className='flex gap-2 pt-2'>
                       <Button
                         data-testid="edit-member-btn"
@@ -580,10 +906,22 @@ export default function TreeEditor() {
                     onAddRelative={handleAddRelativeClick}
                     onConnectExisting={handleConnectExisting}
                     onModifyRelationship={handleModifyRelationship}
+                    onHighlightPath={setHighlightedPath}
                     isDarkMode={isDarkMode}
                   />
                 </FormErrorBoundary>
               </div>
+            ) : sidebarMode === "stats" && Object.keys(data).length > 0 ? (
+              <div className='space-y-4'>
+                <FamilyStatsPanel
+                  members={data}
+                  relationships={relationships}
+                  founderId={founderId}
+                  mainId={mainId}
+                  isDarkMode={isDarkMode}
+                />
+                {addPersonButton}
+              </div>
             ) : (
               <div className='flex flex-col items-center justify-center h-full text-center space-y-4'>
                 <TreePine
@@ -605,18 +943,7 @@ export default function TreeEditor() {
                     {t('messages.startBuilding')}
                   </p>
                 </div>
-                <Button
-                  data-testid="add-member-btn"
-                  aria-label={t('common.addPerson')}
-                  size='sm'
-                  onClick={() => {
-                    setSidebarMode("add");
-                    setAddRelativeInfo({ targetId: "", type: "child" });
-                  }}
-                  className='mt-2'>
-                  <TreePine className='w-3 h-3 mr-1' />
-                  {t('common.addPerson')}
-                </Button>
+                {addPersonButton}
               </div>
             )}
           </div>
@@ -624,6 +951,10 @@ export default function TreeEditor() {
 
         {/* Main Tree Visualization */}
         <main className='relative bg-gray-100 dark:bg-gray-950'>
+          <LineageFilterBadge
+            isDarkMode={isDarkMode}
+            className='absolute top-3 left-1/2 -translate-x-1/2 z-10'
+          />
           {tree.length > 0 ? (
             <TreeErrorBoundary>
               <DragDropProvider onRelationshipDrop={handleRelationshipDrop}>
@@ -635,6 +966,9 @@ export default function TreeEditor() {
                   onRelationshipDrop={handleRelationshipDrop}
                   onModifyRelationship={handleModifyRelationship}
                   selectedNodeId={selectedNode?.id}
+                  highlightedPath={highlightedPath}
+                  spotlightNodeId={spotlightId}
+                  filterMatchIds={filterMatchIds}
                   className='w-full h-full'
                 />
               </DragDropProvider>
@@ -688,6 +1022,10 @@ export default function TreeEditor() {
               isDarkMode={isDarkMode}
               onSave={handleSaveToFile}
               onLoad={handleLoadFromFile}
+              onLoadAndMerge={handleLoadAndMerge}
+              onDiscardDraft={() => setDiscardDialogOpen(true)}
+              isAutosavePaused={isAutosavePaused}
+              onResumeAutosave={resumeAutosave}
               onExport={handleSaveToFile} // Note: Using save function for export
               onUndo={undo}
               onRedo={redo}
@@ -750,10 +1088,14 @@ export default function TreeEditor() {
                     <span>
                       {viewMode === "focus"
                         ? t('toolbar.focusView')
-                        : t('toolbar.fullView')}
+                        : viewMode === "fan"
+                          ? t('toolbar.fanView')
+                          : viewMode === "hourglass"
+                            ? t('toolbar.hourglassView')
+                            : t('toolbar.fullView')}
                     </span>
                   </div>
-                  {viewMode === "focus" && focusPersonId && (
+                  {viewMode !== "full" && focusPersonId && (
                     <div
                       className={`text-xs mt-1 ${
                         isDarkMode ? "text-blue-400" : "text-blue-600"
@@ -764,6 +1106,32 @@ export default function TreeEditor() {
                 </div>
               </div>
             </Card>
+            {/* Member filter with the list of matches */}
+            <MemberFilterPanel
+              members={data}
+              filter={memberFilter}
+              onFilterChange={setMemberFilter}
+              matchIds={filterMatchIds ?? []}
+              onJumpToPerson={handleJumpToMatch}
+              isDarkMode={isDarkMode}
+            />
+            {/* Integrity problems with jump-to-person links and fixes */}
+            <IntegrityPanel
+              members={data}
+              relationships={relationships}
+              onJumpToPerson={handleFocusOnPerson}
+              onApplyFix={handleApplyIntegrityFix}
+              isDarkMode={isDarkMode}
+            />
+            {/* People entered twice, compared and merged side by side */}
+            <DuplicatesPanel
+              members={data}
+              relationships={relationships}
+              onJumpToPerson={handleFocusOnPerson}
+              onMerge={handleMergeMembers}
+              calendarDisplay={calendarDisplay}
+              isDarkMode={isDarkMode}
+            />
           </div>
         </aside>
       </div>
@@ -776,6 +1144,53 @@ export default function TreeEditor() {
         onConfirm={handleDeleteConfirm}
         isDarkMode={isDarkMode}
       />
+
+      {/* Discard Local Draft Dialog */}
+      <ConfirmationDialog
+        open={discardDialogOpen}
+        onOpenChange={setDiscardDialogOpen}
+        title={t('messages.discardDraftTitle')}
+        description={t('messages.discardDraftConfirmation')}
+        confirmText={t('messages.discardDraft')}
+        cancelText={t('common.cancel')}
+        onConfirm={handleDiscardDraft}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* Restore Local Draft Dialog */}
+      <ConfirmationDialog
+        open={pendingDraft !== null}
+        onOpenChange={(open) => {
+          if (!open) dismissPendingDraft();
+        }}
+        variant="default"
+        title={t('messages.draftFoundTitle')}
+        description={t('messages.draftFoundDescription')
+          .replace('{{count}}', String(Object.keys(pendingDraft?.state.members ?? {}).length))
+          .replace('{{date}}', pendingDraft ? new Date(pendingDraft.savedAt).toLocaleString() : '')}
+        confirmText={t('messages.restoreDraft')}
+        cancelText={t('messages.discardDraft')}
+        onConfirm={handleRestoreDraft}
+        onCancel={handleDiscardDraft}
+        isDarkMode={isDarkMode}
+      />
+
+      {/* Import Report Dialog */}
+      <ImportReportDialog
+        report={importReport}
+        onOpenChange={(open) => !open && setImportReport(null)}
+        isDarkMode={isDarkMode}
+      />
+
+      <ImportMergeDialog
+        key={mergePlan ? "open" : "closed"}
+        plan={mergePlan}
+        members={data}
+        onOpenChange={(open) => !open && setMergePlan(null)}
+        onApply={handleApplyMerge}
+        calendarDisplay={calendarDisplay}
+        isDarkMode={isDarkMode}
+      />
     </div>
   );
 }
@@ -3,6 +3,7 @@
 import { Card } from "@/components/ui/card"
 import { Users, MapPin, Award, TrendingUp, BookOpen } from "lucide-react"
 import { useFamilyBrief, useTheme, useAppConfig } from "@/hooks/useConfig"
+import { useFamilyStats } from "@/hooks/useFamilyStats"
 
 interface FamilyBriefProps {
   isDarkMode: boolean
@@ -11,6 +12,8 @@ interface FamilyBriefProps {
 export default function FamilyBrief({ isDarkMode }: FamilyBriefProps) {
   const { familyBrief } = useFamilyBrief()
   const { theme } = useTheme()
+  // Counted from the loaded tree; the configured numbers are a fallback
+  const stats = useFamilyStats()
   const { config } = useAppConfig()
 
   if (!familyBrief || !theme || !config) return null
@@ -171,7 +174,7 @@ export default function FamilyBrief({ isDarkMode }: FamilyBriefProps) {
                         fontFamily: theme.fonts.secondary,
                       }}
                     >
-                      {familyBrief.totalMembers}
+                      {stats?.memberCount ?? familyBrief.totalMembers}
                     </span>
                   </div>
                   <div className="flex items-center justify-between">
@@ -191,7 +194,7 @@ export default function FamilyBrief({ isDarkMode }: FamilyBriefProps) {
                         fontFamily: theme.fonts.secondary,
                       }}
                     >
-                      {familyBrief.yearsOfHistory}+
+                      {stats?.yearSpan || familyBrief.yearsOfHistory}+
                     </span>
                   </div>
                 </div>
@@ -8,16 +8,42 @@ import React, {
   useCallback,
 } from "react";
 import { BaseTree, BaseTreeSettings } from "./tree/BaseTree";
+import { FanChart } from "./tree/FanChart";
+import { MemberSearch } from "./tree/MemberSearch";
+import {
+  LineageFilterBadge,
+  LINEAGE_MODE_KEYS,
+} from "./tree/LineageFilterBadge";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { ZoomIn, ZoomOut, RotateCcw, Settings, Download } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 import { useTreeStore } from "@/hooks/useTreeStore";
+import { useLayoutWorker } from "@/hooks/useLayoutWorker";
 import { useTranslation } from "@/lib/i18n/useTranslation";
-import { useTheme } from "@/hooks/useConfig";
+import { useAppConfig, useTheme } from "@/hooks/useConfig";
 import { exportTreeSvg } from "@/lib/utils/treeExport";
+import { parseFamilyData } from "@/lib/utils/familyDataFormat";
+import { LINEAGE_MODES } from "@/lib/utils/lineage";
+import { CalendarDisplay, LineageMode, NameDisplay } from "@/lib/types";
+import {
+  CALENDAR_DISPLAYS,
+  CALENDAR_DISPLAY_KEYS,
+} from "@/lib/utils/familyDate";
+import { NAME_DISPLAYS, NAME_DISPLAY_KEYS } from "@/lib/utils/arabicName";
+import {
+  getOrientation,
+  isLayoutDirection,
+} from "@/lib/utils/layoutDirection";
 
 interface FamilyTreeProps {
   isDarkMode: boolean;
@@ -25,6 +51,8 @@ interface FamilyTreeProps {
 
 export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
   const { theme } = useTheme();
+  const { config } = useAppConfig();
+  useLayoutWorker();
 
   // Get tree data and settings from Redux store (optimized)
   const {
@@ -40,7 +68,10 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
     femaleColor,
     linkColor,
     lineShape,
+    layoutDirection,
     showLabels,
+    calendarDisplay,
+    nameDisplay,
     viewMode,
     setCardWidth,
     setCardHeight,
@@ -50,13 +81,19 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
     setFemaleColor,
     setLinkColor,
     setShowLabel,
+    setCalendarDisplay,
+    setNameDisplay,
     setShowSpouses,
     setViewMode,
+    applyDefaultLayoutDirection,
     updateMembersAndRelationships,
     updateMainId,
     relationships,
     focusPersonId,
     setFocusPerson,
+    toggleCollapsedBranch,
+    lineageFilter,
+    setLineageFilter,
   } = useTreeStore();
 
   // Only local UI state that's not tree-related
@@ -66,6 +103,8 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
   const zoomInRef = useRef<() => void>();
   const zoomOutRef = useRef<() => void>();
   const resetViewRef = useRef<() => void>();
+  // Member picked in the search, centred and highlighted until the next click
+  const [spotlightId, setSpotlightId] = useState<string | null>(null);
 
   // Create settings object from Redux state - memoized for performance
   const settings: BaseTreeSettings = useMemo(
@@ -78,12 +117,14 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
       maleColor,
       femaleColor,
       linkColor,
-      orientation: "vertical",
-      direction: "bottom-to-top",
+      orientation: getOrientation(layoutDirection),
+      direction: layoutDirection,
       showLabels,
       lineShape,
       lineLength: 1.0,
       isFullScreen: false,
+      calendarDisplay,
+      nameDisplay,
     }),
     [
       cardWidth,
@@ -95,9 +136,24 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
       linkColor,
       showLabels,
       lineShape,
+      layoutDirection,
+      calendarDisplay,
+      nameDisplay,
     ]
   );
 
+  // Start in the layout direction configured for the site (once, when the
+  // config arrives), unless the user has already chosen one
+  const defaultDirection = config?.tree.defaultDirection;
+  const appliedDefaultDirection = useRef(false);
+  useEffect(() => {
+    if (appliedDefaultDirection.current || !defaultDirection) return;
+    appliedDefaultDirection.current = true;
+    if (isLayoutDirection(defaultDirection)) {
+      applyDefaultLayoutDirection(defaultDirection);
+    }
+  }, [defaultDirection, applyDefaultLayoutDirection]);
+
   // Load data from JSON file into Redux store on component mount
   useEffect(() => {
     // Only load data if not already loaded
@@ -115,17 +171,17 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
         return response.json();
       })
       .then((jsonData) => {
-        if (jsonData.members && jsonData.relationships && jsonData.mainId) {
-          // Update Redux store with loaded data
-          updateMembersAndRelationships({
-            members: jsonData.members,
-            relationships: jsonData.relationships,
-          });
-          updateMainId(jsonData.mainId);
-          setError(null);
-        } else {
-          throw new Error("Invalid data format in family-data.json.");
+        const { data: familyData, report } = parseFamilyData(jsonData);
+        if (report.problems.length > 0) {
+          console.warn("Problems found in family-data.json:", report.problems);
         }
+        // Update Redux store with loaded data
+        updateMembersAndRelationships({
+          members: familyData.members,
+          relationships: familyData.relationships,
+        });
+        updateMainId(familyData.mainId);
+        setError(null);
       })
       .catch((error) => {
         console.error("Failed to load family data:", error);
@@ -348,6 +404,61 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
                     {t("toolbar.focusView")}
                   </span>
                 </Button>
+                <Button
+                  data-testid='view-mode-toggle'
+                  variant={viewMode === "fan" ? "default" : "outline"}
+                  size='default'
+                  className='min-h-[44px] flex-1 lg:flex-none min-w-[120px]'
+                  onClick={() => setViewMode("fan")}
+                  title={t("toolbar.fanView")}>
+                  <span data-testid='fan-view' className='text-xs'>
+                    {t("toolbar.fanView")}
+                  </span>
+                </Button>
+                <Button
+                  data-testid='view-mode-toggle'
+                  variant={viewMode === "hourglass" ? "default" : "outline"}
+                  size='default'
+                  className='min-h-[44px] flex-1 lg:flex-none min-w-[120px]'
+                  onClick={() => setViewMode("hourglass")}
+                  title={t("toolbar.hourglassView")}>
+                  <span data-testid='hourglass-view' className='text-xs'>
+                    {t("toolbar.hourglassView")}
+                  </span>
+                </Button>
+                {/* Lineage of the focused person (or the main person) */}
+                <Select
+                  value={lineageFilter?.mode ?? "all"}
+                  onValueChange={(value) =>
+                    setLineageFilter(
+                      value === "all"
+                        ? null
+                        : {
+                            mode: value as LineageMode,
+                            rootId: focusPersonId || mainId,
+                          }
+                    )
+                  }>
+                  <SelectTrigger
+                    data-testid='lineage-select'
+                    className='min-h-[44px] w-auto min-w-[120px]'
+                    title={t("toolbar.lineage")}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value='all'>{t("toolbar.lineageAll")}</SelectItem>
+                    {LINEAGE_MODES.map((mode) => (
+                      <SelectItem key={mode} value={mode}>
+                        {t(LINEAGE_MODE_KEYS[mode])}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <MemberSearch
+                  isDarkMode={isDarkMode}
+                  onSelect={setSpotlightId}
+                  className='w-56'
+                />
               </div>
               {/* Zoom and Control Actions */}
               <div className='flex flex-wrap gap-3 w-full lg:w-auto justify-center lg:justify-end'>
@@ -537,12 +648,71 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
                       onCheckedChange={(v) => setShowLabel("genderIcon", v)}
                     />
                   </div>
+                  <div>
+                    <Label>{t("familyTree.showGeneration")}</Label>
+                    <Switch
+                      checked={showLabels.generation}
+                      onCheckedChange={(v) => setShowLabel("generation", v)}
+                    />
+                  </div>
+                  <div>
+                    <Label>{t("familyTree.calendar")}</Label>
+                    <Select
+                      value={calendarDisplay}
+                      onValueChange={(v) =>
+                        setCalendarDisplay(v as CalendarDisplay)
+                      }>
+                      <SelectTrigger data-testid='calendar-display-select'>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {CALENDAR_DISPLAYS.map((calendar) => (
+                          <SelectItem key={calendar} value={calendar}>
+                            {t(CALENDAR_DISPLAY_KEYS[calendar])}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <Label>{t("familyTree.nameDisplay")}</Label>
+                    <Select
+                      value={nameDisplay}
+                      onValueChange={(v) => setNameDisplay(v as NameDisplay)}>
+                      <SelectTrigger data-testid='name-display-select'>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {NAME_DISPLAYS.map((display) => (
+                          <SelectItem key={display} value={display}>
+                            {t(NAME_DISPLAY_KEYS[display])}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
               </div>
             )}
             <div className='family-tree-container'>
+              {lineageFilter && (
+                <div className='flex justify-center py-2'>
+                  <LineageFilterBadge isDarkMode={isDarkMode} />
+                </div>
+              )}
               {/* Only render BaseTree when we have data to prevent D3 errors */}
-              {Object.keys(data).length > 0 && mainId ? (
+              {Object.keys(data).length > 0 && mainId && viewMode === "fan" ? (
+                <FanChart
+                  tree={tree}
+                  settings={settings}
+                  isDarkMode={isDarkMode}
+                  onNodeClick={(node) => setFocusPerson(node.id)}
+                  selectedNodeId={focusPersonId || mainId}
+                  onZoomIn={(fn) => (zoomInRef.current = fn)}
+                  onZoomOut={(fn) => (zoomOutRef.current = fn)}
+                  onResetView={(fn) => (resetViewRef.current = fn)}
+                />
+              ) : Object.keys(data).length > 0 && mainId ? (
                 <BaseTree
                   data={data}
                   tree={tree}
@@ -551,10 +721,12 @@ export default function FamilyTree({ isDarkMode }: FamilyTreeProps) {
                   relationships={relationships}
                   isEditable={false}
                   isDarkMode={isDarkMode}
-                  onNodeClick={() => {}}
+                  onNodeClick={() => setSpotlightId(null)}
                   onAddRelative={() => {}}
                   selectedNodeId={focusPersonId || mainId}
+                  spotlightNodeId={spotlightId}
                   setFocusPerson={setFocusPerson}
+                  onToggleBranch={toggleCollapsedBranch}
                   onZoomIn={(fn) => (zoomInRef.current = fn)}
                   onZoomOut={(fn) => (zoomOutRef.current = fn)}
                   onResetView={(fn) => (resetViewRef.current = fn)}
@@ -2,6 +2,7 @@
 
 import { Users, Mail, Phone, MapPin } from "lucide-react";
 import { useFooterConfig, useTheme } from "@/hooks/useConfig";
+import { useFamilyStats } from "@/hooks/useFamilyStats";
 import { useTranslation } from "@/lib/i18n/useTranslation";
 
 interface FooterProps {
@@ -11,6 +12,8 @@ interface FooterProps {
 export default function Footer({ isDarkMode }: FooterProps) {
   const { footerConfig } = useFooterConfig();
   const { theme } = useTheme();
+  // Counted from the loaded tree; the configured numbers are a fallback
+  const stats = useFamilyStats();
   const { t, isRTL } = useTranslation();
 
   if (!footerConfig || !theme) return null;
@@ -135,7 +138,7 @@ export default function Footer({ isDarkMode }: FooterProps) {
                     color: colors.secondary,
                     fontFamily: theme.fonts.primary,
                   }}>
-                  {footerConfig.stats.totalMembers}
+                  {stats?.memberCount ?? footerConfig.stats.totalMembers}
                 </span>
                 <span
                   className={`text-sm transition-colors duration-300`}
@@ -155,7 +158,7 @@ export default function Footer({ isDarkMode }: FooterProps) {
                     color: colors.secondary,
                     fontFamily: theme.fonts.primary,
                   }}>
-                  {footerConfig.stats.generations}
+                  {stats?.generationCount ?? footerConfig.stats.generations}
                 </span>
                 <span
                   className={`text-sm transition-colors duration-300`}
@@ -175,7 +178,7 @@ export default function Footer({ isDarkMode }: FooterProps) {
                     color: colors.secondary,
                     fontFamily: theme.fonts.primary,
                   }}>
-                  {footerConfig.stats.yearsOfHistory}+
+                  {stats?.yearSpan || footerConfig.stats.yearsOfHistory}+
                 </span>
                 <span
                   className={`text-sm transition-colors duration-300`}
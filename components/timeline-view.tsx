@@ -13,6 +13,7 @@ import {
   Baby,
 } from "lucide-react";
 import { useTheme } from "@/hooks/useConfig";
+import { useTreeStore } from "@/hooks/useTreeStore";
 import { useTranslation } from "@/lib/i18n/useTranslation";
 import { TranslationKey } from "@/lib/i18n/types";
 
@@ -73,6 +74,7 @@ const getEventColors = (isDarkMode: boolean, theme: any) => {
 export default function TimelineView({ isDarkMode }: TimelineViewProps) {
   const { theme } = useTheme();
   const { t, isRTL } = useTranslation();
+  const { calendarDisplay } = useTreeStore();
   const [events, setEvents] = useState<TimelineEvent[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -97,13 +99,19 @@ export default function TimelineView({ isDarkMode }: TimelineViewProps) {
       });
   }, []);
 
+  // Event dates are Gregorian; the Hijri date is worked out by Intl
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
-    return date.toLocaleDateString("ar-SA", {
-      year: "numeric",
-      month: "long",
-      day: "numeric",
-    });
+    const format = (calendar: string) =>
+      date.toLocaleDateString(`ar-SA-u-ca-${calendar}`, {
+        year: "numeric",
+        month: "long",
+        day: "numeric",
+        timeZone: "UTC",
+      });
+    if (calendarDisplay === "hijri") return format("islamic-umalqura");
+    if (calendarDisplay === "gregorian") return format("gregory");
+    return `${format("gregory")} (${format("islamic-umalqura")})`;
   };
 
   if (loading) {
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -10,8 +10,29 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { FamilyMember } from "../../lib/types";
+import { FamilyDate, FamilyMember, NameParts } from "../../lib/types";
 import { useTranslation } from "../../lib/i18n/useTranslation";
+import { useTreeStore } from "../../hooks/useTreeStore";
+import { isDefinitelyBefore, yearDate } from "../../lib/utils/familyDate";
+import {
+  buildNasab,
+  cleanNameParts,
+  indexFathers,
+} from "../../lib/utils/arabicName";
+import {
+  DateDraft,
+  FamilyDateInput,
+  fromDateDraft,
+  toDateDraft,
+} from "./FamilyDateInput";
+
+/** Structured name fields, in the order they are written */
+const NAME_PART_INPUTS: { field: keyof NameParts; labelKey: string }[] = [
+  { field: "given", labelKey: "forms.givenName" },
+  { field: "familyName", labelKey: "forms.familyName" },
+  { field: "kunya", labelKey: "forms.kunya" },
+  { field: "laqab", labelKey: "forms.laqab" },
+];
 
 interface AddOrEditNodeFormProps {
   nodeToEdit?: FamilyMember | null;
@@ -29,7 +50,13 @@ export const AddOrEditNodeForm: React.FC<AddOrEditNodeFormProps> = ({
   isDarkMode,
 }) => {
   const { t } = useTranslation();
+  const { data, relationships } = useTreeStore();
   const [formData, setFormData] = useState<Partial<FamilyMember>>({});
+  // Dates are edited as text and only read back into dates on save
+  const [dates, setDates] = useState<{ birth: DateDraft; death: DateDraft }>({
+    birth: toDateDraft(),
+    death: toDateDraft(),
+  });
   const [errors, setErrors] = useState<{[key: string]: string}>({});
 
   useEffect(() => {
@@ -38,32 +65,47 @@ export const AddOrEditNodeForm: React.FC<AddOrEditNodeFormProps> = ({
         ? { ...nodeToEdit }
         : {
             gender: "male",
-            birth_year: 1980,
           }
     );
+    setDates({
+      birth: toDateDraft(nodeToEdit ? nodeToEdit.birth : yearDate(1980)),
+      death: toDateDraft(nodeToEdit?.death),
+    });
   }, [nodeToEdit]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const { name, value } = e.target;
-    let processedValue: any = value;
-    
-    // If it's the birth_year field and value looks like a date, extract the year
-    if (name === 'birth_year' && typeof value === 'string' && value.includes('-')) {
-      const year = parseInt(value.split('-')[0], 10);
-      if (!isNaN(year)) {
-        processedValue = year;
-      }
-    } else if (name === 'birth_year' && value !== '') {
-      processedValue = parseInt(value, 10);
-    }
-    
-    setFormData((prev) => ({ ...prev, [name]: processedValue }));
+    setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
   const handleSelectChange = (name: keyof FamilyMember, value: string) => {
     setFormData((prev) => ({ ...prev, [name]: value }));
   };
 
+  const handleNamePartChange = (field: keyof NameParts, value: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      nameParts: { ...prev.nameParts, [field]: value },
+    }));
+  };
+
+  // The full nasab as it will read once saved; the fathers of a member
+  // being added are not known yet
+  const nasabPreview = useMemo(() => {
+    if (!nodeToEdit || !data[nodeToEdit.id]) return "";
+    const edited = {
+      ...data[nodeToEdit.id],
+      name: formData.name || nodeToEdit.name,
+      gender: formData.gender ?? nodeToEdit.gender,
+      nameParts: cleanNameParts(formData.nameParts),
+    };
+    return buildNasab(
+      nodeToEdit.id,
+      { ...data, [nodeToEdit.id]: edited },
+      indexFathers(data, relationships)
+    );
+  }, [nodeToEdit, data, relationships, formData.name, formData.gender, formData.nameParts]);
+
   const validateForm = (): {[key: string]: string} => {
     const newErrors: {[key: string]: string} = {};
     
@@ -80,30 +122,26 @@ export const AddOrEditNodeForm: React.FC<AddOrEditNodeFormProps> = ({
       }
     }
     
-    // Birth year validation
-    if (!formData.birth_year) {
-      newErrors.birth_year = t('forms.birthYearRequired');
+    // Birth date validation
+    const birth = fromDateDraft(dates.birth);
+    if (birth === undefined) {
+      newErrors.birth = t('forms.birthYearRequired');
+    } else if (typeof birth === "string") {
+      newErrors.birth = t(birth);
     } else {
       const currentYear = new Date().getFullYear();
-      const birthYear = Number(formData.birth_year);
-      
-      if (isNaN(birthYear)) {
-        newErrors.birth_year = t('forms.invalidYear');
-      } else if (birthYear < 1800 || birthYear > currentYear) {
-        newErrors.birth_year = t('forms.unreasonableYear');
+      const lastYear = birth.end?.year ?? birth.year;
+      if (birth.year < 1800 || lastYear > currentYear) {
+        newErrors.birth = t('forms.unreasonableYear');
       }
     }
     
-    // Death year validation
-    if (formData.death_year) {
-      const deathYear = Number(formData.death_year);
-      const birthYear = Number(formData.birth_year);
-      
-      if (isNaN(deathYear)) {
-        newErrors.death_year = t('forms.invalidYear');
-      } else if (deathYear <= birthYear) {
-        newErrors.death_year = t('forms.deathBeforeBirth');
-      }
+    // Death date validation
+    const death = fromDateDraft(dates.death);
+    if (typeof death === "string") {
+      newErrors.death = t(death);
+    } else if (death && typeof birth === "object" && isDefinitelyBefore(death, birth)) {
+      newErrors.death = t('forms.deathBeforeBirth');
     }
     
     return newErrors;
@@ -117,7 +155,12 @@ export const AddOrEditNodeForm: React.FC<AddOrEditNodeFormProps> = ({
     
     // If there are no errors, submit the form
     if (Object.keys(newErrors).length === 0) {
-      onSave(formData);
+      onSave({
+        ...formData,
+        nameParts: cleanNameParts(formData.nameParts),
+        birth: fromDateDraft(dates.birth) as FamilyDate,
+        death: fromDateDraft(dates.death) as FamilyDate | undefined,
+      });
     }
   };
   
@@ -179,61 +222,64 @@ export const AddOrEditNodeForm: React.FC<AddOrEditNodeFormProps> = ({
               </span>
             )}
           </div>
-          <div className='grid grid-cols-2 gap-3'>
-            <div>
-              <Label htmlFor='gender'>{t('forms.gender')}</Label>
-              <Select
-                name='gender'
-                value={formData.gender || "male"}
-                onValueChange={(v) => handleSelectChange("gender", v)}>
-                <SelectTrigger data-testid='gender-select'>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value='male'>{t('forms.male')}</SelectItem>
-                  <SelectItem value='female'>{t('forms.female')}</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-            <div>
-              <Label htmlFor='birth_year'>{t('forms.birthYear')}</Label>
-              <Input
-                id='birth_year'
-                name='birth_year'
-                data-testid='birth-date-input'
-                type='text'
-                placeholder='Year (e.g., 1990) or Date (e.g., 1990-01-01)'
-                value={formData.birth_year || ""}
-                onChange={handleInputChange}
-                onBlur={() => handleFieldValidation('birth_year')}
-                aria-describedby={errors.birth_year ? 'birth-year-error' : undefined}
-                aria-invalid={!!errors.birth_year}
-              />
-              {errors.birth_year && (
-                <span id='birth-year-error' data-testid='birth-date-error' className='text-red-500 text-sm mt-1 block' role='alert' aria-live='polite'>
-                  {errors.birth_year}
-                </span>
-              )}
-            </div>
-          </div>
           <div>
-            <Label htmlFor='death_year'>{t('forms.deathYear')} ({t('forms.optional')})</Label>
-            <Input
-              id='death_year'
-              name='death_year'
-              type='number'
-              value={formData.death_year || ""}
-              onChange={handleInputChange}
-              onBlur={() => handleFieldValidation('death_year')}
-              aria-describedby={errors.death_year ? 'death-year-error' : undefined}
-              aria-invalid={!!errors.death_year}
-            />
-            {errors.death_year && (
-              <span id='death-year-error' data-testid='death-year-error' className='text-red-500 text-sm mt-1 block' role='alert' aria-live='polite'>
-                {errors.death_year}
-              </span>
-            )}
+            <Label htmlFor='gender'>{t('forms.gender')}</Label>
+            <Select
+              name='gender'
+              value={formData.gender || "male"}
+              onValueChange={(v) => handleSelectChange("gender", v)}>
+              <SelectTrigger data-testid='gender-select'>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value='male'>{t('forms.male')}</SelectItem>
+                <SelectItem value='female'>{t('forms.female')}</SelectItem>
+              </SelectContent>
+            </Select>
           </div>
+          <fieldset className='space-y-2'>
+            <legend className='text-sm font-medium'>
+              {t('forms.nameParts')} ({t('forms.optional')})
+            </legend>
+            <div className='grid grid-cols-2 gap-2'>
+              {NAME_PART_INPUTS.map(({ field, labelKey }) => (
+                <div key={field}>
+                  <Label htmlFor={`name-${field}`} className='text-xs'>
+                    {t(labelKey)}
+                  </Label>
+                  <Input
+                    id={`name-${field}`}
+                    data-testid={`name-${field}-input`}
+                    value={formData.nameParts?.[field] || ""}
+                    onChange={(e) => handleNamePartChange(field, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            {nasabPreview && (
+              <p data-testid='nasab-preview' className='text-xs text-muted-foreground'>
+                {t('forms.fullNasab')}: {nasabPreview}
+              </p>
+            )}
+          </fieldset>
+          <FamilyDateInput
+            id='birth'
+            testId='birth-date'
+            label={t('forms.birthDate')}
+            value={dates.birth}
+            onChange={(birth) => setDates((prev) => ({ ...prev, birth }))}
+            onBlur={() => handleFieldValidation('birth')}
+            error={errors.birth}
+          />
+          <FamilyDateInput
+            id='death'
+            testId='death-date'
+            label={`${t('forms.deathDate')} (${t('forms.optional')})`}
+            value={dates.death}
+            onChange={(death) => setDates((prev) => ({ ...prev, death }))}
+            onBlur={() => handleFieldValidation('death')}
+            error={errors.death}
+          />
           <div>
             <Label htmlFor='occupation'>{t('forms.occupation')} ({t('forms.optional')})</Label>
             <Input
@@ -0,0 +1,304 @@
+/**
+ * @file Panel listing people who may have been entered twice, with a dialog
+ * comparing the two records side by side and merging them into one.
+ */
+import React, { useMemo, useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeftRight, GitMerge, Users, UserCheck } from "lucide-react";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import {
+  CalendarDisplay,
+  FamilyMember,
+  RelationshipConnection,
+} from "@/lib/types";
+import {
+  DuplicateCandidate,
+  DuplicateReason,
+  findDuplicates,
+  formatMergeValue,
+  getDefaultMergeChoices,
+  MERGE_FIELD_KEYS,
+  MERGE_FIELDS,
+  MergeChoices,
+  MergeField,
+} from "@/lib/utils/duplicates";
+
+interface DuplicatesPanelProps {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  onJumpToPerson: (personId: string) => void;
+  onMerge: (survivorId: string, duplicateId: string, choices: MergeChoices) => void;
+  calendarDisplay?: CalendarDisplay;
+  isDarkMode?: boolean;
+}
+
+const REASON_KEYS: Record<DuplicateReason, string> = {
+  sameName: "relationships.duplicateSameName",
+  sameGivenName: "relationships.duplicateSameGivenName",
+  sameBirthYear: "relationships.duplicateSameBirthYear",
+  closeBirthYear: "relationships.duplicateCloseBirthYear",
+  sharedParents: "relationships.duplicateSharedParents",
+  sharedSpouses: "relationships.duplicateSharedSpouses",
+};
+
+interface MergeMembersDialogProps {
+  candidate: DuplicateCandidate | null;
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  onOpenChange: (open: boolean) => void;
+  onMerge: (survivorId: string, duplicateId: string, choices: MergeChoices) => void;
+  calendarDisplay?: CalendarDisplay;
+  isDarkMode?: boolean;
+}
+
+/**
+ * Side-by-side comparison of two records. Each field is taken from the
+ * record clicked; the record kept can be swapped.
+ */
+function MergeMembersDialog({
+  candidate,
+  members,
+  relationships,
+  onOpenChange,
+  onMerge,
+  calendarDisplay,
+  isDarkMode = false,
+}: MergeMembersDialogProps) {
+  const { t } = useTranslation();
+  // Reset through the `key` whenever another pair is opened
+  const [ids, setIds] = useState(candidate?.ids ?? null);
+  const [choices, setChoices] = useState<MergeChoices>(() =>
+    candidate
+      ? getDefaultMergeChoices(members[candidate.ids[0]], members[candidate.ids[1]])
+      : {}
+  );
+
+  const survivor = ids ? members[ids[0]] : undefined;
+  const duplicate = ids ? members[ids[1]] : undefined;
+
+  const formatValue = (member: FamilyMember, field: MergeField) =>
+    formatMergeValue(member, field, { t, calendar: calendarDisplay });
+
+  const countRelationships = (id: string) =>
+    relationships.filter((rel) => rel.fromId === id || rel.toId === id).length;
+
+  const handleSwap = () => {
+    if (!survivor || !duplicate) return;
+    setIds([duplicate.id, survivor.id]);
+    setChoices(getDefaultMergeChoices(duplicate, survivor));
+  };
+
+  const renderValue = (member: FamilyMember, field: MergeField) => {
+    const value = formatValue(member, field);
+    if (field === "image" && value) {
+      return <img src={value} alt='' className='h-10 w-10 rounded object-cover' />;
+    }
+    return value ? (
+      <span className='break-words'>{value}</span>
+    ) : (
+      <span className='opacity-50'>{t("common.notSpecified")}</span>
+    );
+  };
+
+  const fields = MERGE_FIELDS.filter(
+    (field) =>
+      survivor &&
+      duplicate &&
+      (formatValue(survivor, field) || formatValue(duplicate, field))
+  );
+
+  return (
+    <Dialog open={candidate !== null} onOpenChange={onOpenChange}>
+      <DialogContent
+        data-testid='merge-members-dialog'
+        className={`sm:max-w-[640px] ${isDarkMode ? "dark" : ""}`}>
+        <DialogHeader>
+          <DialogTitle className='flex items-center gap-2'>
+            <GitMerge className='h-5 w-5 text-blue-500' />
+            {t("relationships.mergeMembers")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("relationships.mergeDescription")}
+          </DialogDescription>
+        </DialogHeader>
+
+        {survivor && duplicate && (
+          <div className='max-h-[50vh] overflow-y-auto'>
+            <div className='grid grid-cols-[7rem_1fr_1fr] gap-2 text-xs'>
+              <div className='flex items-end'>
+                <Button
+                  data-testid='merge-swap-btn'
+                  size='sm'
+                  variant='outline'
+                  className='h-7 px-2 text-xs'
+                  onClick={handleSwap}
+                  title={t("relationships.mergeSwap")}>
+                  <ArrowLeftRight className='w-3 h-3' />
+                </Button>
+              </div>
+              {[survivor, duplicate].map((member, index) => (
+                <div key={member.id} className='space-y-0.5'>
+                  <div className='flex items-center gap-1 font-semibold text-sm'>
+                    {index === 0 && <UserCheck className='w-4 h-4 text-green-600' />}
+                    {member.name}
+                  </div>
+                  <div className='text-gray-500 dark:text-gray-400'>
+                    {(index === 0
+                      ? t("relationships.mergeKept")
+                      : t("relationships.mergeRemoved")
+                    ).replace("{{count}}", String(countRelationships(member.id)))}
+                  </div>
+                </div>
+              ))}
+              {fields.map((field) => (
+                <React.Fragment key={field}>
+                  <div className='font-medium pt-1'>{t(MERGE_FIELD_KEYS[field])}</div>
+                  {(["survivor", "duplicate"] as const).map((side) => {
+                    const selected = (choices[field] ?? "survivor") === side;
+                    return (
+                      <button
+                        key={side}
+                        type='button'
+                        data-testid={`merge-choice-${field}-${side}`}
+                        aria-pressed={selected}
+                        onClick={() =>
+                          setChoices((prev) => ({ ...prev, [field]: side }))
+                        }
+                        className={`p-1.5 rounded border text-start ${
+                          selected
+                            ? "border-blue-500 bg-blue-50 dark:bg-blue-900/30"
+                            : "border-gray-200 dark:border-gray-700 opacity-70 hover:opacity-100"
+                        }`}>
+                        {renderValue(side === "survivor" ? survivor : duplicate, field)}
+                      </button>
+                    );
+                  })}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant='outline' onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            data-testid='merge-confirm-btn'
+            disabled={!survivor || !duplicate}
+            onClick={() => {
+              if (!survivor || !duplicate) return;
+              onMerge(survivor.id, duplicate.id, choices);
+              onOpenChange(false);
+            }}>
+            <GitMerge className='w-4 h-4 mr-1' />
+            {t("relationships.mergeConfirm")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export const DuplicatesPanel: React.FC<DuplicatesPanelProps> = ({
+  members,
+  relationships,
+  onJumpToPerson,
+  onMerge,
+  calendarDisplay,
+  isDarkMode = false,
+}) => {
+  const { t } = useTranslation();
+  const candidates = useMemo(
+    () => findDuplicates(members, relationships),
+    [members, relationships]
+  );
+  const [comparing, setComparing] = useState<DuplicateCandidate | null>(null);
+
+  return (
+    <Card
+      data-testid='duplicates-panel'
+      className={`p-4 ${
+        isDarkMode ? "bg-gray-900 border-gray-700" : "bg-gray-50"
+      }`}>
+      <div className='flex items-center justify-between mb-3'>
+        <h3
+          className={`font-semibold ${
+            isDarkMode ? "text-white" : "text-gray-900"
+          }`}>
+          {t("relationships.duplicates")}
+        </h3>
+        {candidates.length > 0 && (
+          <Badge variant='secondary'>{candidates.length}</Badge>
+        )}
+      </div>
+
+      {candidates.length === 0 ? (
+        <div className='flex items-center gap-2 text-sm text-green-600 dark:text-green-400'>
+          <Users className='w-4 h-4' />
+          <span>{t("relationships.noDuplicates")}</span>
+        </div>
+      ) : (
+        <div className='space-y-2 max-h-72 overflow-y-auto'>
+          {candidates.map((candidate) => (
+            <div
+              key={candidate.ids.join("|")}
+              data-testid='duplicate-candidate'
+              className='p-2 rounded border-l-2 border-blue-400 bg-blue-50 dark:bg-blue-900/20 text-xs'>
+              <div className='flex items-center gap-2'>
+                {candidate.ids.map((id, index) => (
+                  <React.Fragment key={id}>
+                    {index > 0 && <span className='opacity-50'>≈</span>}
+                    <button
+                      onClick={() => onJumpToPerson(id)}
+                      className='text-blue-600 dark:text-blue-400 hover:underline'>
+                      {members[id].name}
+                    </button>
+                  </React.Fragment>
+                ))}
+                <Badge variant='outline' className='ms-auto'>
+                  {candidate.score}
+                </Badge>
+              </div>
+              <div className='flex flex-wrap items-center gap-1 mt-2'>
+                <span className='text-gray-600 dark:text-gray-400'>
+                  {candidate.reasons.map((reason) => t(REASON_KEYS[reason])).join(" · ")}
+                </span>
+                <Button
+                  data-testid='duplicate-compare-btn'
+                  size='sm'
+                  variant='outline'
+                  className='h-6 px-2 text-xs ms-auto'
+                  onClick={() => setComparing(candidate)}>
+                  <GitMerge className='w-3 h-3 mr-1' />
+                  {t("relationships.compareAndMerge")}
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <MergeMembersDialog
+        key={comparing?.ids.join("|")}
+        candidate={comparing}
+        members={members}
+        relationships={relationships}
+        onOpenChange={(open) => !open && setComparing(null)}
+        onMerge={onMerge}
+        calendarDisplay={calendarDisplay}
+        isDarkMode={isDarkMode}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,222 @@
+/**
+ * @file Input for a possibly approximate date: its precision, the calendar
+ * it is written in, the date as typed ("1890", "1890-03" or "1890-03-12"),
+ * the end of a "between" range and the wording of the source.
+ */
+import React from "react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { Calendar, DatePrecision, FamilyDate } from "@/lib/types";
+import {
+  CALENDAR_DISPLAY_KEYS,
+  compareDateParts,
+  DATE_PRECISIONS,
+  formatCalendarDate,
+  formatDateParts,
+  parseDateParts,
+} from "@/lib/utils/familyDate";
+import { hijriToGregorian } from "@/lib/utils/hijri";
+
+/**
+ * The date as it is being edited. The text is kept as typed so invalid
+ * input can be reported instead of being lost.
+ */
+export interface DateDraft {
+  precision: DatePrecision;
+  calendar: Calendar;
+  text: string;
+  endText: string;
+  original: string;
+}
+
+const PRECISION_LABEL_KEYS: { [precision in DatePrecision]: string } = {
+  exact: "forms.precisionExact",
+  about: "forms.precisionAbout",
+  before: "forms.precisionBefore",
+  after: "forms.precisionAfter",
+  between: "forms.precisionBetween",
+};
+
+const CALENDARS: Calendar[] = ["gregorian", "hijri"];
+
+export const EMPTY_DATE_DRAFT: DateDraft = {
+  precision: "exact",
+  calendar: "gregorian",
+  text: "",
+  endText: "",
+  original: "",
+};
+
+export function toDateDraft(date?: FamilyDate): DateDraft {
+  if (!date) return EMPTY_DATE_DRAFT;
+  // Dates recorded in Hijri are edited in Hijri
+  const parts = date.hijri ?? date;
+  return {
+    precision: date.precision,
+    calendar: date.hijri ? "hijri" : "gregorian",
+    text: formatDateParts(parts),
+    endText: parts.end ? formatDateParts(parts.end) : "",
+    original: date.original ?? "",
+  };
+}
+
+/**
+ * Reads the draft back into a date. Hijri input is converted to Gregorian
+ * and kept as entered. Returns undefined for an empty draft and an error
+ * translation key when the input is not a valid date.
+ */
+export function fromDateDraft(draft: DateDraft): FamilyDate | undefined | string {
+  if (draft.text.trim() === "") return undefined;
+  const start = parseDateParts(draft.text, draft.calendar);
+  if (!start) return "forms.invalidDate";
+  const end =
+    draft.precision === "between"
+      ? parseDateParts(draft.endText, draft.calendar)
+      : undefined;
+  if (draft.precision === "between") {
+    if (!end) return "forms.invalidDate";
+    if (compareDateParts(end, start) < 0) return "forms.dateRangeReversed";
+  }
+
+  const date: FamilyDate =
+    draft.calendar === "hijri"
+      ? {
+          precision: draft.precision,
+          ...hijriToGregorian(start),
+          hijri: end ? { ...start, end } : start,
+        }
+      : { precision: draft.precision, ...start };
+  if (end) date.end = draft.calendar === "hijri" ? hijriToGregorian(end) : end;
+  if (draft.original.trim() !== "") date.original = draft.original.trim();
+  return date;
+}
+
+interface FamilyDateInputProps {
+  id: string;
+  label: string;
+  value: DateDraft;
+  onChange: (value: DateDraft) => void;
+  onBlur?: () => void;
+  error?: string;
+  /** Prefix of the test ids, e.g. "birth-date" */
+  testId: string;
+}
+
+export const FamilyDateInput: React.FC<FamilyDateInputProps> = ({
+  id,
+  label,
+  value,
+  onChange,
+  onBlur,
+  error,
+  testId,
+}) => {
+  const { t } = useTranslation();
+  const update = (changes: Partial<DateDraft>) =>
+    onChange({ ...value, ...changes });
+  // The same date in the other calendar, shown while the input is valid
+  const parsed = fromDateDraft(value);
+  const converted =
+    typeof parsed === "object"
+      ? formatCalendarDate(
+          parsed,
+          value.calendar === "hijri" ? "gregorian" : "hijri",
+          { t }
+        )
+      : "";
+
+  return (
+    <div className='space-y-1'>
+      <Label htmlFor={id}>{label}</Label>
+      <div className='flex gap-2'>
+        <Select
+          value={value.precision}
+          onValueChange={(precision) =>
+            update({ precision: precision as DatePrecision })
+          }>
+          <SelectTrigger data-testid={`${testId}-precision`} className='w-28 shrink-0'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {DATE_PRECISIONS.map((precision) => (
+              <SelectItem key={precision} value={precision}>
+                {t(PRECISION_LABEL_KEYS[precision])}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={value.calendar}
+          onValueChange={(calendar) => update({ calendar: calendar as Calendar })}>
+          <SelectTrigger
+            data-testid={`${testId}-calendar`}
+            aria-label={t("forms.calendar")}
+            className='w-24 shrink-0'>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CALENDARS.map((calendar) => (
+              <SelectItem key={calendar} value={calendar}>
+                {t(CALENDAR_DISPLAY_KEYS[calendar])}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Input
+          id={id}
+          data-testid={`${testId}-input`}
+          type='text'
+          placeholder={t("forms.datePlaceholder")}
+          value={value.text}
+          onChange={(e) => update({ text: e.target.value })}
+          onBlur={onBlur}
+          aria-describedby={error ? `${id}-error` : undefined}
+          aria-invalid={!!error}
+        />
+      </div>
+      {value.precision === "between" && (
+        <Input
+          data-testid={`${testId}-end-input`}
+          type='text'
+          placeholder={t("forms.dateEndPlaceholder")}
+          value={value.endText}
+          onChange={(e) => update({ endText: e.target.value })}
+          onBlur={onBlur}
+        />
+      )}
+      {converted && (
+        <p
+          data-testid={`${testId}-converted`}
+          className='text-xs text-muted-foreground'>
+          {t("forms.convertedDate").replace("{{date}}", converted)}
+        </p>
+      )}
+      <Input
+        data-testid={`${testId}-original-input`}
+        type='text'
+        placeholder={t("forms.dateOriginalPlaceholder")}
+        value={value.original}
+        onChange={(e) => update({ original: e.target.value })}
+        className='h-8 text-xs'
+      />
+      {error && (
+        <span
+          id={`${id}-error`}
+          data-testid={`${testId}-error`}
+          className='text-red-500 text-sm mt-1 block'
+          role='alert'
+          aria-live='polite'>
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
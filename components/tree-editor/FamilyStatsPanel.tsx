@@ -0,0 +1,154 @@
+/**
+ * @file Statistics of the family computed from the tree: counts, spans,
+ * averages, the most common names, places and occupations, and births per
+ * decade.
+ */
+import React, { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { BarChart3 } from "lucide-react";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { FamilyMember, RelationshipConnection } from "@/lib/types";
+import { computeFamilyStats, CountedValue } from "@/lib/utils/familyStats";
+
+interface FamilyStatsPanelProps {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  founderId?: string | null;
+  mainId?: string;
+  isDarkMode?: boolean;
+}
+
+const formatNumber = (value: number | null) =>
+  value === null ? "—" : String(Math.round(value * 10) / 10);
+
+export const FamilyStatsPanel: React.FC<FamilyStatsPanelProps> = ({
+  members,
+  relationships,
+  founderId = null,
+  mainId = "",
+  isDarkMode = false,
+}) => {
+  const { t } = useTranslation();
+  const stats = useMemo(
+    () => computeFamilyStats(members, relationships, founderId, mainId),
+    [members, relationships, founderId, mainId]
+  );
+  const mutedClass = isDarkMode ? "text-gray-400" : "text-gray-600";
+  const maxBirths = Math.max(
+    1,
+    ...stats.birthsPerDecade.map((entry) => entry.count)
+  );
+
+  const figures = [
+    { key: "members", label: t("toolbar.totalMembers"), value: stats.memberCount },
+    {
+      key: "generations",
+      label: t("toolbar.statsGenerations"),
+      value: stats.generationCount,
+    },
+    {
+      key: "years",
+      label: t("toolbar.statsYearSpan"),
+      value:
+        stats.firstYear === null
+          ? "—"
+          : `${stats.firstYear} – ${stats.lastYear}`,
+    },
+    {
+      key: "gender",
+      label: t("toolbar.statsGenderRatio"),
+      value: `${stats.maleCount} : ${stats.femaleCount}`,
+    },
+    {
+      key: "lifespan",
+      label: t("toolbar.statsAverageLifespan"),
+      value: formatNumber(stats.averageLifespan),
+    },
+    {
+      key: "children",
+      label: t("toolbar.statsChildrenPerCouple"),
+      value: formatNumber(stats.averageChildrenPerCouple),
+    },
+  ];
+
+  const renderTopList = (testId: string, title: string, values: CountedValue[]) =>
+    values.length > 0 && (
+      <div data-testid={testId}>
+        <h4 className='text-xs font-semibold mb-1'>{title}</h4>
+        <ul className='space-y-0.5'>
+          {values.map(({ value, count }) => (
+            <li key={value} className='flex justify-between text-xs'>
+              <span className='truncate'>{value}</span>
+              <span className={mutedClass}>{count}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <Card
+      data-testid='family-stats-panel'
+      className={`p-4 ${
+        isDarkMode ? "bg-gray-900 border-gray-700" : "bg-gray-50"
+      }`}>
+      <h3
+        className={`flex items-center gap-2 font-semibold mb-3 ${
+          isDarkMode ? "text-white" : "text-gray-900"
+        }`}>
+        <BarChart3 className='w-4 h-4' />
+        {t("toolbar.familyStats")}
+      </h3>
+
+      <div className='grid grid-cols-2 gap-3 mb-4'>
+        {figures.map(({ key, label, value }) => (
+          <div key={key} data-testid={`stat-${key}`} className='text-center'>
+            <div
+              className={`text-lg font-bold ${
+                isDarkMode ? "text-blue-400" : "text-blue-600"
+              }`}>
+              {value}
+            </div>
+            <div className={`text-xs ${mutedClass}`}>{label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className='space-y-3'>
+        {renderTopList("stats-common-names", t("toolbar.statsCommonNames"), stats.commonNames)}
+        {renderTopList(
+          "stats-common-birthplaces",
+          t("toolbar.statsCommonBirthplaces"),
+          stats.commonBirthplaces
+        )}
+        {renderTopList(
+          "stats-common-occupations",
+          t("toolbar.statsCommonOccupations"),
+          stats.commonOccupations
+        )}
+
+        {stats.birthsPerDecade.length > 0 && (
+          <div data-testid='stats-births-per-decade'>
+            <h4 className='text-xs font-semibold mb-1'>
+              {t("toolbar.statsBirthsPerDecade")}
+            </h4>
+            <div className='space-y-0.5'>
+              {stats.birthsPerDecade.map(({ decade, count }) => (
+                <div key={decade} className='flex items-center gap-2 text-xs'>
+                  <span className={`w-10 shrink-0 ${mutedClass}`}>{decade}</span>
+                  <div className='flex-1 h-2 rounded bg-gray-200 dark:bg-gray-700'>
+                    <div
+                      className='h-2 rounded bg-blue-500'
+                      style={{ width: `${(count / maxBirths) * 100}%` }}
+                    />
+                  </div>
+                  <span className='w-6 text-end'>{count}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </Card>
+  );
+};
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { FamilyMember, SmartSuggestion, RelationshipConnection } from '../../lib/types';
 import { SmartSuggestionsEngine } from '../../lib/utils/SmartSuggestions';
+import { formatFamilyDate } from '../../lib/utils/familyDate';
 
 interface FloatingSuggestionsProps {
   selectedPerson: FamilyMember | null;
@@ -135,7 +136,7 @@ export const FloatingSuggestions: React.FC<FloatingSuggestionsProps> = ({
               {selectedPerson.name}
             </p>
             <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-              Born {selectedPerson.birth_year}
+              Born {formatFamilyDate(selectedPerson.birth)}
             </p>
           </div>
         </div>
@@ -0,0 +1,215 @@
+/**
+ * @file Dialog previewing what merging another family file would change:
+ * new people, changed fields and new relationships, each of which can be
+ * accepted or rejected before the merge is applied.
+ */
+import React, { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { GitMerge, Link2, PencilLine, UserPlus } from "lucide-react";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { CalendarDisplay, FamilyMember } from "@/lib/types";
+import { formatMergeValue, MERGE_FIELD_KEYS } from "@/lib/utils/duplicates";
+import { formatFamilyDate } from "@/lib/utils/familyDate";
+import { TreeMergeChange, TreeMergePlan } from "@/lib/utils/treeMerge";
+
+interface ImportMergeDialogProps {
+  plan: TreeMergePlan | null;
+  members: { [id: string]: FamilyMember };
+  onOpenChange: (open: boolean) => void;
+  onApply: (accepted: Set<string>) => void;
+  calendarDisplay?: CalendarDisplay;
+  isDarkMode?: boolean;
+}
+
+const SECTIONS: {
+  kind: TreeMergeChange["kind"];
+  titleKey: string;
+  icon: React.ElementType;
+}[] = [
+  { kind: "newMember", titleKey: "messages.mergeNewMembers", icon: UserPlus },
+  {
+    kind: "changedField",
+    titleKey: "messages.mergeChangedFields",
+    icon: PencilLine,
+  },
+  {
+    kind: "newRelationship",
+    titleKey: "messages.mergeNewRelationships",
+    icon: Link2,
+  },
+];
+
+const RELATIONSHIP_KEYS = {
+  parent: "messages.mergeParentOf",
+  spouse: "messages.mergeSpouses",
+  sibling: "messages.mergeSiblings",
+};
+
+export const ImportMergeDialog: React.FC<ImportMergeDialogProps> = ({
+  plan,
+  members,
+  onOpenChange,
+  onApply,
+  calendarDisplay,
+  isDarkMode = false,
+}) => {
+  const { t } = useTranslation();
+  // Everything starts accepted; reset through the `key` for each new plan
+  const [accepted, setAccepted] = useState(
+    () => new Set(plan?.changes.map((change) => change.id))
+  );
+
+  const nameOf = (id: string) => {
+    const added = plan?.changes.find(
+      (change) => change.kind === "newMember" && change.member.id === id
+    );
+    return added?.kind === "newMember"
+      ? added.member.name
+      : members[id]?.name ?? id;
+  };
+
+  const describe = (change: TreeMergeChange) => {
+    switch (change.kind) {
+      case "newMember": {
+        const born = formatFamilyDate(change.member.birth, {
+          t,
+          calendar: calendarDisplay,
+        });
+        return born ? `${change.member.name} (${born})` : change.member.name;
+      }
+      case "changedField": {
+        const member = members[change.memberId];
+        const options = { t, calendar: calendarDisplay };
+        const before = formatMergeValue(member, change.field, options);
+        const after = formatMergeValue(
+          { ...member, [change.field]: change.value },
+          change.field,
+          options
+        );
+        return `${member.name} · ${t(MERGE_FIELD_KEYS[change.field])}: ${
+          before || t("common.notSpecified")
+        } → ${after}`;
+      }
+      case "newRelationship":
+        return t(RELATIONSHIP_KEYS[change.relationship.type])
+          .replace("{{from}}", nameOf(change.relationship.fromId))
+          .replace("{{to}}", nameOf(change.relationship.toId));
+    }
+  };
+
+  const toggle = (id: string) =>
+    setAccepted((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const changes = plan?.changes ?? [];
+  const similarCount =
+    plan?.matches.filter((match) => match.by === "similarity").length ?? 0;
+
+  return (
+    <Dialog open={plan !== null} onOpenChange={onOpenChange}>
+      <DialogContent
+        data-testid='import-merge-dialog'
+        className={`sm:max-w-[640px] ${isDarkMode ? "dark" : ""}`}>
+        <DialogHeader>
+          <DialogTitle className='flex items-center gap-2'>
+            <GitMerge className='h-5 w-5 text-blue-500' />
+            {t("messages.mergeTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {t("messages.mergeSummary")
+              .replace("{{matched}}", String(plan?.matches.length ?? 0))
+              .replace("{{similar}}", String(similarCount))
+              .replace("{{changes}}", String(changes.length))}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className='flex gap-2'>
+          <Button
+            size='sm'
+            variant='outline'
+            className='h-7 px-2 text-xs'
+            onClick={() =>
+              setAccepted(new Set(changes.map((change) => change.id)))
+            }>
+            {t("messages.mergeAcceptAll")}
+          </Button>
+          <Button
+            size='sm'
+            variant='outline'
+            className='h-7 px-2 text-xs'
+            onClick={() => setAccepted(new Set())}>
+            {t("messages.mergeRejectAll")}
+          </Button>
+        </div>
+
+        <div className='max-h-[50vh] overflow-y-auto space-y-4'>
+          {SECTIONS.map(({ kind, titleKey, icon: Icon }) => {
+            const items = changes.filter((change) => change.kind === kind);
+            if (items.length === 0) return null;
+            return (
+              <div key={kind} data-testid={`merge-section-${kind}`}>
+                <h4 className='flex items-center gap-1 text-sm font-semibold mb-2'>
+                  <Icon className='h-4 w-4' />
+                  {t(titleKey)} ({items.length})
+                </h4>
+                <ul className='space-y-1 text-xs'>
+                  {items.map((change) => (
+                    <li key={change.id}>
+                      <label className='flex items-start gap-2 cursor-pointer'>
+                        <input
+                          type='checkbox'
+                          data-testid='merge-change-toggle'
+                          className='mt-0.5 accent-blue-600'
+                          checked={accepted.has(change.id)}
+                          onChange={() => toggle(change.id)}
+                        />
+                        <span
+                          className={
+                            accepted.has(change.id)
+                              ? ""
+                              : "line-through opacity-60"
+                          }>
+                          {describe(change)}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+          {changes.length === 0 && (
+            <p className='text-sm text-gray-500 dark:text-gray-400'>
+              {t("messages.mergeNothingNew")}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant='outline' onClick={() => onOpenChange(false)}>
+            {t("common.cancel")}
+          </Button>
+          <Button
+            data-testid='import-merge-apply-btn'
+            disabled={accepted.size === 0}
+            onClick={() => onApply(accepted)}>
+            <GitMerge className='w-4 h-4 mr-1' />
+            {t("messages.mergeApply").replace("{{count}}", String(accepted.size))}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,111 @@
+/**
+ * @file Dialog listing the problems found and fixes applied while importing
+ * a family-data file.
+ */
+import React from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, CheckCircle2, FileWarning } from "lucide-react";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { ImportIssue, ImportReport } from "@/lib/utils/familyDataFormat";
+
+interface ImportReportDialogProps {
+  report: ImportReport | null;
+  onOpenChange: (open: boolean) => void;
+  isDarkMode?: boolean;
+}
+
+function IssueList({
+  issues,
+  className,
+}: {
+  issues: ImportIssue[];
+  className: string;
+}) {
+  return (
+    <ul className='space-y-1 text-xs'>
+      {issues.map((issue, index) => (
+        <li key={`${issue.path}-${index}`} className={className}>
+          <code className='font-mono opacity-75' dir='ltr'>
+            {issue.path}
+          </code>
+          : {issue.message}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export const ImportReportDialog: React.FC<ImportReportDialogProps> = ({
+  report,
+  onOpenChange,
+  isDarkMode = false,
+}) => {
+  const { t } = useTranslation();
+
+  return (
+    <Dialog open={report !== null} onOpenChange={onOpenChange}>
+      <DialogContent
+        data-testid='import-report-dialog'
+        className={`sm:max-w-[560px] ${isDarkMode ? "dark" : ""}`}>
+        <DialogHeader>
+          <DialogTitle className='flex items-center gap-2'>
+            <FileWarning className='h-5 w-5 text-yellow-500' />
+            {t("messages.importReportTitle")}
+          </DialogTitle>
+          <DialogDescription>
+            {report && report.fromVersion !== report.toVersion
+              ? t("messages.importReportUpgraded")
+                  .replace("{{from}}", String(report.fromVersion))
+                  .replace("{{to}}", String(report.toVersion))
+              : t("messages.importReportSummary")
+                  .replace("{{problems}}", String(report?.problems.length ?? 0))
+                  .replace("{{fixes}}", String(report?.fixes.length ?? 0))}
+          </DialogDescription>
+        </DialogHeader>
+
+        {report && (
+          <div className='max-h-[50vh] overflow-y-auto space-y-4'>
+            {report.problems.length > 0 && (
+              <div>
+                <h4 className='flex items-center gap-1 text-sm font-semibold text-red-600 dark:text-red-400 mb-2'>
+                  <AlertTriangle className='h-4 w-4' />
+                  {t("messages.importReportProblems")} ({report.problems.length})
+                </h4>
+                <IssueList
+                  issues={report.problems}
+                  className='text-red-700 dark:text-red-300'
+                />
+              </div>
+            )}
+            {report.fixes.length > 0 && (
+              <div>
+                <h4 className='flex items-center gap-1 text-sm font-semibold text-green-600 dark:text-green-400 mb-2'>
+                  <CheckCircle2 className='h-4 w-4' />
+                  {t("messages.importReportFixes")} ({report.fixes.length})
+                </h4>
+                <IssueList
+                  issues={report.fixes}
+                  className='text-gray-700 dark:text-gray-300'
+                />
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant='outline' onClick={() => onOpenChange(false)}>
+            {t("common.close")}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,140 @@
+/**
+ * @file Panel listing the integrity problems found in the tree, with links to
+ * the people involved and one-click fixes where a safe fix exists.
+ */
+import React, { useMemo } from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertCircle, AlertTriangle, ShieldCheck, Wrench } from "lucide-react";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { FamilyMember, RelationshipConnection } from "@/lib/types";
+import {
+  analyzeTreeIntegrity,
+  IntegrityFix,
+  IntegrityIssue,
+  IntegrityIssueKind,
+} from "@/lib/utils/integrityCheck";
+
+interface IntegrityPanelProps {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  onJumpToPerson: (personId: string) => void;
+  onApplyFix: (fix: IntegrityFix) => void;
+  isDarkMode?: boolean;
+}
+
+const ISSUE_MESSAGE_KEYS: Record<IntegrityIssueKind, string> = {
+  ancestryCycle: "relationships.integrityAncestryCycle",
+  ownParent: "relationships.integrityOwnParent",
+  ownSpouse: "relationships.integrityOwnSpouse",
+  ownSibling: "relationships.integrityOwnSibling",
+  tooManyParents: "relationships.integrityTooManyParents",
+  bornAfterParentDeath: "relationships.integrityBornAfterParentDeath",
+  earlyMarriage: "relationships.integrityEarlyMarriage",
+  spouseIsRelative: "relationships.integritySpouseIsRelative",
+  siblingWithoutSharedParents: "relationships.integritySiblingWithoutSharedParents",
+  siblingMissingParents: "relationships.integritySiblingMissingParents",
+  duplicateRelationship: "relationships.integrityDuplicateRelationship",
+  missingMember: "relationships.integrityMissingMember",
+};
+
+export const IntegrityPanel: React.FC<IntegrityPanelProps> = ({
+  members,
+  relationships,
+  onJumpToPerson,
+  onApplyFix,
+  isDarkMode = false,
+}) => {
+  const { t } = useTranslation();
+  const issues = useMemo(
+    () => analyzeTreeIntegrity(members, relationships),
+    [members, relationships]
+  );
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+
+  const formatMessage = (issue: IntegrityIssue) => {
+    const params: { [key: string]: string } = { ...issue.params };
+    if (params.relation) params.relation = t(`relationships.${params.relation}`);
+    return Object.entries(params).reduce(
+      (message, [key, value]) => message.split(`{{${key}}}`).join(value),
+      t(ISSUE_MESSAGE_KEYS[issue.kind])
+    );
+  };
+
+  return (
+    <Card
+      data-testid='integrity-panel'
+      className={`p-4 ${
+        isDarkMode ? "bg-gray-900 border-gray-700" : "bg-gray-50"
+      }`}>
+      <div className='flex items-center justify-between mb-3'>
+        <h3
+          className={`font-semibold ${
+            isDarkMode ? "text-white" : "text-gray-900"
+          }`}>
+          {t("relationships.integrityCheck")}
+        </h3>
+        <div className='flex items-center gap-1'>
+          {errorCount > 0 && <Badge variant='destructive'>{errorCount}</Badge>}
+          {issues.length > errorCount && (
+            <Badge variant='secondary'>{issues.length - errorCount}</Badge>
+          )}
+        </div>
+      </div>
+
+      {issues.length === 0 ? (
+        <div className='flex items-center gap-2 text-sm text-green-600 dark:text-green-400'>
+          <ShieldCheck className='w-4 h-4' />
+          <span>{t("relationships.integrityNoIssues")}</span>
+        </div>
+      ) : (
+        <div className='space-y-2 max-h-72 overflow-y-auto'>
+          {issues.map((issue) => (
+            <div
+              key={issue.id}
+              data-testid={`integrity-issue-${issue.kind}`}
+              className={`p-2 rounded border-l-2 text-xs ${
+                issue.severity === "error"
+                  ? "border-red-400 bg-red-50 dark:bg-red-900/20"
+                  : "border-yellow-400 bg-yellow-50 dark:bg-yellow-900/20"
+              }`}>
+              <div className='flex items-start gap-2'>
+                {issue.severity === "error" ? (
+                  <AlertCircle className='w-4 h-4 text-red-500 flex-shrink-0' />
+                ) : (
+                  <AlertTriangle className='w-4 h-4 text-yellow-500 flex-shrink-0' />
+                )}
+                <span>{formatMessage(issue)}</span>
+              </div>
+              <div className='flex flex-wrap items-center gap-1 mt-2'>
+                {issue.memberIds
+                  .filter((id, index, ids) => ids.indexOf(id) === index)
+                  .filter((id) => members[id])
+                  .map((id) => (
+                    <button
+                      key={id}
+                      onClick={() => onJumpToPerson(id)}
+                      className='text-blue-600 dark:text-blue-400 hover:underline'>
+                      {members[id].name}
+                    </button>
+                  ))}
+                {issue.fix && (
+                  <Button
+                    data-testid='integrity-fix-btn'
+                    size='sm'
+                    variant='outline'
+                    className='h-6 px-2 text-xs ms-auto'
+                    onClick={() => onApplyFix(issue.fix!)}>
+                    <Wrench className='w-3 h-3 mr-1' />
+                    {t("relationships.integrityFix")}
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -14,6 +14,7 @@ import {
 } from 'lucide-react';
 import { FamilyMember, RelationshipConnection } from '../../lib/types';
 import { getChildIds } from '../../lib/utils/relationshipHelpers';
+import { formatLifeYears, getAge } from '../../lib/utils/familyDate';
 
 interface InteractiveLinkProps {
   linkData: {
@@ -163,15 +164,13 @@ export const InteractiveLink: React.FC<InteractiveLinkProps> = ({
             <div className={`p-2 rounded border ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-200'}`}>
               <p className="text-xs font-medium">{linkData.person1.name}</p>
               <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                {linkData.person1.birth_year}
-                {linkData.person1.death_year && ` - ${linkData.person1.death_year}`}
+                {formatLifeYears(linkData.person1)}
               </p>
             </div>
             <div className={`p-2 rounded border ${isDarkMode ? 'bg-gray-800 border-gray-700' : 'bg-gray-50 border-gray-200'}`}>
               <p className="text-xs font-medium">{linkData.person2.name}</p>
               <p className={`text-xs ${isDarkMode ? 'text-gray-400' : 'text-gray-500'}`}>
-                {linkData.person2.birth_year}
-                {linkData.person2.death_year && ` - ${linkData.person2.death_year}`}
+                {formatLifeYears(linkData.person2)}
               </p>
             </div>
           </div>
@@ -233,7 +232,7 @@ export const InteractiveLink: React.FC<InteractiveLinkProps> = ({
                   <div className="flex items-center justify-between text-xs">
                     <span className={isDarkMode ? 'text-gray-400' : 'text-gray-600'}>Age Difference:</span>
                     <span className={isDarkMode ? 'text-white' : 'text-gray-900'}>
-                      {Math.abs(linkData.person1.birth_year - linkData.person2.birth_year)} years
+                      {Math.abs(getAge(linkData.person1.birth, linkData.person2.birth) ?? 0)} years
                     </span>
                   </div>
                 </div>
@@ -0,0 +1,250 @@
+/**
+ * @file Panel for filtering members by their details. The page highlights
+ * the matches on the tree and dims everyone else; the panel lists them.
+ */
+import React from "react";
+import { Card } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Filter, X } from "lucide-react";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { FamilyMember } from "@/lib/types";
+import {
+  EMPTY_MEMBER_FILTER,
+  isMemberFilterActive,
+  MemberFilter,
+  YearRange,
+} from "@/lib/utils/memberFilter";
+import { formatLifeYears } from "@/lib/utils/familyDate";
+
+interface MemberFilterPanelProps {
+  members: { [id: string]: FamilyMember };
+  filter: MemberFilter;
+  onFilterChange: (filter: MemberFilter) => void;
+  /** Ids of the members matching the filter, in list order */
+  matchIds: string[];
+  onJumpToPerson: (personId: string) => void;
+  isDarkMode?: boolean;
+}
+
+const ANY = "any";
+
+const parseYear = (value: string) =>
+  value.trim() === "" || isNaN(Number(value)) ? undefined : Number(value);
+
+export const MemberFilterPanel: React.FC<MemberFilterPanelProps> = ({
+  members,
+  filter,
+  onFilterChange,
+  matchIds,
+  onJumpToPerson,
+  isDarkMode = false,
+}) => {
+  const { t } = useTranslation();
+  const isActive = isMemberFilterActive(filter);
+  const update = (changes: Partial<MemberFilter>) =>
+    onFilterChange({ ...filter, ...changes });
+
+  const renderChoice = (
+    testId: string,
+    label: string,
+    value: string | undefined,
+    options: { value: string; label: string }[],
+    onChange: (value: string | undefined) => void
+  ) => (
+    <div className='space-y-1'>
+      <Label className='text-xs'>{label}</Label>
+      <Select
+        value={value ?? ANY}
+        onValueChange={(next) => onChange(next === ANY ? undefined : next)}>
+        <SelectTrigger data-testid={testId} className='h-8 text-xs'>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ANY}>{t("toolbar.filterAny")}</SelectItem>
+          {options.map((option) => (
+            <SelectItem key={option.value} value={option.value}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+
+  const renderYearRange = (
+    testId: string,
+    label: string,
+    range: YearRange,
+    onChange: (range: YearRange) => void
+  ) => (
+    <div className='space-y-1'>
+      <Label className='text-xs'>{label}</Label>
+      <div className='flex items-center gap-1'>
+        <Input
+          data-testid={`${testId}-from`}
+          type='number'
+          placeholder={t("toolbar.filterFrom")}
+          value={range.from ?? ""}
+          onChange={(e) => onChange({ ...range, from: parseYear(e.target.value) })}
+          className='h-8 text-xs'
+        />
+        <span className='text-xs'>–</span>
+        <Input
+          data-testid={`${testId}-to`}
+          type='number'
+          placeholder={t("toolbar.filterTo")}
+          value={range.to ?? ""}
+          onChange={(e) => onChange({ ...range, to: parseYear(e.target.value) })}
+          className='h-8 text-xs'
+        />
+      </div>
+    </div>
+  );
+
+  return (
+    <Card
+      data-testid='member-filter-panel'
+      className={`p-4 ${
+        isDarkMode ? "bg-gray-900 border-gray-700" : "bg-gray-50"
+      }`}>
+      <div className='flex items-center justify-between mb-3'>
+        <h3
+          className={`flex items-center gap-2 font-semibold ${
+            isDarkMode ? "text-white" : "text-gray-900"
+          }`}>
+          <Filter className='w-4 h-4' />
+          {t("toolbar.memberFilter")}
+        </h3>
+        {isActive && (
+          <Button
+            data-testid='clear-member-filter'
+            size='sm'
+            variant='ghost'
+            className='h-6 px-2 text-xs'
+            onClick={() => onFilterChange(EMPTY_MEMBER_FILTER)}>
+            <X className='w-3 h-3 mr-1' />
+            {t("common.clear")}
+          </Button>
+        )}
+      </div>
+
+      <div className='grid grid-cols-2 gap-2'>
+        {renderChoice(
+          "filter-gender",
+          t("forms.gender"),
+          filter.gender,
+          [
+            { value: "male", label: t("forms.male") },
+            { value: "female", label: t("forms.female") },
+          ],
+          (gender) => update({ gender: gender as MemberFilter["gender"] })
+        )}
+        {renderChoice(
+          "filter-status",
+          t("toolbar.filterStatus"),
+          filter.status,
+          [
+            { value: "living", label: t("toolbar.filterLiving") },
+            { value: "deceased", label: t("toolbar.filterDeceased") },
+          ],
+          (status) => update({ status: status as MemberFilter["status"] })
+        )}
+      </div>
+      <div className='space-y-2 mt-2'>
+        {renderYearRange(
+          "filter-birth-year",
+          t("forms.birthYear"),
+          filter.birthYear,
+          (birthYear) => update({ birthYear })
+        )}
+        {renderYearRange(
+          "filter-death-year",
+          t("forms.deathYear"),
+          filter.deathYear,
+          (deathYear) => update({ deathYear })
+        )}
+        <div className='space-y-1'>
+          <Label className='text-xs'>{t("toolbar.filterBirthplace")}</Label>
+          <Input
+            data-testid='filter-birthplace'
+            value={filter.birthplace}
+            onChange={(e) => update({ birthplace: e.target.value })}
+            className='h-8 text-xs'
+          />
+        </div>
+        <div className='space-y-1'>
+          <Label className='text-xs'>{t("forms.occupation")}</Label>
+          <Input
+            data-testid='filter-occupation'
+            value={filter.occupation}
+            onChange={(e) => update({ occupation: e.target.value })}
+            className='h-8 text-xs'
+          />
+        </div>
+        {renderChoice(
+          "filter-photo",
+          t("toolbar.filterPhoto"),
+          filter.hasImage === undefined ? undefined : String(filter.hasImage),
+          [
+            { value: "true", label: t("toolbar.filterWithPhoto") },
+            { value: "false", label: t("toolbar.filterWithoutPhoto") },
+          ],
+          (hasImage) =>
+            update({
+              hasImage: hasImage === undefined ? undefined : hasImage === "true",
+            })
+        )}
+      </div>
+
+      {isActive && (
+        <div className='mt-3 pt-3 border-t border-gray-200 dark:border-gray-600'>
+          <div className='flex items-center justify-between mb-2 text-xs'>
+            <span data-testid='member-filter-count'>
+              {t("toolbar.filterMatches")
+                .replace("{{count}}", String(matchIds.length))
+                .replace("{{total}}", String(Object.keys(members).length))}
+            </span>
+            <Badge variant='secondary'>{matchIds.length}</Badge>
+          </div>
+          {matchIds.length === 0 ? (
+            <p
+              className={`text-xs ${
+                isDarkMode ? "text-gray-400" : "text-gray-600"
+              }`}>
+              {t("toolbar.filterNoMatches")}
+            </p>
+          ) : (
+            <ul className='space-y-1 max-h-60 overflow-y-auto'>
+              {matchIds.map((id) => (
+                <li key={id}>
+                  <button
+                    data-testid='member-filter-match'
+                    onClick={() => onJumpToPerson(id)}
+                    className='flex w-full items-center justify-between gap-2 text-xs text-blue-600 dark:text-blue-400 hover:underline'>
+                    <span className='truncate'>{members[id].name}</span>
+                    <span
+                      className={
+                        isDarkMode ? "text-gray-400" : "text-gray-500"
+                      }>
+                      {formatLifeYears(members[id], t)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useMemo } from "react";
 import { Card } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -36,8 +36,21 @@ import {
   getSiblingIds,
 } from "../../lib/utils/relationshipHelpers";
 import { SmartSuggestionsEngine } from "../../lib/utils/SmartSuggestions";
+import {
+  calculateKinship,
+  getExtendedRelatives,
+  ExtendedRelative,
+} from "../../lib/utils/kinship";
 import { useTranslation } from "../../lib/i18n/useTranslation";
+import { formatFamilyDate } from "../../lib/utils/familyDate";
 import { toast } from "@/lib/utils/toast";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
 
 interface RelationshipManagerProps {
   selectedPerson: FamilyMember;
@@ -58,6 +71,7 @@ interface RelationshipManagerProps {
     action: "connect" | "disconnect" | "modify",
     relationshipType: "parent" | "spouse" | "child" | "sibling"
   ) => void;
+  onHighlightPath?: (path: string[] | null) => void;
   isDarkMode: boolean;
 }
 
@@ -68,12 +82,19 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
   onAddRelative,
   onConnectExisting,
   onModifyRelationship,
+  onHighlightPath,
   isDarkMode,
 }) => {
-  const { t } = useTranslation();
+  const { t, language } = useTranslation();
   const [activeTab, setActiveTab] = useState<
-    "quick-add" | "suggestions" | "extended" | "validation" | "modify"
+    | "quick-add"
+    | "suggestions"
+    | "extended"
+    | "compare"
+    | "validation"
+    | "modify"
   >("quick-add");
+  const [compareWithId, setCompareWithId] = useState<string | null>(null);
   const [editingRelationship, setEditingRelationship] = useState<{
     personId: string;
     type: "parent" | "spouse" | "child" | "sibling";
@@ -108,6 +129,11 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
     allData,
     relationships
   );
+  const extendedRelatives = getExtendedRelatives(
+    selectedPerson.id,
+    allData,
+    relationships
+  );
 
   // Load suggestions when selected person changes
   useEffect(() => {
@@ -122,6 +148,33 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
     setSuggestions([...newSuggestions, ...fixes]);
   }, [selectedPerson, allData]);
 
+  // Reset the comparison when another person is selected
+  useEffect(() => {
+    setCompareWithId(null);
+  }, [selectedPerson.id]);
+
+  const kinship = useMemo(
+    () =>
+      compareWithId
+        ? calculateKinship(
+            selectedPerson.id,
+            compareWithId,
+            allData,
+            relationships
+          )
+        : null,
+    [selectedPerson.id, compareWithId, allData, relationships]
+  );
+
+  // Highlight the connecting path on the tree while comparing
+  useEffect(() => {
+    onHighlightPath?.(activeTab === "compare" && kinship ? kinship.path : null);
+  }, [activeTab, kinship, onHighlightPath]);
+
+  useEffect(() => {
+    return () => onHighlightPath?.(null);
+  }, [onHighlightPath]);
+
   const quickAddActions = [
     // Only include Add Parent if less than 2 parents
     ...(parentIds.length < 2
@@ -164,6 +217,7 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
     spouses: spouseIds.length,
     children: childIds.length,
     siblings: siblingIds.length,
+    halfSiblings: extendedFamily.halfSiblings.length,
     grandparents: extendedFamily.grandparents.length,
     auntsUncles: extendedFamily.auntsUncles.length,
     cousins: extendedFamily.cousins.length,
@@ -212,49 +266,159 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
     </div>
   );
 
-  const renderExtendedFamilySection = () => (
-    <div className='space-y-4'>
-      <div className='grid grid-cols-1 gap-3'>
-        {Object.entries({
-          Grandparents: extendedFamily.grandparents,
-          "Aunts & Uncles": extendedFamily.auntsUncles,
-          Cousins: extendedFamily.cousins,
-          "Nieces & Nephews": extendedFamily.niecesNephews,
-          "In-Laws": extendedFamily.inLaws,
-          "Step-Siblings": extendedFamily.stepSiblings,
-        }).map(([label, members]) => (
-          <div
-            key={label}
-            className='p-3 bg-gray-100 dark:bg-gray-700 rounded-lg'>
-            <div className='flex items-center justify-between mb-2'>
-              <span className='font-medium text-sm'>{label}</span>
-              <Badge variant='outline'>{members.length}</Badge>
+  const renderExtendedFamilySection = () => {
+    // Grandparents, aunts, uncles and cousins are split by side, so the
+    // sections read "الأعمام والعمات" and "الأخوال والخالات" rather than one list
+    const termSections = (
+      lines: ExtendedRelative["line"][],
+      categoryKey: string
+    ) => {
+      const groups = new Map<string, ExtendedRelative[]>();
+      extendedRelatives
+        .filter((relative) => lines.includes(relative.line))
+        .forEach((relative) => {
+          const group = groups.get(relative.term.groupKey) ?? [];
+          group.push(relative);
+          groups.set(relative.term.groupKey, group);
+        });
+      if (groups.size === 0) {
+        return [{ key: categoryKey, relatives: [] as ExtendedRelative[] }];
+      }
+      return Array.from(groups, ([key, relatives]) => ({ key, relatives }));
+    };
+
+    const sections = [
+      ...termSections(["grandparent"], "grandparents"),
+      ...termSections(["auntUncle"], "auntsUncles"),
+      ...termSections(["cousin"], "cousins"),
+      ...termSections(["halfSibling"], "halfSiblings"),
+      ...termSections(["stepSibling"], "stepSiblings"),
+      ...termSections(["nieceNephew"], "niecesNephews"),
+      ...termSections(
+        ["parentInLaw", "spouseSibling", "siblingSpouse", "childSpouse"],
+        "inLaws"
+      ),
+    ];
+
+    return (
+      <div className='space-y-4'>
+        <div className='grid grid-cols-1 gap-3'>
+          {sections.map(({ key, relatives }) => (
+            <div
+              key={key}
+              data-testid={`extended-${key}`}
+              className='p-3 bg-gray-100 dark:bg-gray-700 rounded-lg'>
+              <div className='flex items-center justify-between mb-2'>
+                <span className='font-medium text-sm'>
+                  {t(`relationships.${key}`)}
+                </span>
+                <Badge variant='outline'>{relatives.length}</Badge>
+              </div>
+              {relatives.length > 0 ? (
+                <div className='space-y-1'>
+                  {relatives.slice(0, 3).map(({ member, term }) => (
+                    <div
+                      key={member.id}
+                      className='flex items-center gap-2 text-xs'>
+                      <User size={12} />
+                      <span>{member.name}</span>
+                      <span className='text-gray-500'>({formatFamilyDate(member.birth, { t, yearOnly: true })})</span>
+                      <Badge variant='secondary' className='text-xs'>
+                        {t(`relationships.${term.key}`)}
+                      </Badge>
+                    </div>
+                  ))}
+                  {relatives.length > 3 && (
+                    <div className='text-xs text-gray-500'>
+                      +{relatives.length - 3} {t('relationships.moreMembers')}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className='text-xs text-gray-500'>
+                  {t('relationships.noneFound')}
+                </div>
+              )}
             </div>
-            {members.length > 0 ? (
-              <div className='space-y-1'>
-                {members.slice(0, 3).map((member) => (
-                  <div
-                    key={member.id}
-                    className='flex items-center gap-2 text-xs'>
-                    <User size={12} />
-                    <span>{member.name}</span>
-                    <span className='text-gray-500'>({member.birth_year})</span>
-                  </div>
-                ))}
-                {members.length > 3 && (
-                  <div className='text-xs text-gray-500'>
-                    +{members.length - 3} more...
-                  </div>
-                )}
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderCompareSection = () => {
+    const otherMembers = Object.values(allData)
+      .filter((member) => member.id !== selectedPerson.id)
+      .sort((a, b) => a.name.localeCompare(b.name));
+    const other = compareWithId ? allData[compareWithId] : null;
+
+    return (
+      <div className='space-y-4'>
+        <div className='space-y-2'>
+          <label className='text-sm font-medium'>
+            {t('relationships.compareWith')}
+          </label>
+          <Select
+            value={compareWithId ?? ""}
+            onValueChange={(value) => setCompareWithId(value)}>
+            <SelectTrigger data-testid='compare-with-select'>
+              <SelectValue placeholder={t('relationships.selectPerson')} />
+            </SelectTrigger>
+            <SelectContent>
+              {otherMembers.map((member) => (
+                <SelectItem key={member.id} value={member.id}>
+                  {member.name} ({formatFamilyDate(member.birth, { t, yearOnly: true })})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {other && (
+          <Card
+            data-testid='kinship-result'
+            className='p-4 border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/20'>
+            {kinship ? (
+              <div className='space-y-2'>
+                <div className='text-sm'>
+                  {t('relationships.kinshipResult')
+                    .replace('{{other}}', other.name)
+                    .replace('{{person}}', selectedPerson.name)
+                    .replace(
+                      '{{relation}}',
+                      language === "ar" ? kinship.ar : kinship.en
+                    )}
+                </div>
+                <div className='flex flex-wrap gap-2'>
+                  <Badge variant='secondary'>{kinship.en}</Badge>
+                  <Badge variant='secondary' dir='rtl'>
+                    {kinship.ar}
+                  </Badge>
+                </div>
+                {kinship.commonAncestorId &&
+                  allData[kinship.commonAncestorId] && (
+                    <div className='text-xs text-gray-600 dark:text-gray-400'>
+                      {t('relationships.commonAncestor')}:{" "}
+                      {allData[kinship.commonAncestorId].name}
+                    </div>
+                  )}
+                <div className='text-xs text-gray-600 dark:text-gray-400'>
+                  {kinship.path
+                    .map((id) => allData[id]?.name ?? id)
+                    .join(" → ")}
+                </div>
               </div>
             ) : (
-              <div className='text-xs text-gray-500'>None found</div>
+              <div className='flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400'>
+                <Info size={14} />
+                {t('relationships.noKinshipFound')}
+              </div>
             )}
-          </div>
-        ))}
+          </Card>
+        )}
       </div>
-    </div>
-  );
+    );
+  };
 
   const renderValidationSection = () => {
     const validations: Array<{
@@ -292,11 +456,11 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
     });
 
     // Check for potential duplicates
-    const duplicates = detectDuplicates(selectedPerson, allData);
+    const duplicates = detectDuplicates(selectedPerson, allData, relationships);
     if (duplicates.length > 0) {
       validations.push({
         type: "warning",
-        message: `Potential duplicate: ${duplicates[0].name} (${duplicates[0].birth_year})`,
+        message: `Potential duplicate: ${duplicates[0].name} (${formatFamilyDate(duplicates[0].birth, { t, yearOnly: true })})`,
         icon: <Info size={16} />,
       });
     }
@@ -371,7 +535,7 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
                             {person.name}
                           </span>
                           <span className='text-xs text-gray-500 ml-2'>
-                            ({person.birth_year})
+                            ({formatFamilyDate(person.birth, { t, yearOnly: true })})
                           </span>
                         </div>
                       </div>
@@ -768,6 +932,11 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
             icon: <Sparkles size={14} />,
           },
           { id: "extended", label: "Extended", icon: <Users size={14} /> },
+          {
+            id: "compare",
+            label: t('relationships.compare'),
+            icon: <ArrowRightLeft size={14} />,
+          },
           { id: "modify", label: "Modify", icon: <Settings size={14} /> },
           {
             id: "validation",
@@ -794,6 +963,7 @@ export const RelationshipManager: React.FC<RelationshipManagerProps> = ({
         {activeTab === "quick-add" && renderQuickAddSection()}
         {activeTab === "suggestions" && renderSuggestionsSection()}
         {activeTab === "extended" && renderExtendedFamilySection()}
+        {activeTab === "compare" && renderCompareSection()}
         {activeTab === "modify" && renderModifySection()}
         {activeTab === "validation" && renderValidationSection()}
       </div>
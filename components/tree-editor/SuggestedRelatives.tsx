@@ -16,6 +16,9 @@ import {
 } from 'lucide-react';
 import { FamilyMember, SmartSuggestion } from '../../lib/types';
 import { SmartSuggestionsEngine } from '../../lib/utils/SmartSuggestions';
+import { resolveKinshipTerm } from '../../lib/utils/kinship';
+import { formatFamilyDate } from '../../lib/utils/familyDate';
+import { useTranslation } from '../../lib/i18n/useTranslation';
 
 interface SuggestedRelativesProps {
   selectedPerson: FamilyMember;
@@ -34,6 +37,7 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
   isDarkMode,
   onClose
 }) => {
+  const { t } = useTranslation();
   const [suggestions, setSuggestions] = useState<SmartSuggestion[]>([]);
   const [activeCategory, setActiveCategory] = useState<'all' | 'high' | 'medium' | 'low'>('all');
 
@@ -96,7 +100,7 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
           <div className="flex items-center space-x-2">
             <Sparkles className="w-5 h-5 text-yellow-500" />
             <h3 className={`font-semibold ${isDarkMode ? 'text-white' : 'text-gray-900'}`}>
-              Suggested Relatives
+              {t('relationships.suggestedRelatives')}
             </h3>
           </div>
           {onClose && (
@@ -110,8 +114,8 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
         <div className={`p-3 rounded-lg mb-4 ${isDarkMode ? 'bg-gray-800' : 'bg-gray-50'}`}>
           <p className="text-sm font-medium">{selectedPerson.name}</p>
           <p className="text-xs text-gray-500">
-            Born {selectedPerson.birth_year}
-            {selectedPerson.death_year && ` - Died ${selectedPerson.death_year}`}
+            Born {formatFamilyDate(selectedPerson.birth)}
+            {selectedPerson.death && ` - Died ${formatFamilyDate(selectedPerson.death)}`}
           </p>
         </div>
 
@@ -128,7 +132,7 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
               }`}
             >
               {category !== 'all' && getPriorityIcon(category)}
-              <span className="capitalize">{category}</span>
+              <span className="capitalize">{t(`relationships.${category}`)}</span>
               <Badge variant="secondary" className="ml-1 text-xs">
                 {suggestionCounts[category]}
               </Badge>
@@ -141,8 +145,8 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
           {filteredSuggestions.length === 0 ? (
             <div className="text-center py-6 text-gray-500">
               <Sparkles className="w-8 h-8 mx-auto mb-2 opacity-50" />
-              <p className="text-sm">No suggestions for this category</p>
-              <p className="text-xs">Family tree looks complete!</p>
+              <p className="text-sm">{t('relationships.noSuggestionsCategory')}</p>
+              <p className="text-xs">{t('relationships.treeLooksComplete')}</p>
             </div>
           ) : (
             filteredSuggestions.map((suggestion) => (
@@ -176,7 +180,7 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
                                   suggestion.priority === 'medium' ? 'default' : 'secondary'}
                           className="text-xs"
                         >
-                          {suggestion.priority}
+                          {t(`relationships.${suggestion.priority}`)}
                         </Badge>
                         <span className="text-xs text-gray-500">{suggestion.reason}</span>
                       </div>
@@ -192,12 +196,12 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
                   >
                     {suggestion.suggestedPersonId ? (
                       <>
-                        <span className="mr-1">Connect</span>
+                        <span className="mr-1">{t('relationships.connectExisting')}</span>
                         <ChevronRight className="w-3 h-3" />
                       </>
                     ) : (
                       <>
-                        <span className="mr-1">Add</span>
+                        <span className="mr-1">{t('relationships.addNew')}</span>
                         <UserPlus className="w-3 h-3" />
                       </>
                     )}
@@ -212,11 +216,20 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
                     suggestion.type === 'child' ? 'border-green-400 bg-green-50 dark:bg-green-900/20' :
                     'border-purple-400 bg-purple-50 dark:bg-purple-900/20'
                   }`}>
-                    <p className="text-sm font-medium">
-                      {allData[suggestion.suggestedPersonId]?.name}
-                    </p>
+                    <div className="flex items-center justify-between">
+                      <p className="text-sm font-medium">
+                        {allData[suggestion.suggestedPersonId]?.name}
+                      </p>
+                      {allData[suggestion.suggestedPersonId] && (
+                        <Badge variant="outline" className="text-xs">
+                          {t(`relationships.${resolveKinshipTerm(suggestion.type, [
+                            allData[suggestion.suggestedPersonId],
+                          ]).key}`)}
+                        </Badge>
+                      )}
+                    </div>
                     <p className="text-xs text-gray-600 dark:text-gray-400">
-                      Born {allData[suggestion.suggestedPersonId]?.birth_year}
+                      Born {formatFamilyDate(allData[suggestion.suggestedPersonId]?.birth)}
                     </p>
                   </div>
                 )}
@@ -229,8 +242,12 @@ export const SuggestedRelatives: React.FC<SuggestedRelativesProps> = ({
         {suggestions.length > 0 && (
           <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-600">
             <div className="flex items-center justify-between text-xs text-gray-500">
-              <span>{suggestions.length} suggestions found</span>
-              <span>{suggestions.filter(s => s.priority === 'high').length} high priority</span>
+              <span>
+                {t('relationships.suggestionsFound').replace('{{count}}', String(suggestions.length))}
+              </span>
+              <span>
+                {t('relationships.highPriorityCount').replace('{{count}}', String(suggestionCounts.high))}
+              </span>
             </div>
           </div>
         )}
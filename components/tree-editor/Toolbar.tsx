@@ -1,4 +1,4 @@
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useTreeStore } from "../../hooks/useTreeStore";
 import { useTranslation } from "../../lib/i18n/useTranslation";
 import { Button } from "@/components/ui/button";
@@ -7,6 +7,18 @@ import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { exportTreeSvg } from "@/lib/utils/treeExport";
+import { exportGedcom } from "@/lib/utils/gedcomExport";
+import { exportMembersCsv } from "@/lib/utils/csvExport";
+import { toast } from "@/lib/utils/toast";
+import { countGenerations, getTreeGenerations } from "@/lib/utils/generations";
+import { MAX_HOURGLASS_DEPTH } from "@/lib/utils/hourglass";
+import { LINEAGE_MODES } from "@/lib/utils/lineage";
+import {
+  CALENDAR_DISPLAYS,
+  CALENDAR_DISPLAY_KEYS,
+} from "@/lib/utils/familyDate";
+import { NAME_DISPLAYS, NAME_DISPLAY_KEYS } from "@/lib/utils/arabicName";
+import { LINEAGE_MODE_KEYS } from "@/components/tree/LineageFilterBadge";
 import {
   Undo,
   Redo,
@@ -19,15 +31,30 @@ import {
   Eye,
   EyeOff,
   Settings,
+  Trash2,
+  ArrowDown,
+  ArrowUp,
+  ArrowRight,
+  ArrowLeft,
+  ChevronsDownUp,
+  ChevronsUpDown,
+  GitMerge,
 } from "lucide-react";
+import { LayoutDirection } from "@/lib/types";
 
 interface ToolbarProps {
   isDarkMode: boolean;
   onSave: () => void;
   onLoad: () => void;
+  onLoadAndMerge?: () => void;
   onExport?: () => void; // Keep for backward compatibility
   onExportPNG?: () => void;
   onExportPDF?: () => void;
+  onExportGEDCOM?: () => void;
+  onDiscardDraft?: () => void;
+  // Autosave is off because the restore prompt was closed without a choice
+  isAutosavePaused?: boolean;
+  onResumeAutosave?: () => void;
   onUndo: () => void;
   onRedo: () => void;
   canUndo: boolean;
@@ -39,13 +66,45 @@ interface ToolbarProps {
   className?: string;
 }
 
+const DIRECTION_OPTIONS: {
+  direction: LayoutDirection;
+  icon: typeof ArrowDown;
+  labelKey: string;
+}[] = [
+  {
+    direction: "top-to-bottom",
+    icon: ArrowDown,
+    labelKey: "toolbar.topToBottom",
+  },
+  {
+    direction: "bottom-to-top",
+    icon: ArrowUp,
+    labelKey: "toolbar.bottomToTop",
+  },
+  {
+    direction: "left-to-right",
+    icon: ArrowRight,
+    labelKey: "toolbar.leftToRight",
+  },
+  {
+    direction: "right-to-left",
+    icon: ArrowLeft,
+    labelKey: "toolbar.rightToLeft",
+  },
+];
+
 export function Toolbar({
   isDarkMode = false,
   onSave,
   onLoad,
+  onLoadAndMerge,
   onExport,
   onExportPNG,
   onExportPDF,
+  onExportGEDCOM,
+  onDiscardDraft,
+  isAutosavePaused = false,
+  onResumeAutosave,
   onUndo,
   onRedo,
   canUndo,
@@ -58,6 +117,9 @@ export function Toolbar({
 }: ToolbarProps) {
   const { t } = useTranslation();
   const {
+    data,
+    relationships,
+    founderId,
     horizontalSpacing,
     verticalSpacing,
     showSpouses,
@@ -68,6 +130,8 @@ export function Toolbar({
     linkColor,
     lineShape,
     showLabels,
+    calendarDisplay,
+    nameDisplay,
     setHorizontalSpacing,
     setVerticalSpacing,
     setShowSpouses,
@@ -78,9 +142,38 @@ export function Toolbar({
     setLinkColor,
     setLineShape,
     setShowLabel,
+    setCalendarDisplay,
+    setNameDisplay,
     focusNodeId,
     setFocusNode,
+    viewMode,
+    setViewMode,
+    hourglassDepth,
+    setHourglassDepth,
+    layoutDirection,
+    setLayoutDirection,
+    collapsed,
+    collapseToGeneration,
+    expandAllBranches,
+    mainId,
+    lineageFilter,
+    setLineageFilter,
   } = useTreeStore();
+  // Number of generations from the founder, for the collapse slider
+  const generationTotal = useMemo(
+    () =>
+      Math.max(
+        1,
+        countGenerations(
+          getTreeGenerations(data, relationships, founderId, mainId)
+        )
+      ),
+    [data, relationships, founderId, mainId]
+  );
+  const [generationCount, setGenerationCount] = useState(2);
+  const visibleGenerations = Math.min(generationCount, generationTotal);
+  const hasCollapsedBranches =
+    collapsed.descendants.length > 0 || collapsed.ancestors.length > 0;
   // Handle keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -186,6 +279,36 @@ export function Toolbar({
     }
   };
 
+  const handleExportGEDCOM = () => {
+    try {
+      if (onExportGEDCOM) {
+        onExportGEDCOM();
+      } else {
+        exportGedcom(data, relationships, `tree-editor-${Date.now()}`);
+        toast.success(t('messages.dataExported'));
+      }
+    } catch (error) {
+      console.error("GEDCOM export failed:", error);
+      toast.error(t('messages.exportError'));
+    }
+  };
+
+  const handleExportCSV = () => {
+    try {
+      exportMembersCsv(
+        data,
+        relationships,
+        founderId,
+        mainId,
+        `tree-editor-${Date.now()}`
+      );
+      toast.success(t('messages.dataExported'));
+    } catch (error) {
+      console.error("CSV export failed:", error);
+      toast.error(t('messages.exportError'));
+    }
+  };
+
   return (
     <Card
       className={`
@@ -258,6 +381,92 @@ export function Toolbar({
             <RotateCcw className='w-4 h-4' />
           </Button>
         </div>
+        <div className='grid grid-cols-2 gap-1'>
+          {(["full", "focus", "fan", "hourglass"] as const).map((mode) => (
+            <Button
+              key={mode}
+              data-testid={`view-mode-${mode}`}
+              variant={viewMode === mode ? "default" : "outline"}
+              size='sm'
+              className='text-xs px-1'
+              onClick={() => setViewMode(mode)}>
+              {t(`toolbar.${mode}ViewShort`)}
+            </Button>
+          ))}
+        </div>
+        <div className='space-y-2 pt-1'>
+          <Label
+            className={`text-xs ${
+              isDarkMode ? "text-gray-400" : "text-gray-600"
+            }`}>
+            {t("toolbar.collapseToGeneration")}: {visibleGenerations}
+          </Label>
+          <Slider
+            data-testid='collapse-generation-slider'
+            value={[visibleGenerations]}
+            onValueChange={(value) => setGenerationCount(value[0])}
+            min={1}
+            max={generationTotal}
+            step={1}
+            className='w-full'
+          />
+          <div className='grid grid-cols-2 gap-1'>
+            <Button
+              data-testid='collapse-to-generation'
+              variant='outline'
+              size='sm'
+              className='text-xs px-1'
+              onClick={() => collapseToGeneration(visibleGenerations)}>
+              <ChevronsDownUp className='w-3 h-3 mr-1' />
+              {t("toolbar.collapse")}
+            </Button>
+            <Button
+              data-testid='expand-all-branches'
+              variant='outline'
+              size='sm'
+              className='text-xs px-1'
+              disabled={!hasCollapsedBranches}
+              onClick={expandAllBranches}>
+              <ChevronsUpDown className='w-3 h-3 mr-1' />
+              {t("toolbar.expandAll")}
+            </Button>
+          </div>
+        </div>
+        <div className='space-y-2 pt-1'>
+          <Label
+            className={`text-xs ${
+              isDarkMode ? "text-gray-400" : "text-gray-600"
+            }`}>
+            {t("toolbar.lineage")}
+          </Label>
+          <div className='grid grid-cols-2 gap-1'>
+            <Button
+              data-testid='lineage-all'
+              variant={lineageFilter ? "outline" : "default"}
+              size='sm'
+              className='text-xs px-1'
+              onClick={() => setLineageFilter(null)}>
+              {t("toolbar.lineageAll")}
+            </Button>
+            {LINEAGE_MODES.map((mode) => (
+              <Button
+                key={mode}
+                data-testid={`lineage-${mode}`}
+                variant={lineageFilter?.mode === mode ? "default" : "outline"}
+                size='sm'
+                className='text-xs px-1'
+                disabled={!focusNodeId && !mainId}
+                onClick={() =>
+                  setLineageFilter({ mode, rootId: focusNodeId || mainId })
+                }>
+                {t(LINEAGE_MODE_KEYS[mode])}
+              </Button>
+            ))}
+          </div>
+          <p className='text-xs text-gray-500'>
+            {t("toolbar.lineageRootHint")}
+          </p>
+        </div>
       </div>
 
       {/* Layout Controls */}
@@ -269,6 +478,28 @@ export function Toolbar({
           {t("toolbar.layout")}
         </Label>
 
+        <div className='space-y-2'>
+          <Label
+            className={`text-xs ${
+              isDarkMode ? "text-gray-400" : "text-gray-600"
+            }`}>
+            {t("toolbar.layoutDirection")}
+          </Label>
+          <div className='grid grid-cols-4 gap-1'>
+            {DIRECTION_OPTIONS.map(({ direction, icon: Icon, labelKey }) => (
+              <Button
+                key={direction}
+                data-testid={`layout-direction-${direction}`}
+                variant={layoutDirection === direction ? "default" : "outline"}
+                size='sm'
+                onClick={() => setLayoutDirection(direction)}
+                title={t(labelKey)}>
+                <Icon className='w-4 h-4' />
+              </Button>
+            ))}
+          </div>
+        </div>
+
         <div className='space-y-2'>
           <Label
             className={`text-xs ${
@@ -303,6 +534,45 @@ export function Toolbar({
           />
         </div>
 
+        {/* Hourglass depth */}
+        <div className='space-y-2'>
+          <Label
+            className={`text-xs ${
+              isDarkMode ? "text-gray-400" : "text-gray-600"
+            }`}>
+            {t("toolbar.ancestorGenerations")}: {hourglassDepth.ancestors}
+          </Label>
+          <Slider
+            data-testid='hourglass-ancestors-slider'
+            value={[hourglassDepth.ancestors]}
+            onValueChange={(value) => setHourglassDepth({ ancestors: value[0] })}
+            min={0}
+            max={MAX_HOURGLASS_DEPTH}
+            step={1}
+            className='w-full'
+          />
+        </div>
+
+        <div className='space-y-2'>
+          <Label
+            className={`text-xs ${
+              isDarkMode ? "text-gray-400" : "text-gray-600"
+            }`}>
+            {t("toolbar.descendantGenerations")}: {hourglassDepth.descendants}
+          </Label>
+          <Slider
+            data-testid='hourglass-descendants-slider'
+            value={[hourglassDepth.descendants]}
+            onValueChange={(value) =>
+              setHourglassDepth({ descendants: value[0] })
+            }
+            min={0}
+            max={MAX_HOURGLASS_DEPTH}
+            step={1}
+            className='w-full'
+          />
+        </div>
+
         {/* Card Dimensions */}
         <div className='space-y-2'>
           <Label
@@ -457,6 +727,67 @@ export function Toolbar({
                 }
               />
             </div>
+            <div className='flex items-center justify-between'>
+              <Label
+                className={`text-xs ${
+                  isDarkMode ? "text-gray-500" : "text-gray-500"
+                }`}>
+                {t("toolbar.showGeneration")}
+              </Label>
+              <Switch
+                data-testid='show-generation-toggle'
+                checked={showLabels.generation}
+                onCheckedChange={(checked) =>
+                  setShowLabel("generation", checked)
+                }
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Calendar */}
+        <div className='space-y-2 pt-3 border-t border-gray-200 dark:border-gray-600'>
+          <Label
+            className={`text-xs ${
+              isDarkMode ? "text-gray-400" : "text-gray-600"
+            }`}>
+            {t("toolbar.calendar")}
+          </Label>
+          <div className='grid grid-cols-3 gap-1'>
+            {CALENDAR_DISPLAYS.map((calendar) => (
+              <Button
+                key={calendar}
+                data-testid={`calendar-display-${calendar}`}
+                variant={calendarDisplay === calendar ? "default" : "outline"}
+                size='sm'
+                className='text-xs px-1'
+                onClick={() => setCalendarDisplay(calendar)}>
+                {t(CALENDAR_DISPLAY_KEYS[calendar])}
+              </Button>
+            ))}
+          </div>
+        </div>
+
+        {/* Name Display */}
+        <div className='space-y-2 pt-3 border-t border-gray-200 dark:border-gray-600'>
+          <Label
+            className={`text-xs ${
+              isDarkMode ? "text-gray-400" : "text-gray-600"
+            }`}>
+            {t("toolbar.nameDisplay")}
+          </Label>
+          <div className='grid grid-cols-3 gap-1'>
+            {NAME_DISPLAYS.map((display) => (
+              <Button
+                key={display}
+                data-testid={`name-display-${display}`}
+                variant={nameDisplay === display ? "default" : "outline"}
+                size='sm'
+                className='text-xs px-1'
+                onClick={() => setNameDisplay(display)}>
+                {t(NAME_DISPLAY_KEYS[display])}
+              </Button>
+            ))}
           </div>
         </div>
 
@@ -506,6 +837,18 @@ export function Toolbar({
             <Upload className='w-4 h-4 mr-1' />
             تحميل
           </Button>
+          {onLoadAndMerge && (
+            <Button
+              data-testid='import-merge-btn'
+              variant='outline'
+              size='sm'
+              onClick={onLoadAndMerge}
+              title={t("toolbar.importMergeTooltip")}
+              className='col-span-2'>
+              <GitMerge className='w-4 h-4 mr-1' />
+              {t("toolbar.importMerge")}
+            </Button>
+          )}
           <Button
             data-testid='export-btn'
             variant='outline'
@@ -536,6 +879,50 @@ export function Toolbar({
             <Download className='w-4 h-4 mr-1' />
             PDF
           </Button>
+          <Button
+            data-testid='export-gedcom-btn'
+            variant='outline'
+            size='sm'
+            onClick={handleExportGEDCOM}
+            title='تصدير GEDCOM'
+            className='col-span-1'>
+            <Download className='w-4 h-4 mr-1' />
+            GEDCOM
+          </Button>
+          <Button
+            data-testid='export-csv-btn'
+            variant='outline'
+            size='sm'
+            onClick={handleExportCSV}
+            title={t("toolbar.exportCsv")}
+            className='col-span-1'>
+            <Download className='w-4 h-4 mr-1' />
+            CSV
+          </Button>
+          {isAutosavePaused && onResumeAutosave && (
+            <Button
+              data-testid='resume-autosave-btn'
+              variant='outline'
+              size='sm'
+              onClick={onResumeAutosave}
+              title={t("toolbar.resumeAutosaveTooltip")}
+              className='col-span-2 border-yellow-500 text-yellow-700 dark:text-yellow-400'>
+              <Save className='w-4 h-4 mr-1' />
+              {t("toolbar.resumeAutosave")}
+            </Button>
+          )}
+          {onDiscardDraft && (
+            <Button
+              data-testid='discard-draft-btn'
+              variant='outline'
+              size='sm'
+              onClick={onDiscardDraft}
+              title={t("toolbar.discardDraftTooltip")}
+              className='col-span-2'>
+              <Trash2 className='w-4 h-4 mr-1' />
+              {t("toolbar.discardDraft")}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,180 @@
+/**
+ * @file Header control for picking, creating and managing named trees.
+ */
+import React, { useState } from "react";
+import { useTreeLibrary } from "../../hooks/useTreeLibrary";
+import { useTranslation } from "../../lib/i18n/useTranslation";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { DeleteConfirmationDialog } from "@/components/ui/confirmation-dialog";
+import { Check, Copy, Pencil, Plus, Trash2, X } from "lucide-react";
+import { toast } from "@/lib/utils/toast";
+
+interface TreeLibraryPickerProps {
+  isDarkMode?: boolean;
+  /** Called after the active tree changed, so the page can clear its selection */
+  onTreeChange?: () => void;
+}
+
+type EditMode = { kind: "create" } | { kind: "rename"; id: string } | null;
+
+export function TreeLibraryPicker({
+  isDarkMode = false,
+  onTreeChange,
+}: TreeLibraryPickerProps) {
+  const { t } = useTranslation();
+  const {
+    trees,
+    activeTreeId,
+    activeTree,
+    createTree,
+    renameTree,
+    duplicateTree,
+    deleteTree,
+    switchTree,
+  } = useTreeLibrary();
+  const [editMode, setEditMode] = useState<EditMode>(null);
+  const [nameInput, setNameInput] = useState("");
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+
+  const displayName = (name: string) => name || t("toolbar.untitledTree");
+
+  const handleSwitch = (id: string) => {
+    switchTree(id);
+    onTreeChange?.();
+  };
+
+  const startEdit = (mode: NonNullable<EditMode>) => {
+    setEditMode(mode);
+    setNameInput(mode.kind === "rename" ? activeTree?.name ?? "" : "");
+  };
+
+  const handleConfirmEdit = () => {
+    const name = nameInput.trim();
+    if (!name || !editMode) return;
+    if (editMode.kind === "create") {
+      createTree(name);
+      onTreeChange?.();
+      toast.success(t("messages.treeCreated").replace("{{name}}", name));
+    } else {
+      renameTree(editMode.id, name);
+    }
+    setEditMode(null);
+  };
+
+  const handleDuplicate = () => {
+    if (!activeTree) return;
+    const name = `${displayName(activeTree.name)} ${t("toolbar.copySuffix")}`;
+    duplicateTree(activeTree.id, name);
+    toast.success(t("messages.treeDuplicated").replace("{{name}}", name));
+  };
+
+  const handleDelete = () => {
+    if (!activeTree) return;
+    if (deleteTree(activeTree.id)) {
+      onTreeChange?.();
+      toast.success(
+        t("messages.treeDeleted").replace("{{name}}", displayName(activeTree.name))
+      );
+    }
+  };
+
+  if (editMode) {
+    return (
+      <div className='flex items-center gap-1'>
+        <Input
+          data-testid='tree-name-input'
+          autoFocus
+          value={nameInput}
+          placeholder={t("toolbar.treeName")}
+          onChange={(e) => setNameInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") handleConfirmEdit();
+            if (e.key === "Escape") setEditMode(null);
+          }}
+          className='h-9 w-48'
+        />
+        <Button
+          variant='outline'
+          size='icon'
+          onClick={handleConfirmEdit}
+          disabled={!nameInput.trim()}
+          title={t("common.save")}>
+          <Check className='w-4 h-4' />
+        </Button>
+        <Button
+          variant='outline'
+          size='icon'
+          onClick={() => setEditMode(null)}
+          title={t("common.cancel")}>
+          <X className='w-4 h-4' />
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className='flex items-center gap-1'>
+      <Select value={activeTreeId} onValueChange={handleSwitch}>
+        <SelectTrigger data-testid='tree-picker' className='h-9 w-48'>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {trees.map((tree) => (
+            <SelectItem key={tree.id} value={tree.id}>
+              {displayName(tree.name)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <Button
+        data-testid='new-tree-btn'
+        variant='outline'
+        size='icon'
+        onClick={() => startEdit({ kind: "create" })}
+        title={t("toolbar.newTree")}>
+        <Plus className='w-4 h-4' />
+      </Button>
+      <Button
+        variant='outline'
+        size='icon'
+        onClick={() => startEdit({ kind: "rename", id: activeTreeId })}
+        title={t("toolbar.renameTree")}>
+        <Pencil className='w-4 h-4' />
+      </Button>
+      <Button
+        variant='outline'
+        size='icon'
+        onClick={handleDuplicate}
+        title={t("toolbar.duplicateTree")}>
+        <Copy className='w-4 h-4' />
+      </Button>
+      <Button
+        variant='outline'
+        size='icon'
+        onClick={() => setIsDeleteOpen(true)}
+        disabled={trees.length <= 1}
+        title={t("toolbar.deleteTree")}>
+        <Trash2 className='w-4 h-4' />
+      </Button>
+
+      <DeleteConfirmationDialog
+        open={isDeleteOpen}
+        onOpenChange={setIsDeleteOpen}
+        description={t("messages.treeDeleteConfirmation").replace(
+          "{{name}}",
+          displayName(activeTree?.name ?? "")
+        )}
+        onConfirm={handleDelete}
+        isDarkMode={isDarkMode}
+      />
+    </div>
+  );
+}
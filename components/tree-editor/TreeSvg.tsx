@@ -1,7 +1,9 @@
 import React, { useRef, forwardRef, useImperativeHandle } from "react";
 import { useTreeStore } from "../../hooks/useTreeStore";
 import { BaseTree, BaseTreeSettings } from "@/components/tree/BaseTree";
+import { FanChart } from "@/components/tree/FanChart";
 import { TreeNodeData } from "../../lib/types";
+import { getOrientation } from "@/lib/utils/layoutDirection";
 
 // You may want to define or import your default settings
 const defaultSettings: BaseTreeSettings = {
@@ -14,7 +16,7 @@ const defaultSettings: BaseTreeSettings = {
   femaleColor: "hsl(var(--female-color))",
   linkColor: "hsl(var(--link-color))",
   orientation: "vertical",
-  direction: "bottom-to-top",
+  direction: "top-to-bottom",
   showLabels: {
     name: true,
     birthYear: true,
@@ -78,11 +80,16 @@ export const TreeSvg = forwardRef<any, TreeSvgProps>(
       femaleColor,
       linkColor,
       lineShape,
+      layoutDirection,
       showLabels,
+      calendarDisplay,
+      nameDisplay,
       showSpouses,
       relationships,
       focusPersonId,
       setFocusPerson,
+      viewMode,
+      toggleCollapsedBranch,
     } = useTreeStore();
     const baseTreeRef = useRef<any>(null);
 
@@ -97,7 +104,11 @@ export const TreeSvg = forwardRef<any, TreeSvgProps>(
       femaleColor,
       linkColor,
       lineShape,
+      orientation: getOrientation(layoutDirection),
+      direction: layoutDirection,
       showLabels,
+      calendarDisplay,
+      nameDisplay,
       // Optionally include showSpouses if BaseTreeSettings supports it
       // showSpouses,
     };
@@ -109,6 +120,23 @@ export const TreeSvg = forwardRef<any, TreeSvgProps>(
       onResetView: () => baseTreeRef.current?.onResetView?.(),
     }));
 
+    if (viewMode === "fan") {
+      return (
+        <div className={`w-full h-full ${className}`}>
+          <FanChart
+            ref={baseTreeRef}
+            tree={tree}
+            settings={dynamicSettings}
+            isDarkMode={isDarkMode}
+            onNodeClick={onNodeClick}
+            selectedNodeId={focusPersonId || mainId}
+            className='w-full h-full'
+            {...rest}
+          />
+        </div>
+      );
+    }
+
     return (
       <div className={`w-full h-full ${className}`}>
         <BaseTree
@@ -125,6 +153,7 @@ export const TreeSvg = forwardRef<any, TreeSvgProps>(
           onModifyRelationship={onModifyRelationship}
           selectedNodeId={focusPersonId || mainId}
           setFocusPerson={setFocusPerson}
+          onToggleBranch={toggleCollapsedBranch}
           relationships={relationships}
           className='w-full h-full'
           {...rest}
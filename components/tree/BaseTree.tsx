@@ -5,6 +5,7 @@
 import React, {
   useRef,
   useEffect,
+  useMemo,
   useState,
   forwardRef,
   useImperativeHandle,
@@ -17,8 +18,14 @@ import {
   TreeNodeData,
   FamilyMember,
   RelationshipConnection,
+  LayoutDirection,
+  CalendarDisplay,
+  NameDisplay,
 } from "@/lib/types";
 import { SmartSuggestionsEngine } from "@/lib/utils/SmartSuggestions";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { formatLifeYears } from "@/lib/utils/familyDate";
+import { getDisplayNames } from "@/lib/utils/arabicName";
 import { InteractiveLink } from "@/components/tree-editor/InteractiveLink";
 import { PlaceholderNode } from "@/components/tree-editor/PlaceholderNode";
 import {
@@ -42,20 +49,21 @@ export interface BaseTreeSettings {
   femaleColor: string;
   linkColor: string;
   orientation: "horizontal" | "vertical";
-  direction:
-    | "bottom-to-top"
-    | "top-to-bottom"
-    | "left-to-right"
-    | "right-to-left";
+  direction: LayoutDirection;
   showLabels: {
     name: boolean;
     birthYear: boolean;
     deathYear: boolean;
     spouse: boolean;
     genderIcon: boolean;
+    generation?: boolean;
   };
   lineShape: "straight" | "curved";
   lineLength: number;
+  // Calendar dates on the cards are shown in; Gregorian when not set
+  calendarDisplay?: CalendarDisplay;
+  // How names are shown on the cards; as entered when not set
+  nameDisplay?: NameDisplay;
   isFullScreen?: boolean;
 }
 
@@ -101,6 +109,14 @@ export interface BaseTreeProps {
   showMiniTreeOnClick?: boolean;
   selectedNodeId?: string;
   setFocusPerson?: (personId: string) => void;
+  /** Member ids, in order, whose cards and connecting links are highlighted */
+  highlightedPath?: string[] | null;
+  /** Member centred in view and highlighted, such as a search result */
+  spotlightNodeId?: string | null;
+  /** Members matching the member filter; everyone else is dimmed */
+  filterMatchIds?: string[] | null;
+  /** Folds or unfolds a person's branch; cards show toggles when set */
+  onToggleBranch?: (personId: string, branch: "descendants" | "ancestors") => void;
 }
 
 /**
@@ -135,12 +151,82 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
       showMiniTreeOnClick = false,
       selectedNodeId,
       setFocusPerson,
+      highlightedPath,
+      spotlightNodeId,
+      filterMatchIds,
+      onToggleBranch,
     },
     ref
   ) => {
+    const { t } = useTranslation();
     const svgRef = useRef<SVGSVGElement>(null);
     const htmlLayerRef = useRef<HTMLDivElement>(null);
     const links = useLinks(tree, data, settings, relationships);
+
+    // Cards and links along the highlighted path
+    const highlightedIds = new Set(highlightedPath ?? []);
+    if (spotlightNodeId) highlightedIds.add(spotlightNodeId);
+    const filterMatches = filterMatchIds ? new Set(filterMatchIds) : null;
+    filterMatches?.forEach((id) => highlightedIds.add(id));
+    const isDimmed = (id: string) => !!filterMatches && !filterMatches.has(id);
+    const highlightedPairs = new Set(
+      (highlightedPath ?? []).slice(1).flatMap((id, i) => {
+        const previous = highlightedPath![i];
+        return [`${previous}|${id}`, `${id}|${previous}`];
+      })
+    );
+    const isLinkHighlighted = (link: { personIds?: string[] }) =>
+      !!link.personIds &&
+      link.personIds.length >= 2 &&
+      highlightedPairs.has(`${link.personIds[0]}|${link.personIds[1]}`);
+
+    // Names on the cards in the chosen display mode (nasab, kunya)
+    const displayNames = useMemo(
+      () => getDisplayNames(data, relationships, settings.nameDisplay ?? "short"),
+      [data, relationships, settings.nameDisplay]
+    );
+
+    // People with a branch that can be folded away
+    const peopleWithChildren = new Set(
+      relationships.filter((rel) => rel.type === "parent").map((rel) => rel.fromId)
+    );
+    const peopleWithParents = new Set(
+      relationships.filter((rel) => rel.type === "parent").map((rel) => rel.toId)
+    );
+    const descendantSide = ({
+      "top-to-bottom": "bottom",
+      "bottom-to-top": "top",
+      "left-to-right": "right",
+      "right-to-left": "left",
+    } as const)[settings.direction];
+
+    // Generation guides: one band per generation, at the row (or column) most
+    // of its cards sit on
+    const isHorizontal = settings.orientation === "horizontal";
+    const generationRows: { generation: number; position: number }[] = [];
+    const crossPositions: number[] = [];
+    if (settings.showLabels.generation) {
+      const positions = new Map<number, number[]>();
+      tree.forEach((node) => {
+        if (node.generation === undefined || node.isPlaceholder) return;
+        const list = positions.get(node.generation) ?? [];
+        list.push(isHorizontal ? node.x : node.y);
+        positions.set(node.generation, list);
+        crossPositions.push(isHorizontal ? node.y : node.x);
+      });
+      positions.forEach((list, generation) => {
+        const sorted = [...list].sort((a, b) => a - b);
+        generationRows.push({
+          generation,
+          position: sorted[Math.floor(sorted.length / 2)],
+        });
+      });
+    }
+    const crossSize = isHorizontal ? settings.cardHeight : settings.cardWidth;
+    const rowSize = isHorizontal ? settings.cardWidth : settings.cardHeight;
+    const crossStart = Math.min(...crossPositions) - crossSize * 1.5;
+    const crossEnd = Math.max(...crossPositions) + crossSize;
+
     const [zoom, setZoom] = useState(1);
     const [miniTreeData, setMiniTreeData] = useState<any | null>(null);
     const [selectedLink, setSelectedLink] = useState<{
@@ -161,6 +247,7 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
       zoomOut: () => {},
       resetView: () => {},
     });
+    const zoomBehaviorRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown>>();
 
     /**
      * Utility function to detect mobile devices
@@ -338,6 +425,8 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
           svg.transition().duration(750).call(zoomBehavior.transform, transform);
         };
 
+        zoomBehaviorRef.current = zoomBehavior;
+
         // Center on initial render and when tree changes
         centerTree();
 
@@ -373,6 +462,39 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
       settings.cardHeight,
     ]);
 
+    /**
+     * Pans to the spotlighted member once their card is laid out, zooming in
+     * to at least the normal size so the card can be read.
+     */
+    const centeredSpotlight = useRef<string | null>(null);
+    useEffect(() => {
+      if (!spotlightNodeId) {
+        centeredSpotlight.current = null;
+        return;
+      }
+      const node = tree.find((treeNode) => treeNode.id === spotlightNodeId);
+      if (
+        !node ||
+        !svgRef.current ||
+        !zoomBehaviorRef.current ||
+        centeredSpotlight.current === spotlightNodeId
+      ) {
+        return;
+      }
+      centeredSpotlight.current = spotlightNodeId;
+
+      const svg = d3.select(svgRef.current);
+      const { width, height } = svgRef.current.getBoundingClientRect();
+      const scale = Math.max(d3.zoomTransform(svgRef.current).k, 1);
+      const transform = d3.zoomIdentity
+        .translate(width / 2 - node.x * scale, height / 2 - node.y * scale)
+        .scale(scale);
+      svg
+        .transition()
+        .duration(750)
+        .call(zoomBehaviorRef.current.transform, transform);
+    }, [spotlightNodeId, tree]);
+
     // Expose zoom methods via ref
     useImperativeHandle(ref, () => ({
       onZoomIn: zoomFunctions.current.zoomIn,
@@ -389,12 +511,6 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
     const getNodeColor = (gender: string) =>
       gender === "male" ? settings.maleColor : settings.femaleColor;
 
-    // A utility to calculate a person's age.
-    const getAge = (birth: number, death?: number) => {
-      const end = death || new Date().getFullYear();
-      return end - birth;
-    };
-
     /**
      * Handles a click event on a node.
      * It can either show a mini-tree popup or just call the `onNodeClick` handler,
@@ -515,6 +631,33 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
               touchAction: "none",
             }}>
             <g className="tree-container">
+              {/* Generation guides behind everything else */}
+              {generationRows.map(({ generation, position }) => (
+                <g key={generation} data-testid='generation-guide'>
+                  <rect
+                    x={isHorizontal ? position - rowSize / 2 - 8 : crossStart}
+                    y={isHorizontal ? crossStart : position - rowSize / 2 - 8}
+                    width={isHorizontal ? rowSize + 16 : crossEnd - crossStart}
+                    height={isHorizontal ? crossEnd - crossStart : rowSize + 16}
+                    rx={8}
+                    fill={isDarkMode ? "#ffffff" : "#000000"}
+                    opacity={generation % 2 === 0 ? 0.04 : 0.02}
+                  />
+                  <text
+                    x={isHorizontal ? position : crossStart + 12}
+                    y={isHorizontal ? crossStart + 20 : position}
+                    textAnchor={isHorizontal ? "middle" : "start"}
+                    dominantBaseline='middle'
+                    fontSize={14}
+                    fontWeight={600}
+                    fill={isDarkMode ? "#9ca3af" : "#6b7280"}>
+                    {t("familyTree.generationNumber").replace(
+                      "{{number}}",
+                      String(generation)
+                    )}
+                  </text>
+                </g>
+              ))}
               {/* Render links */}
               {links
                 .filter((link) => link.relationshipType !== "sibling")
@@ -550,14 +693,18 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                         d={link.d}
                         fill='none'
                         stroke={
-                          link.relationshipType === "spouse"
+                          isLinkHighlighted(link)
+                            ? "#F59E0B"
+                            : link.relationshipType === "spouse"
                             ? "#EC4899"
                             : link.relationshipType === "sibling"
                             ? "#8B5CF6"
                             : settings.linkColor
                         }
                         strokeWidth={
-                          link.relationshipType === "spouse"
+                          isLinkHighlighted(link)
+                            ? 4
+                            : link.relationshipType === "spouse"
                             ? 2
                             : link.relationshipType === "sibling"
                             ? 1.5
@@ -712,6 +859,8 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                           node={node}
                           isDarkMode={isDarkMode}
                           isSelected={selectedNodeId === node.id}
+                          isHighlighted={highlightedIds.has(node.id)}
+                          isDimmed={isDimmed(node.id)}
                           onNodeClick={onNodeClick}
                           onAddRelative={onAddRelative}
                           onRelationshipDrop={onRelationshipDrop}
@@ -727,7 +876,13 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                           maleColor={settings.maleColor}
                           femaleColor={settings.femaleColor}
                           showLabels={settings.showLabels}
+                          calendarDisplay={settings.calendarDisplay}
+                          displayName={displayNames.get(node.id)}
                           allFamilyData={data}
+                          onToggleBranch={onToggleBranch}
+                          hasDescendants={peopleWithChildren.has(node.id)}
+                          hasAncestors={peopleWithParents.has(node.id)}
+                          descendantSide={descendantSide}
                           style={{
                             width: actualCardWidth,
                             height: actualCardHeight,
@@ -754,14 +909,36 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                     // Get the actual family member data (not just tree node data)
                     const familyMember = data[node.id];
                     if (!familyMember) return [];
+                    // Placeholders are laid out along the generation ("along")
+                    // and across generations ("depth"); in a horizontal layout
+                    // a generation is a column instead of a row.
+                    const isHorizontal = settings.orientation === "horizontal";
+                    const along = (n: { x: number; y: number }) =>
+                      isHorizontal ? n.y : n.x;
+                    const toPoint = (alongPos: number, depthPos: number) =>
+                      isHorizontal
+                        ? { x: depthPos, y: alongPos }
+                        : { x: alongPos, y: depthPos };
+                    const nodeAlong = isHorizontal ? nodeY : nodeX;
+                    const nodeDepth = isHorizontal ? nodeX : nodeY;
                     // Calculate placeholder positions based on node position
-                    const spacing = settings.cardWidth * 1.5;
-                    const verticalSpacing = settings.cardHeight * 1.2;
+                    const spacing = isHorizontal
+                      ? settings.cardHeight * 1.5
+                      : settings.cardWidth * 1.5;
+                    const generationStep = isHorizontal
+                      ? settings.cardWidth * 1.3
+                      : settings.cardHeight * 1.2;
+                    // Offset from a person towards their descendants
+                    const descendantStep =
+                      settings.direction === "bottom-to-top" ||
+                      settings.direction === "right-to-left"
+                        ? -generationStep
+                        : generationStep;
 
                     // Use helpers with relationships array
                     const parentIds = getParentIds(node.id, relationships);
                     const spouseIds = getSpouseIds(node.id, relationships);
-                    // Parent placeholder (above) - only show if person has fewer than 2 parents
+                    // Parent placeholder (towards ancestors) - only show if person has fewer than 2 parents
                     const hasMaxParents = parentIds.length >= 2;
                     if (!hasMaxParents) {
                       placeholders.push(
@@ -770,13 +947,12 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                           type='parent'
                           isDarkMode={isDarkMode}
                           onClick={() => onAddRelative(node.id, "parent")}
-                          x={nodeX}
-                          y={nodeY - verticalSpacing}
+                          {...toPoint(nodeAlong, nodeDepth - descendantStep)}
                           targetPersonName={familyMember.name}
                         />
                       );
                     }
-                    // Spouse placeholder (LEFT side) - show if no spouse exists
+                    // Spouse placeholder (before the person) - show if no spouse exists
                     const hasSpouse = spouseIds.length > 0;
                     if (!hasSpouse) {
                       placeholders.push(
@@ -785,13 +961,12 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                           type='spouse'
                           isDarkMode={isDarkMode}
                           onClick={() => onAddRelative(node.id, "spouse")}
-                          x={nodeX - spacing}
-                          y={nodeY}
+                          {...toPoint(nodeAlong - spacing, nodeDepth)}
                           targetPersonName={familyMember.name}
                         />
                       );
                     }
-                    // Child placeholder (below or at end of children row)
+                    // Child placeholder (towards descendants or at end of children row)
                     // Find children nodes - using both tree hierarchy and relationship data
                     const childrenFromRelationships = getChildIds(
                       node.id,
@@ -802,35 +977,33 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                     );
 
                     if (childrenNodes.length > 0) {
-                      // Sort children by x position to find the rightmost one
+                      // Sort children along their generation to find the last one
                       const sortedChildren = [...childrenNodes].sort(
-                        (a, b) => a.x - b.x
+                        (a, b) => along(a) - along(b)
                       );
-                      const rightmostChild =
+                      const lastChild =
                         sortedChildren[sortedChildren.length - 1];
+                      const childDepth = isHorizontal ? lastChild.x : lastChild.y;
 
-                      // Calculate position next to the rightmost child
-                      const childPlaceholderX = rightmostChild.x + spacing;
-                      const childPlaceholderY = rightmostChild.y;
-
-                      // Ensure we don't overlap with other nodes at the same level
-                      const sameYNodes = tree.filter(
+                      // Ensure we don't overlap with other nodes of the same generation
+                      const sameGenerationNodes = tree.filter(
                         (n) =>
-                          Math.abs(n.y - childPlaceholderY) <
-                            verticalSpacing * 0.3 && n.id !== node.id
+                          Math.abs((isHorizontal ? n.x : n.y) - childDepth) <
+                            generationStep * 0.3 && n.id !== node.id
                       );
 
-                      let finalChildX = childPlaceholderX;
+                      // Calculate position next to the last child
+                      let finalChildAlong = along(lastChild) + spacing;
 
                       // Check for potential conflicts and adjust position if necessary
                       let hasConflict = true;
                       let attempts = 0;
                       while (hasConflict && attempts < 10) {
-                        hasConflict = sameYNodes.some(
-                          (n) => Math.abs(n.x - finalChildX) < spacing * 0.8
+                        hasConflict = sameGenerationNodes.some(
+                          (n) => Math.abs(along(n) - finalChildAlong) < spacing * 0.8
                         );
                         if (hasConflict) {
-                          finalChildX += spacing * 0.5;
+                          finalChildAlong += spacing * 0.5;
                         }
                         attempts++;
                       }
@@ -841,21 +1014,19 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                           type='child'
                           isDarkMode={isDarkMode}
                           onClick={() => onAddRelative(node.id, "child")}
-                          x={finalChildX}
-                          y={childPlaceholderY}
+                          {...toPoint(finalChildAlong, childDepth)}
                           targetPersonName={familyMember.name}
                         />
                       );
                     } else {
-                      // No children exist, place directly below the parent
+                      // No children exist, place directly on the descendants' side
                       placeholders.push(
                         <PlaceholderNode
                           key={`${node.id}-child`}
                           type='child'
                           isDarkMode={isDarkMode}
                           onClick={() => onAddRelative(node.id, "child")}
-                          x={nodeX}
-                          y={nodeY + verticalSpacing}
+                          {...toPoint(nodeAlong, nodeDepth + descendantStep)}
                           targetPersonName={familyMember.name}
                         />
                       );
@@ -863,8 +1034,8 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                     // Sibling placeholder (opposite side of spouse)
                     const hasParentsForSiblings = parentIds.length > 0;
                     if (hasParentsForSiblings) {
-                      // Default: right side
-                      let siblingX = nodeX + spacing;
+                      // Default: after the person
+                      let siblingAlong = nodeAlong + spacing;
 
                       // If spouse exists, place sibling on opposite side
                       if (hasSpouse) {
@@ -873,47 +1044,41 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                           spouseIds.includes(n.id)
                         );
                         if (spouseNode) {
-                          const spouseDistance = Math.abs(spouseNode.x - nodeX);
+                          const spouseDistance = Math.abs(
+                            along(spouseNode) - nodeAlong
+                          );
                           // Only consider it positioned if there's significant distance
-                          if (spouseDistance > spacing * 0.3) {
-                            if (spouseNode.x > nodeX) {
-                              // Spouse is on the right, place sibling on the left
-                              siblingX = nodeX - spacing;
-                            } else {
-                              // Spouse is on the left, place sibling on the right
-                              siblingX = nodeX + spacing;
-                            }
-                          } else {
-                            // Spouse is very close or at same position, default to right
-                            siblingX = nodeX + spacing;
+                          // and the spouse is after the person
+                          if (
+                            spouseDistance > spacing * 0.3 &&
+                            along(spouseNode) > nodeAlong
+                          ) {
+                            siblingAlong = nodeAlong - spacing;
                           }
                         }
                       }
 
                       // Check for existing siblings to avoid overlaps
-                      const existingSiblings = tree.filter((n) => {
-                        const siblingIds = getSiblingIds(
-                          node.id,
-                          relationships
-                        );
-                        return siblingIds.includes(n.id);
-                      });
+                      const siblingIds = getSiblingIds(node.id, relationships);
+                      const existingSiblings = tree.filter((n) =>
+                        siblingIds.includes(n.id)
+                      );
 
                       // If there are existing siblings, find a good position
                       if (existingSiblings.length > 0) {
                         // Check if our calculated position conflicts with existing siblings
                         const hasConflict = existingSiblings.some(
                           (sibling) =>
-                            Math.abs(sibling.x - siblingX) < spacing * 0.8
+                            Math.abs(along(sibling) - siblingAlong) < spacing * 0.8
                         );
 
                         if (hasConflict) {
-                          // Find the rightmost sibling and place after it
-                          const rightmostSibling = existingSiblings.reduce(
+                          // Find the last sibling and place after it
+                          const lastSibling = existingSiblings.reduce(
                             (max, sibling) =>
-                              sibling.x > max.x ? sibling : max
+                              along(sibling) > along(max) ? sibling : max
                           );
-                          siblingX = rightmostSibling.x + spacing;
+                          siblingAlong = along(lastSibling) + spacing;
                         }
                       }
 
@@ -923,8 +1088,7 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                           type='sibling'
                           isDarkMode={isDarkMode}
                           onClick={() => onAddRelative(node.id, "sibling")}
-                          x={siblingX}
-                          y={nodeY}
+                          {...toPoint(siblingAlong, nodeDepth)}
                           targetPersonName={familyMember.name}
                         />
                       );
@@ -978,6 +1142,8 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                       node={node}
                       isDarkMode={isDarkMode}
                       isSelected={selectedNodeId === node.id}
+                      isHighlighted={highlightedIds.has(node.id)}
+                      isDimmed={isDimmed(node.id)}
                       onNodeClick={onNodeClick}
                       onAddRelative={onAddRelative}
                       onRelationshipDrop={onRelationshipDrop}
@@ -993,7 +1159,13 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                       maleColor={settings.maleColor}
                       femaleColor={settings.femaleColor}
                       showLabels={settings.showLabels}
+                      calendarDisplay={settings.calendarDisplay}
+                      displayName={displayNames.get(node.id)}
                       allFamilyData={data}
+                      onToggleBranch={onToggleBranch}
+                      hasDescendants={peopleWithChildren.has(node.id)}
+                      hasAncestors={peopleWithParents.has(node.id)}
+                      descendantSide={descendantSide}
                       style={{
                         width: actualCardWidth,
                         height: actualCardHeight,
@@ -1043,10 +1215,11 @@ export const BaseTree = forwardRef<any, BaseTreeProps>(
                           {miniTreeData.self.data.name}
                         </p>
                         <p className='text-sm'>
-                          {miniTreeData.self.data.birth_year}
-                          {miniTreeData.self.data.death_year
-                            ? ` - ${miniTreeData.self.data.death_year}`
-                            : ""}
+                          {formatLifeYears(
+                            miniTreeData.self.data,
+                            t,
+                            settings.calendarDisplay
+                          )}
                         </p>
                       </div>
                     )}
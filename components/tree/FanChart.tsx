@@ -0,0 +1,237 @@
+/**
+ * @file FanChart component - renders a fan-chart layout (nodes carrying a
+ * `fanArc`) as ring segments. It shares BaseTree's settings, svg id and zoom
+ * handlers so it can stand in for BaseTree and be exported the same way.
+ */
+import React, {
+  useRef,
+  useEffect,
+  forwardRef,
+  useImperativeHandle,
+} from "react";
+import * as d3 from "d3";
+import { Card } from "@/components/ui/card";
+import { FanArc, TreeNodeData } from "@/lib/types";
+import { BaseTreeSettings } from "@/components/tree/BaseTree";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { formatFamilyDate } from "@/lib/utils/familyDate";
+
+export interface FanChartProps {
+  tree: TreeNodeData[];
+  settings: BaseTreeSettings;
+  isDarkMode?: boolean;
+  onNodeClick?: (node: TreeNodeData) => void;
+  onZoomIn?: (fn: () => void) => void;
+  onZoomOut?: (fn: () => void) => void;
+  onResetView?: (fn: () => void) => void;
+  className?: string;
+  svgId?: string;
+  selectedNodeId?: string;
+  /** Member ids whose segments are outlined, e.g. a compared path */
+  highlightedPath?: string[] | null;
+}
+
+const arcPath = d3
+  .arc<FanArc>()
+  .innerRadius((d) => d.innerRadius)
+  .outerRadius((d) => d.outerRadius)
+  .startAngle((d) => d.startAngle)
+  .endAngle((d) => d.endAngle)
+  .padAngle(0.004);
+
+/**
+ * Rotation that keeps a label readable: the root and the first rings read
+ * horizontally, outer rings read along the radius and are flipped on the
+ * left half so text is never upside down.
+ */
+function labelRotation(arc: FanArc): number {
+  if (arc.generation <= 2) return 0;
+  const midDegrees = (((arc.startAngle + arc.endAngle) / 2) * 180) / Math.PI;
+  return midDegrees < 0 ? midDegrees + 90 : midDegrees - 90;
+}
+
+function truncate(text: string, maxLength: number): string {
+  return text.length > maxLength ? `${text.slice(0, maxLength - 1)}…` : text;
+}
+
+export const FanChart = forwardRef<any, FanChartProps>(
+  (
+    {
+      tree,
+      settings,
+      isDarkMode = false,
+      onNodeClick,
+      onZoomIn,
+      onZoomOut,
+      onResetView,
+      className,
+      svgId = "family-tree-svg",
+      selectedNodeId,
+      highlightedPath,
+    },
+    ref
+  ) => {
+    const { t } = useTranslation();
+    const svgRef = useRef<SVGSVGElement>(null);
+    const zoomFunctions = useRef({
+      zoomIn: () => {},
+      zoomOut: () => {},
+      resetView: () => {},
+    });
+    const highlightedIds = new Set(highlightedPath ?? []);
+    const outerRadius = Math.max(
+      0,
+      ...tree.map((node) => node.fanArc?.outerRadius ?? 0)
+    );
+
+    /**
+     * Sets up zoom and pan and fits the whole fan into the viewport.
+     */
+    useEffect(() => {
+      if (!svgRef.current) return;
+      const svg = d3.select(svgRef.current);
+      const g = svg.select<SVGGElement>("g.tree-container");
+
+      const zoomBehavior = d3
+        .zoom<SVGSVGElement, unknown>()
+        .scaleExtent([0.1, 3])
+        .on("zoom", (event) => g.attr("transform", event.transform));
+      svg.call(zoomBehavior);
+
+      const fitView = () => {
+        if (!svgRef.current || outerRadius === 0) return;
+        const rect = svgRef.current.getBoundingClientRect();
+        const width = rect.width || 800;
+        const height = rect.height || 600;
+        const padding = 40;
+        const scale = Math.min(
+          (width - padding * 2) / (outerRadius * 2),
+          (height - padding * 2) / (outerRadius * 2),
+          1
+        );
+        svg
+          .transition()
+          .duration(750)
+          .call(
+            zoomBehavior.transform,
+            d3.zoomIdentity.translate(width / 2, height / 2).scale(scale)
+          );
+      };
+      fitView();
+
+      zoomFunctions.current = {
+        zoomIn: () => svg.transition().call(zoomBehavior.scaleBy, 1.2),
+        zoomOut: () => svg.transition().call(zoomBehavior.scaleBy, 1 / 1.2),
+        resetView: fitView,
+      };
+      if (onZoomIn) onZoomIn(zoomFunctions.current.zoomIn);
+      if (onZoomOut) onZoomOut(zoomFunctions.current.zoomOut);
+      if (onResetView) onResetView(zoomFunctions.current.resetView);
+
+      return () => {
+        svg.on(".zoom", null);
+      };
+    }, [outerRadius, onZoomIn, onZoomOut, onResetView]);
+
+    useImperativeHandle(ref, () => ({
+      onZoomIn: () => zoomFunctions.current.zoomIn(),
+      onZoomOut: () => zoomFunctions.current.zoomOut(),
+      onResetView: () => zoomFunctions.current.resetView(),
+    }));
+
+    const textColor = isDarkMode ? "#F9FAFB" : "#1F2937";
+    const { showLabels } = settings;
+
+    return (
+      <div className={`relative w-full h-full ${className ?? ""}`}>
+        <Card
+          className={`w-full h-full overflow-hidden ${
+            isDarkMode ? "bg-gray-900" : "bg-white"
+          }`}>
+          <svg
+            ref={svgRef}
+            id={svgId}
+            data-testid='fan-chart'
+            className='w-full h-full'
+            style={{ minHeight: 400 }}>
+            <g className='tree-container'>
+              {tree
+                .filter((node) => node.fanArc)
+                .map((node) => {
+                  const arc = node.fanArc!;
+                  const isSelected = selectedNodeId === node.id;
+                  const isHighlighted = highlightedIds.has(node.id);
+                  const color =
+                    node.gender === "male"
+                      ? settings.maleColor
+                      : settings.femaleColor;
+                  const fontSize = Math.max(9, 15 - arc.generation * 1.5);
+                  const years = [
+                    showLabels.birthYear
+                      ? formatFamilyDate(node.birth, {
+                          t,
+                          yearOnly: true,
+                          calendar: settings.calendarDisplay,
+                        })
+                      : "",
+                    showLabels.deathYear
+                      ? formatFamilyDate(node.death, {
+                          t,
+                          yearOnly: true,
+                          calendar: settings.calendarDisplay,
+                        })
+                      : "",
+                  ]
+                    .filter(Boolean)
+                    .join(" - ");
+
+                  return (
+                    <g
+                      key={node.id}
+                      data-testid={`fan-segment-${node.id}`}
+                      className='cursor-pointer'
+                      onClick={() => onNodeClick?.(node)}>
+                      <path
+                        d={arcPath(arc) ?? undefined}
+                        fill={color}
+                        fillOpacity={isSelected ? 0.55 : 0.3}
+                        stroke={isHighlighted ? "#F59E0B" : color}
+                        strokeWidth={isHighlighted ? 4 : isSelected ? 3 : 1}
+                      />
+                      <g
+                        transform={`translate(${node.x},${node.y}) rotate(${labelRotation(
+                          arc
+                        )})`}>
+                        {showLabels.name && (
+                          <text
+                            textAnchor='middle'
+                            dy={years ? "-0.2em" : "0.35em"}
+                            fontSize={fontSize}
+                            fontWeight={600}
+                            fill={textColor}>
+                            {truncate(node.name, arc.generation <= 2 ? 20 : 14)}
+                          </text>
+                        )}
+                        {years && (
+                          <text
+                            textAnchor='middle'
+                            dy={showLabels.name ? "1.1em" : "0.35em"}
+                            fontSize={fontSize - 2}
+                            fill={textColor}
+                            fillOpacity={0.75}>
+                            {years}
+                          </text>
+                        )}
+                      </g>
+                    </g>
+                  );
+                })}
+            </g>
+          </svg>
+        </Card>
+      </div>
+    );
+  }
+);
+
+FanChart.displayName = "FanChart";
@@ -0,0 +1,66 @@
+/**
+ * @file Shows the active lineage filter over the tree, with a button that
+ * brings everyone back. Renders nothing while no filter is set.
+ */
+import React from "react";
+import { GitBranch, X } from "lucide-react";
+import { useTreeStore } from "@/hooks/useTreeStore";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { LineageMode } from "@/lib/types";
+
+/** Short names of the lineage modes, for buttons and menus */
+export const LINEAGE_MODE_KEYS: Record<LineageMode, string> = {
+  descendants: "toolbar.lineageDescendants",
+  patrilineal: "toolbar.lineagePatrilineal",
+  matrilineal: "toolbar.lineageMatrilineal",
+};
+
+const LINEAGE_LABEL_KEYS: Record<LineageMode, string> = {
+  descendants: "familyTree.lineageDescendants",
+  patrilineal: "familyTree.lineagePatrilineal",
+  matrilineal: "familyTree.lineageMatrilineal",
+};
+
+interface LineageFilterBadgeProps {
+  isDarkMode?: boolean;
+  className?: string;
+}
+
+export function LineageFilterBadge({
+  isDarkMode = false,
+  className = "",
+}: LineageFilterBadgeProps) {
+  const { t } = useTranslation();
+  const { data, lineageFilter, setLineageFilter } = useTreeStore();
+  if (!lineageFilter) return null;
+
+  const rootName =
+    data[lineageFilter.rootId]?.name || t("common.notSpecified");
+
+  return (
+    <div
+      data-testid='lineage-filter-badge'
+      className={`inline-flex items-center gap-2 rounded-full border px-3 py-1 text-xs font-medium shadow-sm ${
+        isDarkMode
+          ? "bg-gray-800 border-amber-700 text-amber-300"
+          : "bg-amber-50 border-amber-300 text-amber-800"
+      } ${className}`}>
+      <GitBranch className='w-3 h-3' />
+      <span>
+        {t(LINEAGE_LABEL_KEYS[lineageFilter.mode]).replace(
+          "{{name}}",
+          rootName
+        )}
+      </span>
+      <button
+        type='button'
+        data-testid='clear-lineage-filter'
+        onClick={() => setLineageFilter(null)}
+        title={t("familyTree.clearLineageFilter")}
+        aria-label={t("familyTree.clearLineageFilter")}
+        className='rounded-full p-0.5 hover:bg-amber-200/50'>
+        <X className='w-3 h-3' />
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+/**
+ * @file Search box for finding a member by name. Picking a result makes sure
+ * the member is drawn and hands them to the page to centre and highlight.
+ */
+import React, { useMemo, useState } from "react";
+import { Search, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { useTreeStore } from "@/hooks/useTreeStore";
+import { useTranslation } from "@/lib/i18n/useTranslation";
+import { searchMembers } from "@/lib/utils/memberSearch";
+import { formatLifeYears } from "@/lib/utils/familyDate";
+import { buildNasab, indexFathers } from "@/lib/utils/arabicName";
+
+interface MemberSearchProps {
+  isDarkMode?: boolean;
+  className?: string;
+  onSelect: (personId: string) => void;
+}
+
+export function MemberSearch({
+  isDarkMode = false,
+  className = "",
+  onSelect,
+}: MemberSearchProps) {
+  const { t } = useTranslation();
+  const { data, relationships, revealMember } = useTreeStore();
+  const [query, setQuery] = useState("");
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const results = useMemo(
+    () => searchMembers(data, relationships, query),
+    [data, relationships, query]
+  );
+  const fathers = useMemo(
+    () => indexFathers(data, relationships),
+    [data, relationships]
+  );
+
+  const select = (personId: string) => {
+    revealMember(personId);
+    onSelect(personId);
+    setQuery(data[personId]?.name ?? "");
+    setIsOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      if (results.length === 0) return;
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setActiveIndex((activeIndex + step + results.length) % results.length);
+      setIsOpen(true);
+    } else if (event.key === "Enter" && isOpen && results[activeIndex]) {
+      event.preventDefault();
+      select(results[activeIndex].id);
+    } else if (event.key === "Escape") {
+      setIsOpen(false);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <Search
+        className={`absolute start-2 top-1/2 -translate-y-1/2 w-4 h-4 pointer-events-none ${
+          isDarkMode ? "text-gray-400" : "text-gray-500"
+        }`}
+      />
+      <Input
+        data-testid='member-search-input'
+        type='search'
+        role='combobox'
+        aria-expanded={isOpen && query.trim() !== ""}
+        aria-label={t("familyTree.searchMembers")}
+        placeholder={t("familyTree.searchMembers")}
+        value={query}
+        onChange={(event) => {
+          setQuery(event.target.value);
+          setActiveIndex(0);
+          setIsOpen(true);
+        }}
+        onFocus={() => setIsOpen(true)}
+        onBlur={() => setIsOpen(false)}
+        onKeyDown={handleKeyDown}
+        className='ps-8 pe-8'
+      />
+      {query && (
+        <button
+          type='button'
+          data-testid='clear-member-search'
+          onClick={() => {
+            setQuery("");
+            setIsOpen(false);
+          }}
+          title={t("familyTree.clearSearch")}
+          aria-label={t("familyTree.clearSearch")}
+          className={`absolute end-2 top-1/2 -translate-y-1/2 rounded-full p-0.5 ${
+            isDarkMode ? "text-gray-400 hover:text-white" : "text-gray-500 hover:text-gray-900"
+          }`}>
+          <X className='w-3 h-3' />
+        </button>
+      )}
+      {isOpen && query.trim() !== "" && (
+        <ul
+          role='listbox'
+          data-testid='member-search-results'
+          className={`absolute z-20 mt-1 w-full max-h-72 overflow-y-auto rounded-md border shadow-lg ${
+            isDarkMode
+              ? "bg-gray-800 border-gray-700 text-white"
+              : "bg-white border-gray-200 text-gray-900"
+          }`}>
+          {results.length === 0 ? (
+            <li
+              className={`px-3 py-2 text-sm ${
+                isDarkMode ? "text-gray-400" : "text-gray-500"
+              }`}>
+              {t("familyTree.searchNoResults")}
+            </li>
+          ) : (
+            results.map(({ id }, index) => {
+              const member = data[id];
+              // The nasab tells apart people who share a name
+              const nasab = buildNasab(id, data, fathers);
+              return (
+                <li
+                  key={id}
+                  role='option'
+                  aria-selected={index === activeIndex}
+                  data-testid='member-search-result'
+                  // Keep the focus in the box so the list stays open
+                  onMouseDown={(event) => event.preventDefault()}
+                  onClick={() => select(id)}
+                  onMouseEnter={() => setActiveIndex(index)}
+                  className={`flex items-center justify-between gap-2 px-3 py-2 text-sm cursor-pointer ${
+                    index === activeIndex
+                      ? isDarkMode
+                        ? "bg-gray-700"
+                        : "bg-gray-100"
+                      : ""
+                  }`}>
+                  <span className='min-w-0'>
+                    <span className='block truncate'>{member.name}</span>
+                    {nasab !== member.name && (
+                      <span
+                        className={`block truncate text-xs ${
+                          isDarkMode ? "text-gray-400" : "text-gray-500"
+                        }`}>
+                        {nasab}
+                      </span>
+                    )}
+                  </span>
+                  <span
+                    className={`text-xs shrink-0 ${
+                      isDarkMode ? "text-gray-400" : "text-gray-500"
+                    }`}>
+                    {formatLifeYears(member, t)}
+                  </span>
+                </li>
+              );
+            })
+          )}
+        </ul>
+      )}
+    </div>
+  );
+}
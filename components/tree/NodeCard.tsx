@@ -1,5 +1,5 @@
 import React, { useState } from "react";
-import { TreeNodeData, FamilyMember } from "../../lib/types";
+import { TreeNodeData, FamilyMember, CalendarDisplay } from "../../lib/types";
 import {
   User,
   Users,
@@ -7,16 +7,49 @@ import {
   Move,
   Link2,
   Sparkles,
+  Plus,
+  Minus,
+  GitBranch,
 } from "lucide-react";
 import {
   useDraggableNode,
   useDropTargetNode,
 } from "../tree-editor/DragDropProvider";
+import { useTranslation } from "../../lib/i18n/useTranslation";
+import { formatFamilyDate } from "../../lib/utils/familyDate";
+
+type CardSide = "top" | "bottom" | "left" | "right";
+
+const OPPOSITE_SIDE: Record<CardSide, CardSide> = {
+  top: "bottom",
+  bottom: "top",
+  left: "right",
+  right: "left",
+};
+
+// Branch toggles sit on the card's edge, half outside it
+const TOGGLE_POSITION: Record<CardSide, string> = {
+  top: "-top-3 left-1/2 -translate-x-1/2",
+  bottom: "-bottom-3 left-1/2 -translate-x-1/2",
+  left: "-left-3 top-1/2 -translate-y-1/2",
+  right: "-right-3 top-1/2 -translate-y-1/2",
+};
+
+// Lineage stubs hang off the descendants' edge, clear of the branch toggle
+const STUB_POSITION: Record<CardSide, string> = {
+  top: "-top-7 right-2",
+  bottom: "-bottom-7 right-2",
+  left: "-left-7 bottom-2",
+  right: "-right-7 bottom-2",
+};
 
 interface NodeCardProps {
   node: TreeNodeData;
   isDarkMode: boolean;
   isSelected: boolean;
+  isHighlighted?: boolean;
+  /** Faded out, e.g. for people who don't match the member filter */
+  isDimmed?: boolean;
   onNodeClick: (node: TreeNodeData) => void;
   onAddRelative: (
     nodeId: string,
@@ -37,14 +70,27 @@ interface NodeCardProps {
     deathYear: boolean;
     spouse: boolean;
     genderIcon: boolean;
+    generation?: boolean;
   };
   allFamilyData?: { [id: string]: FamilyMember };
+  /** Calendar the birth and death years are shown in */
+  calendarDisplay?: CalendarDisplay;
+  /** Name in the chosen display mode, e.g. the full nasab */
+  displayName?: string;
+  /** Shows toggles that fold the person's branches away when set */
+  onToggleBranch?: (nodeId: string, branch: "descendants" | "ancestors") => void;
+  hasDescendants?: boolean;
+  hasAncestors?: boolean;
+  /** Edge of the card that faces the person's descendants */
+  descendantSide?: CardSide;
 }
 
 export function NodeCard({
   node,
   isDarkMode,
   isSelected,
+  isHighlighted = false,
+  isDimmed = false,
   onNodeClick,
   onAddRelative,
   onRelationshipDrop,
@@ -60,7 +106,14 @@ export function NodeCard({
     genderIcon: true,
   },
   allFamilyData = {},
+  calendarDisplay = "gregorian",
+  displayName,
+  onToggleBranch,
+  hasDescendants = false,
+  hasAncestors = false,
+  descendantSide = "bottom",
 }: NodeCardProps) {
+  const { t } = useTranslation();
   const [showDropMenu, setShowDropMenu] = useState(false);
   const genderColor = node.gender === "male" ? maleColor : femaleColor;
   const textColor = isDarkMode ? "text-gray-100" : "text-white";
@@ -95,12 +148,14 @@ export function NodeCard({
     ...style,
     boxShadow: isSelected
       ? `0 0 16px ${genderColor}`
+      : isHighlighted
+      ? "0 0 0 3px #F59E0B, 0 0 16px rgba(245, 158, 11, 0.6)"
       : isDropTarget
       ? `0 0 20px hsl(var(--primary) / 0.8), 0 0 40px hsl(var(--primary) / 0.4)`
       : isDraggedNode
       ? `0 8px 25px rgba(0,0,0,0.2)`
       : "0 4px 6px -1px rgba(0,0,0,0.1), 0 2px 4px -1px rgba(0,0,0,0.06)",
-    opacity: isDraggedNode ? 0.8 : 1,
+    opacity: isDraggedNode ? 0.8 : isDimmed ? 0.25 : 1,
     transform: isDraggedNode ? "rotate(2deg) scale(1.02)" : isDropTarget ? "scale(1.05)" : "none",
     transition: "all 0.2s ease-in-out",
   };
@@ -118,6 +173,50 @@ export function NodeCard({
     // This will be handled by the drop handlers
   };
 
+  // Collapsed branches keep their toggle visible with the hidden count;
+  // the others only show on hover
+  const renderBranchToggle = (
+    branch: "descendants" | "ancestors",
+    side: CardSide,
+    hiddenCount: number | undefined
+  ) => {
+    const isCollapsed = hiddenCount !== undefined;
+    const title = isCollapsed
+      ? t(
+          branch === "descendants"
+            ? "familyTree.expandDescendants"
+            : "familyTree.expandAncestors"
+        ).replace("{{count}}", String(hiddenCount))
+      : t(
+          branch === "descendants"
+            ? "familyTree.collapseDescendants"
+            : "familyTree.collapseAncestors"
+        );
+    return (
+      <button
+        type='button'
+        data-testid={`toggle-${branch}-${node.id}`}
+        aria-expanded={!isCollapsed}
+        title={title}
+        onClick={(event) => {
+          event.stopPropagation();
+          onToggleBranch?.(node.id, branch);
+        }}
+        className={`absolute ${TOGGLE_POSITION[side]} z-10 h-6 min-w-6 px-1 rounded-full border border-border bg-background text-foreground text-xs font-medium flex items-center justify-center gap-0.5 shadow transition-opacity ${
+          isCollapsed ? "opacity-100" : "opacity-0 group-hover:opacity-100"
+        }`}>
+        {isCollapsed ? (
+          <>
+            <Plus className='w-3 h-3' />
+            <span data-testid='hidden-count'>{hiddenCount}</span>
+          </>
+        ) : (
+          <Minus className='w-3 h-3' />
+        )}
+      </button>
+    );
+  };
+
 
   return (
     <div
@@ -145,6 +244,52 @@ export function NodeCard({
         </div>
       )}
 
+      {/* Branch toggles */}
+      {onToggleBranch &&
+        (hasDescendants || node.hiddenDescendants !== undefined) &&
+        renderBranchToggle(
+          "descendants",
+          descendantSide,
+          node.hiddenDescendants
+        )}
+      {onToggleBranch &&
+        (hasAncestors || node.hiddenAncestors !== undefined) &&
+        renderBranchToggle(
+          "ancestors",
+          OPPOSITE_SIDE[descendantSide],
+          node.hiddenAncestors
+        )}
+
+      {/* Children left out by the lineage filter */}
+      {node.lineageStub !== undefined && (
+        <div
+          data-testid='lineage-stub'
+          title={t("familyTree.lineageStub").replace(
+            "{{count}}",
+            String(node.lineageStub)
+          )}
+          className={`absolute ${STUB_POSITION[descendantSide]} h-5 px-1.5 rounded-full border border-dashed border-muted-foreground bg-background/90 text-muted-foreground text-[10px] flex items-center gap-0.5 pointer-events-auto`}>
+          <GitBranch className='w-3 h-3' />
+          {node.lineageStub}
+        </div>
+      )}
+
+      {/* Generation number */}
+      {showLabels.generation && node.generation !== undefined && (
+        <div
+          data-testid='generation-label'
+          title={t("familyTree.generationNumber").replace(
+            "{{number}}",
+            String(node.generation)
+          )}
+          className='absolute top-1 end-1 px-1 rounded bg-background/80 text-muted-foreground text-[10px] font-semibold leading-4'>
+          {t("familyTree.generationShort").replace(
+            "{{number}}",
+            String(node.generation)
+          )}
+        </div>
+      )}
+
       {/* Suggestion indicator */}
       {showSuggestionIndicator && !isSelected && (
         <div className='absolute -top-1 -left-1 w-4 h-4 bg-yellow-500 rounded-full flex items-center justify-center animate-pulse'>
@@ -163,13 +308,27 @@ export function NodeCard({
         </div>
         <div className='text-center'>
           {showLabels.name && (
-            <p className='text-sm font-bold truncate'>{node.name || "Unknown"}</p>
+            <p
+              className='text-sm font-bold truncate'
+              title={displayName || node.name}>
+              {displayName || node.name || "Unknown"}
+            </p>
           )}
           {(showLabels.birthYear || showLabels.deathYear) && (
             <p className='text-xs opacity-90'>
-              {showLabels.birthYear && node.birth_year}
-              {showLabels.birthYear && showLabels.deathYear && node.death_year && " - "}
-              {showLabels.deathYear && node.death_year}
+              {showLabels.birthYear &&
+                formatFamilyDate(node.birth, {
+                  t,
+                  yearOnly: true,
+                  calendar: calendarDisplay,
+                })}
+              {showLabels.birthYear && showLabels.deathYear && node.death && " - "}
+              {showLabels.deathYear &&
+                formatFamilyDate(node.death, {
+                  t,
+                  yearOnly: true,
+                  calendar: calendarDisplay,
+                })}
             </p>
           )}
         </div>
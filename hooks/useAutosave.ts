@@ -0,0 +1,152 @@
+/**
+ * @file Custom hook that keeps a local draft of the tree editor in IndexedDB.
+ * On mount it looks for an existing draft and lets the caller offer a restore;
+ * once that question is settled, every change is saved after a short delay.
+ */
+import { useCallback, useEffect, useState } from "react";
+import { useDispatch, useStore } from "react-redux";
+import type { RootState, AppDispatch } from "../lib/store/store";
+import { restoreDraft, getDefaultPersistedState } from "../lib/store/treeSlice";
+import { restoreLibrary } from "../lib/store/librarySlice";
+import {
+  StoredDraft,
+  loadDraft,
+  saveDraft,
+  clearDraft,
+  selectPersistedState,
+  hasPersistedChanges,
+} from "../lib/store/persistence";
+
+/**
+ * Autosaves the editor state and exposes the restore / discard actions.
+ *
+ * @param delay - Debounce delay in milliseconds before a change is written.
+ */
+export function useAutosave(delay: number = 1000) {
+  const store = useStore<RootState>();
+  const dispatch = useDispatch<AppDispatch>();
+  // A draft found on load that the user has not yet restored or discarded
+  const [pendingDraft, setPendingDraft] = useState<StoredDraft | null>(null);
+  // Autosave stays off until we know whether a draft should be restored,
+  // otherwise the empty initial tree would overwrite it.
+  const [isEnabled, setIsEnabled] = useState(false);
+  // The restore prompt was closed without a choice; autosave waits for the
+  // user to resume it so the stored draft is not overwritten unasked
+  const [isDismissed, setIsDismissed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadDraft()
+      .then((draft) => {
+        if (cancelled) return;
+        if (
+          draft &&
+          (Object.keys(draft.state.members).length > 0 ||
+            (draft.library?.trees.length ?? 0) > 1)
+        ) {
+          setPendingDraft(draft);
+        } else {
+          setIsEnabled(true);
+        }
+      })
+      .catch((error) => {
+        console.warn("Could not read the local draft:", error);
+        if (!cancelled) setIsEnabled(true);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!isEnabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let lastSaved = selectPersistedState(store.getState().tree);
+    let lastLibrary = store.getState().library;
+
+    const unsubscribe = store.subscribe(() => {
+      const next = selectPersistedState(store.getState().tree);
+      const library = store.getState().library;
+      if (!hasPersistedChanges(lastSaved, next) && library === lastLibrary) {
+        return;
+      }
+      lastSaved = next;
+      lastLibrary = library;
+
+      if (timer) clearTimeout(timer);
+      timer = setTimeout(() => {
+        // A single empty tree has nothing worth restoring
+        const isEmpty =
+          Object.keys(next.members).length === 0 && library.trees.length <= 1;
+        const write = isEmpty ? clearDraft() : saveDraft(next, library);
+        write.catch((error) =>
+          console.warn("Could not save the local draft:", error)
+        );
+      }, delay);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, [isEnabled, store, delay]);
+
+  /**
+   * Loads the pending draft into the store and starts autosaving.
+   */
+  const restorePendingDraft = useCallback(() => {
+    if (pendingDraft) {
+      if (pendingDraft.library) dispatch(restoreLibrary(pendingDraft.library));
+      dispatch(restoreDraft(pendingDraft.state));
+    }
+    setPendingDraft(null);
+    setIsEnabled(true);
+  }, [dispatch, pendingDraft]);
+
+  /**
+   * Closes the restore prompt without choosing. The stored draft is left as
+   * it is and autosave is paused until `resumeAutosave`, so the draft is
+   * offered again on the next load instead of being overwritten.
+   */
+  const dismissPendingDraft = useCallback(() => {
+    setPendingDraft(null);
+    setIsDismissed(true);
+  }, []);
+
+  /**
+   * Turns autosave back on after the restore prompt was dismissed. The next
+   * edit replaces the stored draft.
+   */
+  const resumeAutosave = useCallback(() => {
+    setIsEnabled(true);
+  }, []);
+
+  /**
+   * Discards the active tree's draft and clears it from the editor, so the
+   * next edit does not save it again. The other trees in the library stay
+   * saved; the stored draft is deleted only when there are none. Autosave
+   * continues, so the next edit starts a new draft.
+   */
+  const discardDraft = useCallback(async () => {
+    const library = pendingDraft?.library ?? store.getState().library;
+    if (pendingDraft?.library) dispatch(restoreLibrary(pendingDraft.library));
+    dispatch(restoreDraft(getDefaultPersistedState()));
+    setPendingDraft(null);
+    setIsEnabled(true);
+    if (library.trees.length > 1) {
+      await saveDraft(getDefaultPersistedState(), library);
+    } else {
+      await clearDraft();
+    }
+  }, [dispatch, pendingDraft, store]);
+
+  return {
+    pendingDraft,
+    restorePendingDraft,
+    dismissPendingDraft,
+    discardDraft,
+    isAutosavePaused: isDismissed && !isEnabled,
+    resumeAutosave,
+  };
+}
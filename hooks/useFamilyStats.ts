@@ -0,0 +1,27 @@
+/**
+ * @file Custom hook for the statistics of the tree in the store.
+ */
+import { useMemo } from "react";
+import { useSelector } from "react-redux";
+import type { RootState } from "../lib/store/store";
+import { computeFamilyStats, FamilyStats } from "../lib/utils/familyStats";
+
+/**
+ * Statistics of the loaded tree, or null while no tree is loaded so callers
+ * can fall back to configured numbers.
+ */
+export function useFamilyStats(): FamilyStats | null {
+  const members = useSelector((state: RootState) => state.tree.members);
+  const relationships = useSelector(
+    (state: RootState) => state.tree.relationships
+  );
+  const founderId = useSelector((state: RootState) => state.tree.founderId);
+  const mainId = useSelector((state: RootState) => state.tree.mainId);
+  return useMemo(
+    () =>
+      Object.keys(members).length > 0
+        ? computeFamilyStats(members, relationships, founderId, mainId)
+        : null,
+    [members, relationships, founderId, mainId]
+  );
+}
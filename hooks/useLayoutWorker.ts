@@ -0,0 +1,75 @@
+/**
+ * @file Custom hook that runs large tree layouts in a Web Worker. The tree
+ * slice marks a layout as pending instead of calculating it while a worker
+ * is ready; this hook sends each new request to the worker and stores the
+ * result.
+ */
+import { useEffect } from "react";
+import { useDispatch, useStore } from "react-redux";
+import type { RootState, AppDispatch } from "../lib/store/store";
+import {
+  applyWorkerLayout,
+  selectLayoutParams,
+  setLayoutWorkerReady,
+} from "../lib/store/treeSlice";
+import type {
+  LayoutRequest,
+  LayoutResponse,
+} from "../lib/workers/layout.worker";
+
+/**
+ * Starts the layout worker for as long as the calling component is mounted.
+ * Without Worker support the layout simply stays on the main thread.
+ */
+export function useLayoutWorker() {
+  const store = useStore<RootState>();
+  const dispatch = useDispatch<AppDispatch>();
+
+  useEffect(() => {
+    if (typeof Worker === "undefined") return;
+
+    let worker: Worker;
+    try {
+      worker = new Worker(
+        new URL("../lib/workers/layout.worker.ts", import.meta.url)
+      );
+    } catch (error) {
+      console.warn("Could not start the layout worker:", error);
+      return;
+    }
+
+    let sentRequestId = -1;
+    const sendPendingLayout = () => {
+      const state = store.getState().tree;
+      if (!state.layoutPending || state.layoutRequestId === sentRequestId) {
+        return;
+      }
+      sentRequestId = state.layoutRequestId;
+      const request: LayoutRequest = {
+        requestId: state.layoutRequestId,
+        params: selectLayoutParams(state),
+      };
+      worker.postMessage(request);
+    };
+
+    worker.onmessage = (event: MessageEvent<LayoutResponse>) => {
+      dispatch(applyWorkerLayout(event.data));
+    };
+    // Fall back to laying out on the main thread
+    worker.onerror = (event) => {
+      console.error("Layout worker failed:", event.message);
+      unsubscribe();
+      worker.terminate();
+      dispatch(setLayoutWorkerReady(false));
+    };
+
+    const unsubscribe = store.subscribe(sendPendingLayout);
+    dispatch(setLayoutWorkerReady(true));
+
+    return () => {
+      unsubscribe();
+      worker.terminate();
+      dispatch(setLayoutWorkerReady(false));
+    };
+  }, [store, dispatch]);
+}
@@ -8,12 +8,15 @@ import {
 import { BaseTreeSettings } from "@/components/tree/BaseTree";
 
 /**
- * Creates an SVG path string for a smooth, curved link between two points.
- * This is used for parent-child relationships.
+ * Creates an SVG path string for an elbow link between two points.
+ * This is used for parent-child relationships. In a vertical layout the
+ * link leaves and enters the cards vertically; in a horizontal one it does
+ * so sideways.
  */
 function createElbowPath(
   source: { x: number; y: number },
-  target: { x: number; y: number }
+  target: { x: number; y: number },
+  orientation: "horizontal" | "vertical" = "vertical"
 ): string {
   const sx = source.x;
   const sy = source.y;
@@ -28,6 +31,17 @@ function createElbowPath(
     return `M ${sx} ${sy} L ${tx} ${ty}`;
   }
 
+  if (orientation === "horizontal") {
+    // Parent and child on the same row: straight horizontal line
+    if (Math.abs(dy) < 50) {
+      return `M ${sx} ${sy} L ${tx} ${ty}`;
+    }
+
+    // Otherwise bend 70% of the way across
+    const midX = sx + (tx - sx) * 0.7;
+    return `M ${sx} ${sy} L ${midX} ${sy} L ${midX} ${ty} L ${tx} ${ty}`;
+  }
+
   // For vertical parent-child relationships
   if (Math.abs(dx) < 50) {
     // Straight vertical line
@@ -69,6 +83,12 @@ export function useLinks(
         links.push(link);
       }
     };
+    const isHorizontal = settings.orientation === "horizontal";
+    /**
+     * Joins the facing edges of two cards. Parent links run between
+     * generations (rows, or columns in a horizontal layout); spouse and
+     * sibling links run within a generation.
+     */
     const getConnectionPoints = (
       node1: TreeNodeData,
       node2: TreeNodeData,
@@ -76,55 +96,39 @@ export function useLinks(
     ) => {
       const node1Center = { x: node1.x, y: node1.y };
       const node2Center = { x: node2.x, y: node2.y };
-
-      if (relationshipType === "spouse") {
-        // Horizontal connection between spouses
-        if (node1.x < node2.x) {
-          return {
-            start: { x: node1Center.x + cardWidth / 2, y: node1Center.y },
-            end: { x: node2Center.x - cardWidth / 2, y: node2Center.y },
-          };
-        } else {
-          return {
-            start: { x: node1Center.x - cardWidth / 2, y: node1Center.y },
-            end: { x: node2Center.x + cardWidth / 2, y: node2Center.y },
-          };
-        }
-      } else if (relationshipType === "parent") {
-        // Vertical connection from parent to child
-        if (node1.y < node2.y) {
-          // node1 is parent, node2 is child
-          return {
-            start: { x: node1Center.x, y: node1Center.y + cardHeight / 2 },
-            end: { x: node2Center.x, y: node2Center.y - cardHeight / 2 },
-          };
-        } else {
-          // node2 is parent, node1 is child
-          return {
-            start: { x: node2Center.x, y: node2Center.y + cardHeight / 2 },
-            end: { x: node1Center.x, y: node1Center.y - cardHeight / 2 },
-          };
-        }
-      } else if (relationshipType === "sibling") {
-        // Horizontal connection between siblings
-        if (node1.x < node2.x) {
-          return {
-            start: { x: node1Center.x + cardWidth / 2, y: node1Center.y },
-            end: { x: node2Center.x - cardWidth / 2, y: node2Center.y },
-          };
-        } else {
-          return {
-            start: { x: node1Center.x - cardWidth / 2, y: node1Center.y },
-            end: { x: node2Center.x + cardWidth / 2, y: node2Center.y },
-          };
-        }
+      if (
+        relationshipType !== "parent" &&
+        relationshipType !== "spouse" &&
+        relationshipType !== "sibling"
+      ) {
+        // Default: center to center
+        return {
+          start: node1Center,
+          end: node2Center,
+        };
       }
 
-      // Default: center to center
-      return {
-        start: node1Center,
-        end: node2Center,
-      };
+      const acrossGenerations = relationshipType === "parent";
+      // Spouses and siblings sit side by side in a vertical layout and one
+      // above the other in a horizontal one
+      const joinSideways = acrossGenerations === isHorizontal;
+      const [first, second] = joinSideways
+        ? node1.x < node2.x
+          ? [node1Center, node2Center]
+          : [node2Center, node1Center]
+        : node1.y < node2.y
+        ? [node1Center, node2Center]
+        : [node2Center, node1Center];
+
+      return joinSideways
+        ? {
+            start: { x: first.x + cardWidth / 2, y: first.y },
+            end: { x: second.x - cardWidth / 2, y: second.y },
+          }
+        : {
+            start: { x: first.x, y: first.y + cardHeight / 2 },
+            end: { x: second.x, y: second.y - cardHeight / 2 },
+          };
     };
     // Generate links from relationships array
     relationships.forEach((rel) => {
@@ -144,7 +148,11 @@ export function useLinks(
         id: relationshipKey,
         d:
           rel.type === "parent"
-            ? createElbowPath(connectionPoints.start, connectionPoints.end)
+            ? createElbowPath(
+                connectionPoints.start,
+                connectionPoints.end,
+                settings.orientation
+              )
             : `M ${connectionPoints.start.x} ${connectionPoints.start.y} L ${connectionPoints.end.x} ${connectionPoints.end.y}`,
         type: linkType,
         depth: rel.type === "parent" ? 1 : 0,
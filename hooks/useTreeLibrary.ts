@@ -0,0 +1,109 @@
+/**
+ * @file Custom hook for managing the library of named family trees.
+ * Coordinates the library slice with the tree slice so the active tree's
+ * data is parked and restored whenever the user switches trees.
+ */
+import { useCallback } from "react";
+import { useDispatch, useSelector, useStore } from "react-redux";
+import type { RootState, AppDispatch } from "../lib/store/store";
+import {
+  addTree,
+  renameTree,
+  removeTree,
+  activateTree,
+} from "../lib/store/librarySlice";
+import {
+  restoreDraft,
+  getDefaultPersistedState,
+} from "../lib/store/treeSlice";
+import { selectPersistedState } from "../lib/store/persistence";
+
+/**
+ * Exposes the tree library and the create / rename / duplicate / delete /
+ * switch actions.
+ */
+export function useTreeLibrary() {
+  const store = useStore<RootState>();
+  const dispatch = useDispatch<AppDispatch>();
+  const trees = useSelector((state: RootState) => state.library.trees);
+  const activeTreeId = useSelector(
+    (state: RootState) => state.library.activeTreeId
+  );
+
+  /**
+   * Parks the active tree and loads another one into the editor.
+   */
+  const switchTree = useCallback(
+    (id: string) => {
+      const state = store.getState();
+      const data = state.library.inactiveTrees[id];
+      if (id === state.library.activeTreeId || !data) return;
+      dispatch(
+        activateTree({ id, outgoingData: selectPersistedState(state.tree) })
+      );
+      dispatch(restoreDraft(data));
+    },
+    [store, dispatch]
+  );
+
+  /**
+   * Creates an empty tree and switches to it.
+   */
+  const createTree = useCallback(
+    (name: string) => {
+      const id = `tree_${Date.now()}`;
+      dispatch(addTree({ id, name, data: getDefaultPersistedState() }));
+      switchTree(id);
+      return id;
+    },
+    [dispatch, switchTree]
+  );
+
+  /**
+   * Copies a tree (including its visual settings) under a new name.
+   */
+  const duplicateTree = useCallback(
+    (sourceId: string, name: string) => {
+      const state = store.getState();
+      const data =
+        sourceId === state.library.activeTreeId
+          ? selectPersistedState(state.tree)
+          : state.library.inactiveTrees[sourceId];
+      if (!data) return null;
+      const id = `tree_${Date.now()}`;
+      dispatch(addTree({ id, name, data }));
+      return id;
+    },
+    [store, dispatch]
+  );
+
+  /**
+   * Deletes a tree. Deleting the active tree switches to another one first;
+   * the last remaining tree cannot be deleted.
+   */
+  const deleteTree = useCallback(
+    (id: string) => {
+      const { library } = store.getState();
+      if (library.trees.length <= 1) return false;
+      if (id === library.activeTreeId) {
+        const next = library.trees.find((tree) => tree.id !== id);
+        if (next) switchTree(next.id);
+      }
+      dispatch(removeTree(id));
+      return true;
+    },
+    [store, dispatch, switchTree]
+  );
+
+  return {
+    trees,
+    activeTreeId,
+    activeTree: trees.find((tree) => tree.id === activeTreeId),
+    createTree,
+    renameTree: (id: string, name: string) =>
+      dispatch(renameTree({ id, name })),
+    duplicateTree,
+    deleteTree,
+    switchTree,
+  };
+}
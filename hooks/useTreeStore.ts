@@ -16,13 +16,24 @@ import {
   setShowSpouses,
   setViewMode,
   setFocusPerson,
+  setHourglassDepth,
   setCardWidth,
   setCardHeight,
   setMaleColor,
   setFemaleColor,
   setLinkColor,
   setLineShape,
+  setLayoutDirection,
+  applyDefaultLayoutDirection,
   setShowLabel,
+  setCalendarDisplay,
+  setNameDisplay,
+  toggleCollapsedBranch,
+  collapseToGeneration,
+  expandAllBranches,
+  revealMember,
+  setLineageFilter,
+  setFounder,
   undo,
   redo,
   toggleAllRels,
@@ -34,9 +45,21 @@ import {
   removeRelationship,
   modifyRelationship,
   fixRelationshipInconsistencies,
+  applyIntegrityFix,
+  mergeMembers,
   addRelative,
 } from "../lib/store/treeSlice";
-import { FamilyMember } from "../lib/types";
+import {
+  CalendarDisplay,
+  FamilyMember,
+  LayoutDirection,
+  LineageFilter,
+  NameDisplay,
+  TreeState,
+  ViewMode,
+} from "../lib/types";
+import type { IntegrityFix } from "../lib/utils/integrityCheck";
+import type { MergeChoices } from "../lib/utils/duplicates";
 
 /**
  * A custom hook that provides a simplified interface to the Redux store
@@ -67,13 +90,28 @@ export function useTreeStore() {
   const focusPersonId = useSelector(
     (state: RootState) => state.tree.focusPersonId
   );
+  const hourglassDepth = useSelector(
+    (state: RootState) => state.tree.hourglassDepth
+  );
   const cardWidth = useSelector((state: RootState) => state.tree.cardWidth);
   const cardHeight = useSelector((state: RootState) => state.tree.cardHeight);
   const maleColor = useSelector((state: RootState) => state.tree.maleColor);
   const femaleColor = useSelector((state: RootState) => state.tree.femaleColor);
   const linkColor = useSelector((state: RootState) => state.tree.linkColor);
   const lineShape = useSelector((state: RootState) => state.tree.lineShape);
+  const layoutDirection = useSelector(
+    (state: RootState) => state.tree.layoutDirection
+  );
   const showLabels = useSelector((state: RootState) => state.tree.showLabels);
+  const collapsed = useSelector((state: RootState) => state.tree.collapsed);
+  const lineageFilter = useSelector(
+    (state: RootState) => state.tree.lineageFilter
+  );
+  const founderId = useSelector((state: RootState) => state.tree.founderId);
+  const calendarDisplay = useSelector(
+    (state: RootState) => state.tree.calendarDisplay
+  );
+  const nameDisplay = useSelector((state: RootState) => state.tree.nameDisplay);
   const past = useSelector((state: RootState) => state.tree.past);
   const future = useSelector((state: RootState) => state.tree.future);
   const relationships = useSelector(
@@ -96,13 +134,20 @@ export function useTreeStore() {
     showSpouses,
     viewMode,
     focusPersonId,
+    hourglassDepth,
     cardWidth,
     cardHeight,
     maleColor,
     femaleColor,
     linkColor,
     lineShape,
+    layoutDirection,
     showLabels,
+    collapsed,
+    lineageFilter,
+    founderId,
+    calendarDisplay,
+    nameDisplay,
     past,
     future,
     relationships,
@@ -113,7 +158,7 @@ export function useTreeStore() {
       members: { [id: string]: FamilyMember };
       relationships: any[];
     }) => {
-      dispatch(saveState());
+      // The reducer records the undo step itself
       dispatch(updateMembersAndRelationships(payload));
     },
     addMember: (member: FamilyMember) => {
@@ -166,6 +211,18 @@ export function useTreeStore() {
       dispatch(saveState());
       dispatch(fixRelationshipInconsistencies());
     },
+    applyIntegrityFix: (fix: IntegrityFix) => {
+      dispatch(saveState());
+      dispatch(applyIntegrityFix(fix));
+    },
+    mergeMembers: (
+      survivorId: string,
+      duplicateId: string,
+      choices: MergeChoices
+    ) => {
+      dispatch(saveState());
+      dispatch(mergeMembers({ survivorId, duplicateId, choices }));
+    },
     // Expose other utility and history actions directly.
     recalculateTree: () => dispatch(recalculateTree()),
     setFocusNode: (nodeId: string | null) => dispatch(setFocusNode(nodeId)),
@@ -179,9 +236,11 @@ export function useTreeStore() {
       dispatch(setVerticalSpacing(spacing)),
     setShowSpouses: (show: boolean) => dispatch(setShowSpouses(show)),
     toggleShowSpouses: () => dispatch(setShowSpouses(!showSpouses)),
-    setViewMode: (mode: "full" | "focus") => dispatch(setViewMode(mode)),
+    setViewMode: (mode: ViewMode) => dispatch(setViewMode(mode)),
     setFocusPerson: (personId: string | null) =>
       dispatch(setFocusPerson(personId)),
+    setHourglassDepth: (depth: { ancestors?: number; descendants?: number }) =>
+      dispatch(setHourglassDepth(depth)),
     setCardWidth: (width: number) => dispatch(setCardWidth(width)),
     setCardHeight: (height: number) => dispatch(setCardHeight(height)),
     setMaleColor: (color: string) => dispatch(setMaleColor(color)),
@@ -189,10 +248,28 @@ export function useTreeStore() {
     setLinkColor: (color: string) => dispatch(setLinkColor(color)),
     setLineShape: (shape: "straight" | "curved") =>
       dispatch(setLineShape(shape)),
+    setLayoutDirection: (direction: LayoutDirection) =>
+      dispatch(setLayoutDirection(direction)),
+    applyDefaultLayoutDirection: (direction: LayoutDirection) =>
+      dispatch(applyDefaultLayoutDirection(direction)),
     setShowLabel: (
-      labelType: "name" | "birthYear" | "deathYear" | "spouse" | "genderIcon",
+      labelType: keyof TreeState["showLabels"],
       visible: boolean
     ) => dispatch(setShowLabel({ labelType, visible })),
+    setCalendarDisplay: (calendar: CalendarDisplay) =>
+      dispatch(setCalendarDisplay(calendar)),
+    setNameDisplay: (display: NameDisplay) => dispatch(setNameDisplay(display)),
+    toggleCollapsedBranch: (
+      personId: string,
+      branch: "descendants" | "ancestors"
+    ) => dispatch(toggleCollapsedBranch({ personId, branch })),
+    collapseToGeneration: (generationCount: number) =>
+      dispatch(collapseToGeneration(generationCount)),
+    expandAllBranches: () => dispatch(expandAllBranches()),
+    revealMember: (personId: string) => dispatch(revealMember(personId)),
+    setLineageFilter: (filter: LineageFilter | null) =>
+      dispatch(setLineageFilter(filter)),
+    setFounder: (personId: string | null) => dispatch(setFounder(personId)),
     undo: () => dispatch(undo()),
     redo: () => dispatch(redo()),
     toggleAllRels: () => dispatch(toggleAllRels()),
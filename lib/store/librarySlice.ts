@@ -0,0 +1,88 @@
+/**
+ * @file Redux slice for the library of named family trees.
+ * Tracks which trees exist and which one is active, and holds the data of
+ * the trees that are not currently loaded into the editor.
+ */
+import { createSlice, PayloadAction } from "@reduxjs/toolkit";
+import { PersistedTreeState, TreeLibraryState } from "../types";
+
+export const DEFAULT_TREE_ID = "tree_default";
+
+/**
+ * The initial library: a single, unnamed tree that is active.
+ */
+const initialState: TreeLibraryState = {
+  trees: [
+    { id: DEFAULT_TREE_ID, name: "", createdAt: 0, updatedAt: 0 },
+  ],
+  activeTreeId: DEFAULT_TREE_ID,
+  inactiveTrees: {},
+};
+
+const librarySlice = createSlice({
+  name: "library",
+  initialState,
+  reducers: {
+    /**
+     * Adds a tree to the library without activating it.
+     */
+    addTree(
+      state,
+      action: PayloadAction<{ id: string; name: string; data: PersistedTreeState }>
+    ) {
+      const { id, name, data } = action.payload;
+      const now = Date.now();
+      state.trees.push({ id, name, createdAt: now, updatedAt: now });
+      state.inactiveTrees[id] = data;
+    },
+    /**
+     * Renames a tree.
+     */
+    renameTree(state, action: PayloadAction<{ id: string; name: string }>) {
+      const tree = state.trees.find((t) => t.id === action.payload.id);
+      if (tree) {
+        tree.name = action.payload.name;
+        tree.updatedAt = Date.now();
+      }
+    },
+    /**
+     * Removes an inactive tree and its data. The active tree cannot be
+     * removed; switch away from it first.
+     */
+    removeTree(state, action: PayloadAction<string>) {
+      if (action.payload === state.activeTreeId) return;
+      state.trees = state.trees.filter((t) => t.id !== action.payload);
+      delete state.inactiveTrees[action.payload];
+    },
+    /**
+     * Parks the active tree's data and marks another tree as active.
+     * The caller loads the new tree's data into the editor.
+     */
+    activateTree(
+      state,
+      action: PayloadAction<{ id: string; outgoingData: PersistedTreeState }>
+    ) {
+      const { id, outgoingData } = action.payload;
+      if (id === state.activeTreeId || !state.inactiveTrees[id]) return;
+      state.inactiveTrees[state.activeTreeId] = outgoingData;
+      delete state.inactiveTrees[id];
+      state.activeTreeId = id;
+    },
+    /**
+     * Replaces the whole library, e.g. when restoring a local draft.
+     */
+    restoreLibrary(_state, action: PayloadAction<TreeLibraryState>) {
+      return action.payload;
+    },
+  },
+});
+
+export const {
+  addTree,
+  renameTree,
+  removeTree,
+  activateTree,
+  restoreLibrary,
+} = librarySlice.actions;
+
+export default librarySlice.reducer;
@@ -0,0 +1,123 @@
+/**
+ * @file IndexedDB persistence for the tree editor's local draft.
+ * Only the user's data and visual settings are stored; the layout is
+ * recalculated on restore and undo/redo history starts fresh.
+ */
+import { PersistedTreeState, TreeLibraryState, TreeState } from "../types";
+
+const DB_NAME = "family-tree-editor";
+const DB_VERSION = 1;
+const STORE_NAME = "drafts";
+const DRAFT_KEY = "current";
+
+/**
+ * A stored draft together with the time it was written. `state` is the
+ * active tree; the other trees of the workspace travel in `library`.
+ */
+export interface StoredDraft {
+  state: PersistedTreeState;
+  library?: TreeLibraryState;
+  savedAt: number;
+}
+
+/**
+ * Picks the persisted fields out of the full editor state.
+ */
+export function selectPersistedState(state: TreeState): PersistedTreeState {
+  return {
+    members: state.members,
+    relationships: state.relationships,
+    mainId: state.mainId,
+    cardWidth: state.cardWidth,
+    cardHeight: state.cardHeight,
+    maleColor: state.maleColor,
+    femaleColor: state.femaleColor,
+    linkColor: state.linkColor,
+    lineShape: state.lineShape,
+    layoutDirection: state.layoutDirection,
+    showLabels: state.showLabels,
+    founderId: state.founderId,
+    calendarDisplay: state.calendarDisplay,
+    nameDisplay: state.nameDisplay,
+    collapsed: state.collapsed,
+  };
+}
+
+/**
+ * Returns true if any persisted field changed. Redux keeps references of
+ * untouched fields stable, so a shallow comparison is enough.
+ */
+export function hasPersistedChanges(
+  previous: PersistedTreeState,
+  next: PersistedTreeState
+): boolean {
+  return (Object.keys(next) as (keyof PersistedTreeState)[]).some(
+    (key) => previous[key] !== next[key]
+  );
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") {
+      reject(new Error("IndexedDB is not available in this environment."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request against the drafts store and closes the connection.
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result as T);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Loads the local draft, or null if there is none.
+ */
+export async function loadDraft(): Promise<StoredDraft | null> {
+  const draft = await withStore<StoredDraft | undefined>("readonly", (store) =>
+    store.get(DRAFT_KEY)
+  );
+  return draft ?? null;
+}
+
+/**
+ * Writes the local draft, replacing any previous one.
+ */
+export async function saveDraft(
+  state: PersistedTreeState,
+  library: TreeLibraryState
+): Promise<void> {
+  const draft: StoredDraft = { state, library, savedAt: Date.now() };
+  await withStore("readwrite", (store) => store.put(draft, DRAFT_KEY));
+}
+
+/**
+ * Deletes the local draft.
+ */
+export async function clearDraft(): Promise<void> {
+  await withStore("readwrite", (store) => store.delete(DRAFT_KEY));
+}
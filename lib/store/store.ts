@@ -1,9 +1,11 @@
 import { configureStore } from "@reduxjs/toolkit";
 import treeReducer from "./treeSlice";
+import libraryReducer from "./librarySlice";
 
 export const store = configureStore({
   reducer: {
     tree: treeReducer,
+    library: libraryReducer,
   },
 });
 
@@ -3,8 +3,40 @@
  * This includes the tree data, layout information, and undo/redo history.
  */
 import { createSlice, PayloadAction } from "@reduxjs/toolkit";
-import { TreeState, FamilyMember, RelationshipConnection } from "../types";
-import { calculateTree } from "../utils/CalculateTree";
+import {
+  TreeState,
+  FamilyMember,
+  RelationshipConnection,
+  PersistedTreeState,
+  LayoutDirection,
+  TreeNodeData,
+  ViewMode,
+  LineageFilter,
+  CalendarDisplay,
+  NameDisplay,
+} from "../types";
+import {
+  calculateTree,
+  CalculateTreeParams,
+  LARGE_TREE_THRESHOLD,
+} from "../utils/CalculateTree";
+import {
+  createFamilyLayoutCache,
+  withMemberData,
+} from "../utils/layoutCache";
+import {
+  getCollapseToGeneration,
+  getHiddenBranches,
+  NO_COLLAPSED_BRANCHES,
+} from "../utils/collapsedBranches";
+import { getLineage } from "../utils/lineage";
+import { getTreeGenerations } from "../utils/generations";
+import { getSpouseIds } from "../utils/relationshipHelpers";
+import { DEFAULT_HOURGLASS_DEPTH } from "../utils/hourglass";
+import { upgradeLegacyDates } from "../utils/familyDataFormat";
+import type { IntegrityFix } from "../utils/integrityCheck";
+import { mergeMemberRecords, MergeChoices } from "../utils/duplicates";
+import { selectPersistedState } from "./persistence";
 
 /**
  * The initial state of the tree editor.
@@ -20,8 +52,9 @@ const initialState: TreeState = {
   horizontalSpacing: 2.2, // Visual horizontal spacing multiplier
   verticalSpacing: 1.8, // Visual vertical spacing multiplier
   showSpouses: true,
-  viewMode: "full", // "full" or "focus" (3-level view)
+  viewMode: "full", // "full", "focus" (3-level view), "fan" (ancestor fan chart) or "hourglass"
   focusPersonId: null, // For 3-level focus view
+  hourglassDepth: DEFAULT_HOURGLASS_DEPTH, // Generations above and below in the hourglass view
   // Visual appearance settings
   cardWidth: 160,
   cardHeight: 90,
@@ -29,6 +62,8 @@ const initialState: TreeState = {
   femaleColor: "hsl(var(--female-color))",
   linkColor: "hsl(var(--link-color))",
   lineShape: "curved",
+  layoutDirection: "top-to-bottom",
+  layoutDirectionChosen: false,
   // Label visibility toggles
   showLabels: {
     name: true,
@@ -36,11 +71,27 @@ const initialState: TreeState = {
     deathYear: true,
     spouse: true,
     genderIcon: true,
+    generation: false,
   },
+  founderId: null, // Counted as generation 1; topmost ancestor when null
+  calendarDisplay: "gregorian", // Calendar dates are shown in
+  nameDisplay: "short", // Names on the cards as entered, as nasab or with kunya
+  collapsed: NO_COLLAPSED_BRANCHES, // Branches folded away in the tree view
+  lineageFilter: null, // Shows only one person's lineage when set
   past: [], // History stack for undo
   future: [], // History stack for redo
+  layoutWorkerReady: false, // A Web Worker is available for large layouts
+  layoutPending: false, // A large layout was handed to the worker
+  layoutRequestId: 0, // Identifies the newest worker layout request
 };
 
+/**
+ * Returns the data and visual settings of a brand-new, empty tree.
+ */
+export function getDefaultPersistedState(): PersistedTreeState {
+  return selectPersistedState(initialState);
+}
+
 /**
  * The main Redux slice for the tree editor.
  */
@@ -61,23 +112,13 @@ const treeSlice = createSlice({
       state.past.push({
         members: state.members,
         relationships: state.relationships,
-        tree: state.tree,
       });
       if (state.past.length > 50) state.past.shift();
       state.future = [];
       state.members = action.payload.members;
       state.relationships = action.payload.relationships;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -86,16 +127,7 @@ const treeSlice = createSlice({
     updateMainId(state, action: PayloadAction<string>) {
       state.mainId = action.payload;
       if (Object.keys(state.members).length > 0) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -104,16 +136,7 @@ const treeSlice = createSlice({
      */
     recalculateTree(state) {
       if (!state.mainId) return;
-      state.tree = calculateTree({
-        members: state.members,
-        relationships: state.relationships,
-        mainId: state.mainId,
-        nodeSeparation: state.nodeSeparation,
-        levelSeparation: state.levelSeparation,
-        showSpouses: state.showSpouses,
-        viewMode: state.viewMode,
-        focusPersonId: state.focusPersonId,
-      });
+      relayout(state);
     },
     /**
      * Sets the ID of the node that is currently in focus (e.g., selected).
@@ -127,16 +150,7 @@ const treeSlice = createSlice({
     setNodeSeparation(state, action: PayloadAction<number>) {
       state.nodeSeparation = action.payload;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -145,16 +159,7 @@ const treeSlice = createSlice({
     setLevelSeparation(state, action: PayloadAction<number>) {
       state.levelSeparation = action.payload;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -166,16 +171,7 @@ const treeSlice = createSlice({
       const baseNodeSeparation = 200; // Base separation
       state.nodeSeparation = baseNodeSeparation * state.horizontalSpacing;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -187,16 +183,7 @@ const treeSlice = createSlice({
       const baseLevelSeparation = 120; // Base separation
       state.levelSeparation = baseLevelSeparation * state.verticalSpacing;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -205,34 +192,17 @@ const treeSlice = createSlice({
     setShowSpouses(state, action: PayloadAction<boolean>) {
       state.showSpouses = action.payload;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
-     * Sets the view mode (full or focus) and recalculates the tree.
+     * Sets the view mode (full, focus, fan chart or hourglass) and
+     * recalculates the tree.
      */
-    setViewMode(state, action: PayloadAction<"full" | "focus">) {
+    setViewMode(state, action: PayloadAction<ViewMode>) {
       state.viewMode = action.payload;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -240,20 +210,29 @@ const treeSlice = createSlice({
      */
     setFocusPerson(state, action: PayloadAction<string | null>) {
       state.focusPersonId = action.payload;
-      if (action.payload) {
+      // The fan chart and hourglass stay open and re-root on the chosen person
+      if (
+        action.payload &&
+        state.viewMode !== "fan" &&
+        state.viewMode !== "hourglass"
+      ) {
         state.viewMode = "focus";
       }
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
+      }
+    },
+    /**
+     * Sets how many generations of ancestors and/or descendants the
+     * hourglass view shows.
+     */
+    setHourglassDepth(
+      state,
+      action: PayloadAction<Partial<TreeState["hourglassDepth"]>>
+    ) {
+      state.hourglassDepth = { ...state.hourglassDepth, ...action.payload };
+      if (state.mainId && state.viewMode === "hourglass") {
+        relayout(state);
       }
     },
     /**
@@ -263,7 +242,6 @@ const treeSlice = createSlice({
       state.past.push({
         members: state.members,
         relationships: state.relationships,
-        tree: state.tree,
       });
       if (state.past.length > 50) state.past.shift();
       state.future = [];
@@ -279,13 +257,13 @@ const treeSlice = createSlice({
         {
           members: state.members,
           relationships: state.relationships,
-          tree: state.tree,
         },
         ...state.future,
       ].slice(0, 50);
       state.members = previous.members;
       state.relationships = previous.relationships;
-      state.tree = previous.tree;
+      state.layoutPending = false;
+      if (state.mainId) relayout(state);
     },
     /**
      * Moves forward to the next state from the 'future' stack.
@@ -299,12 +277,82 @@ const treeSlice = createSlice({
         {
           members: state.members,
           relationships: state.relationships,
-          tree: state.tree,
         },
       ].slice(-50);
       state.members = next.members;
       state.relationships = next.relationships;
-      state.tree = next.tree;
+      state.layoutPending = false;
+      if (state.mainId) relayout(state);
+    },
+    /**
+     * Marks whether a layout worker is running. When it goes away with a
+     * layout still pending, the layout is calculated here instead.
+     */
+    setLayoutWorkerReady(state, action: PayloadAction<boolean>) {
+      state.layoutWorkerReady = action.payload;
+      if (!action.payload && state.layoutPending && state.mainId) {
+        relayout(state);
+      }
+    },
+    /**
+     * Applies a layout calculated by the worker, unless a newer request has
+     * been made or the pending layout was dropped in the meantime.
+     */
+    applyWorkerLayout(
+      state,
+      action: PayloadAction<{ requestId: number; tree: TreeNodeData[] }>
+    ) {
+      if (
+        !state.layoutPending ||
+        action.payload.requestId !== state.layoutRequestId
+      ) {
+        return;
+      }
+      state.layoutPending = false;
+      // Members edited while the worker was busy keep their new details
+      state.tree = action.payload.tree.map((node) =>
+        state.members[node.id]
+          ? withMemberData(node, state.members[node.id])
+          : node
+      );
+    },
+    /**
+     * Replaces the data and visual settings, either from a restored local
+     * draft or when switching trees. History starts fresh so undo never
+     * crosses into another tree's edits.
+     */
+    restoreDraft(state, action: PayloadAction<PersistedTreeState>) {
+      Object.assign(state, action.payload);
+      // Drafts saved while dates were bare years
+      const { members, relationships } = upgradeLegacyDates(
+        action.payload.members,
+        action.payload.relationships
+      );
+      state.members = members;
+      state.relationships = relationships;
+      // Drafts saved before layout directions existed
+      state.layoutDirection = action.payload.layoutDirection ?? "top-to-bottom";
+      state.layoutDirectionChosen = true;
+      state.collapsed = action.payload.collapsed ?? NO_COLLAPSED_BRANCHES;
+      state.founderId = action.payload.founderId ?? null;
+      state.calendarDisplay = action.payload.calendarDisplay ?? "gregorian";
+      state.nameDisplay = action.payload.nameDisplay ?? "short";
+      state.showLabels = {
+        ...initialState.showLabels,
+        ...action.payload.showLabels,
+      };
+      state.nodeSeparation = state.cardWidth * state.horizontalSpacing;
+      state.levelSeparation = state.cardHeight * state.verticalSpacing;
+      state.focusNodeId = null;
+      state.viewMode = "full";
+      state.focusPersonId = null;
+      state.lineageFilter = null;
+      state.past = [];
+      state.future = [];
+      // Clear the previous tree's layout in case this one is laid out in
+      // the worker
+      state.tree = [];
+      if (state.mainId) relayout(state);
     },
     /**
      * Add a new member.
@@ -313,17 +361,27 @@ const treeSlice = createSlice({
       state.past.push({
         members: state.members,
         relationships: state.relationships,
-        tree: state.tree,
       });
       if (state.past.length > 50) state.past.shift();
       state.future = [];
       state.members[action.payload.id] = action.payload;
+      if (state.mainId) relayout(state);
     },
     /**
-     * Update a member.
+     * Update a member. Unless a field the layout reads changed, the cards
+     * are refreshed in place.
      */
     updateMember(state, action: PayloadAction<FamilyMember>) {
-      state.members[action.payload.id] = action.payload;
+      const member = action.payload;
+      const previous = state.members[member.id];
+      state.members[member.id] = member;
+      if (changesLayout(previous, member)) {
+        if (state.mainId) relayout(state);
+        return;
+      }
+      state.tree = state.tree.map((node) =>
+        node.id === member.id ? withMemberData(node, member) : node
+      );
     },
     /**
      * Delete a member and all relationships involving them.
@@ -337,12 +395,25 @@ const treeSlice = createSlice({
       if (state.mainId === memberId) {
         state.mainId = Object.keys(state.members)[0] || "";
       }
+      state.collapsed.descendants = state.collapsed.descendants.filter(
+        (id) => id !== memberId
+      );
+      state.collapsed.ancestors = state.collapsed.ancestors.filter(
+        (id) => id !== memberId
+      );
+      if (state.lineageFilter?.rootId === memberId) {
+        state.lineageFilter = null;
+      }
+      if (state.founderId === memberId) state.founderId = null;
+      if (state.mainId) relayout(state);
+      else state.tree = [];
     },
     /**
      * Add a relationship.
      */
     addRelationship(state, action: PayloadAction<RelationshipConnection>) {
       state.relationships.push(action.payload);
+      if (state.mainId) relayout(state);
     },
     /**
      * Remove a relationship by id.
@@ -351,6 +422,7 @@ const treeSlice = createSlice({
       state.relationships = state.relationships.filter(
         (rel) => rel.id !== action.payload.id
       );
+      if (state.mainId) relayout(state);
     },
     /**
      * Placeholder for future relationship toggling logic.
@@ -434,16 +506,7 @@ const treeSlice = createSlice({
 
       // Recalculate tree after relationship modification
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -454,16 +517,7 @@ const treeSlice = createSlice({
       // Optionally recalculate nodeSeparation based on new card width
       state.nodeSeparation = state.cardWidth * state.horizontalSpacing;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -474,16 +528,7 @@ const treeSlice = createSlice({
       // Optionally recalculate levelSeparation based on new card height
       state.levelSeparation = state.cardHeight * state.verticalSpacing;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
       }
     },
     /**
@@ -491,97 +536,193 @@ const treeSlice = createSlice({
      */
     setMaleColor(state, action: PayloadAction<string>) {
       state.maleColor = action.payload;
-      if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
-      }
     },
     /**
      * Sets the female color.
      */
     setFemaleColor(state, action: PayloadAction<string>) {
       state.femaleColor = action.payload;
-      if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
-      }
     },
     /**
      * Sets the link color.
      */
     setLinkColor(state, action: PayloadAction<string>) {
       state.linkColor = action.payload;
-      if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
-      }
     },
     /**
      * Sets the line shape.
      */
     setLineShape(state, action: PayloadAction<"straight" | "curved">) {
       state.lineShape = action.payload;
+    },
+    /**
+     * Sets the layout direction and recalculates the tree.
+     */
+    setLayoutDirection(state, action: PayloadAction<LayoutDirection>) {
+      state.layoutDirection = action.payload;
+      state.layoutDirectionChosen = true;
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
+      }
+    },
+    /**
+     * Applies the site's default layout direction, unless the user has
+     * chosen one or a saved one was loaded.
+     */
+    applyDefaultLayoutDirection(state, action: PayloadAction<LayoutDirection>) {
+      if (
+        state.layoutDirectionChosen ||
+        state.layoutDirection === action.payload
+      ) {
+        return;
+      }
+      state.layoutDirection = action.payload;
+      if (state.mainId) {
+        relayout(state);
       }
     },
     /**
-     * Sets the visibility of a specific label type.
+     * Sets the calendar dates are shown in. Display only; the layout is kept.
+     */
+    setCalendarDisplay(state, action: PayloadAction<CalendarDisplay>) {
+      state.calendarDisplay = action.payload;
+    },
+    /**
+     * Sets how names are shown on the cards. Display only; the layout is kept.
+     */
+    setNameDisplay(state, action: PayloadAction<NameDisplay>) {
+      state.nameDisplay = action.payload;
+    },
+    /**
+     * Sets the visibility of a specific label type. Like the colors and line
+     * shape, labels only change how cards are drawn, so the layout is kept.
      */
     setShowLabel(
       state,
       action: PayloadAction<{
-        labelType: "name" | "birthYear" | "deathYear" | "spouse" | "genderIcon";
+        labelType: keyof TreeState["showLabels"];
         visible: boolean;
       }>
     ) {
       const { labelType, visible } = action.payload;
       state.showLabels[labelType] = visible;
-      if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+    },
+    /**
+     * Folds or unfolds a person's descendants or ancestors. Unfolding
+     * descendants also unfolds the spouses', since they share the children.
+     */
+    toggleCollapsedBranch(
+      state,
+      action: PayloadAction<{
+        personId: string;
+        branch: "descendants" | "ancestors";
+      }>
+    ) {
+      const { personId, branch } = action.payload;
+      const ids = state.collapsed[branch];
+      if (ids.includes(personId)) {
+        const spouseIds =
+          branch === "descendants"
+            ? getSpouseIds(personId, state.relationships)
+            : [];
+        state.collapsed[branch] = ids.filter(
+          (id) => id !== personId && !spouseIds.includes(id)
+        );
+      } else {
+        ids.push(personId);
       }
+      if (state.mainId) relayout(state);
+    },
+    /**
+     * Collapses every branch below the first `generationCount` generations.
+     */
+    collapseToGeneration(state, action: PayloadAction<number>) {
+      state.collapsed.descendants = getCollapseToGeneration(
+        state.members,
+        state.relationships,
+        getTreeGenerations(
+          state.members,
+          state.relationships,
+          state.founderId,
+          state.mainId
+        ),
+        action.payload
+      );
+      if (state.mainId) relayout(state);
+    },
+    /**
+     * Shows only the lineage of one person, or everyone again when null.
+     */
+    setLineageFilter(state, action: PayloadAction<LineageFilter | null>) {
+      state.lineageFilter = action.payload;
+      if (state.mainId) relayout(state);
+    },
+    /**
+     * Chooses the founding ancestor generations are counted from, or goes
+     * back to the topmost ancestor of the main person when null.
+     */
+    setFounder(state, action: PayloadAction<string | null>) {
+      state.founderId = action.payload;
+      if (state.mainId) relayout(state);
+    },
+    /**
+     * Unfolds every collapsed branch.
+     */
+    expandAllBranches(state) {
+      state.collapsed = NO_COLLAPSED_BRANCHES;
+      if (state.mainId) relayout(state);
+    },
+    /**
+     * Makes sure a member is drawn, e.g. after picking them in the search:
+     * drops a lineage filter that leaves them out and unfolds the branches
+     * that hide them. The fan chart, hourglass and focus view also re-root
+     * on them.
+     */
+    revealMember(state, action: PayloadAction<string>) {
+      const personId = action.payload;
+      if (
+        !state.mainId ||
+        !state.members[personId] ||
+        state.tree.some((node) => node.id === personId)
+      ) {
+        return;
+      }
+      if (state.viewMode !== "full") state.focusPersonId = personId;
+      const { lineageFilter } = state;
+      if (
+        lineageFilter &&
+        !getLineage(
+          state.members,
+          state.relationships,
+          lineageFilter.rootId,
+          lineageFilter.mode
+        ).memberIds.has(personId)
+      ) {
+        state.lineageFilter = null;
+      }
+      // Unfold the branches hiding them one at a time, as they can nest
+      let hiddenBy = getHiddenBranches(
+        state.members,
+        state.relationships,
+        state.collapsed
+      ).hiddenBy.get(personId);
+      while (hiddenBy) {
+        const collapserId = hiddenBy;
+        state.collapsed = {
+          descendants: state.collapsed.descendants.filter(
+            (id) => id !== collapserId
+          ),
+          ancestors: state.collapsed.ancestors.filter(
+            (id) => id !== collapserId
+          ),
+        };
+        hiddenBy = getHiddenBranches(
+          state.members,
+          state.relationships,
+          state.collapsed
+        ).hiddenBy.get(personId);
+      }
+      relayout(state);
     },
     /**
      * Fix relationship inconsistencies in RelationshipConnection[]
@@ -601,17 +742,70 @@ const treeSlice = createSlice({
       });
       // Recalculate tree after fixing inconsistencies
       if (state.mainId) {
-        state.tree = calculateTree({
-          members: state.members,
-          relationships: state.relationships,
-          mainId: state.mainId,
-          nodeSeparation: state.nodeSeparation,
-          levelSeparation: state.levelSeparation,
-          showSpouses: state.showSpouses,
-          viewMode: state.viewMode,
-          focusPersonId: state.focusPersonId,
-        });
+        relayout(state);
+      }
+    },
+    /**
+     * Applies a fix suggested by the integrity analyzer: removes the listed
+     * relationships and adds the missing parent links.
+     */
+    applyIntegrityFix(state, action: PayloadAction<IntegrityFix>) {
+      const { removeRelationshipIds, addParentLinks } = action.payload;
+      state.relationships = state.relationships.filter(
+        (rel) => !removeRelationshipIds.includes(rel.id)
+      );
+      addParentLinks.forEach(({ parentId, childId }) => {
+        if (!state.members[parentId] || !state.members[childId]) return;
+        addRelationshipToState(
+          state,
+          createRelationshipObject(parentId, childId, "parent", false)
+        );
+      });
+      if (state.mainId) {
+        relayout(state);
+      }
+    },
+    /**
+     * Merges a member entered twice into the one kept: the chosen fields
+     * are copied over, the duplicate's relationships move to the survivor
+     * and anything that pointed at the duplicate now points at it.
+     */
+    mergeMembers(
+      state,
+      action: PayloadAction<{
+        survivorId: string;
+        duplicateId: string;
+        choices: MergeChoices;
+      }>
+    ) {
+      const { survivorId, duplicateId, choices } = action.payload;
+      if (!state.members[survivorId] || !state.members[duplicateId]) return;
+      const merged = mergeMemberRecords(
+        state.members,
+        state.relationships,
+        survivorId,
+        duplicateId,
+        choices
+      );
+      state.members = merged.members;
+      state.relationships = merged.relationships;
+      const repoint = (id: string) => (id === duplicateId ? survivorId : id);
+      state.mainId = repoint(state.mainId);
+      if (state.founderId) state.founderId = repoint(state.founderId);
+      if (state.focusNodeId) state.focusNodeId = repoint(state.focusNodeId);
+      if (state.focusPersonId) {
+        state.focusPersonId = repoint(state.focusPersonId);
+      }
+      if (state.lineageFilter) {
+        state.lineageFilter.rootId = repoint(state.lineageFilter.rootId);
       }
+      state.collapsed = {
+        descendants: Array.from(
+          new Set(state.collapsed.descendants.map(repoint))
+        ),
+        ancestors: Array.from(new Set(state.collapsed.ancestors.map(repoint))),
+      };
+      if (state.mainId) relayout(state);
     },
     addRelative: {
       reducer(
@@ -659,16 +853,7 @@ const treeSlice = createSlice({
         }
         // Recalculate tree
         if (state.mainId) {
-          state.tree = calculateTree({
-            members: state.members,
-            relationships: state.relationships,
-            mainId: state.mainId,
-            nodeSeparation: state.nodeSeparation,
-            levelSeparation: state.levelSeparation,
-            showSpouses: state.showSpouses,
-            viewMode: state.viewMode,
-            focusPersonId: state.focusPersonId,
-          });
+          relayout(state);
         }
       },
       prepare(payload: {
@@ -683,6 +868,77 @@ const treeSlice = createSlice({
 });
 
 // --- Helper Functions ---
+/**
+ * The layout inputs taken from the current state.
+ */
+export function selectLayoutParams(state: TreeState): CalculateTreeParams {
+  return {
+    members: state.members,
+    relationships: state.relationships,
+    mainId: state.mainId,
+    nodeSeparation: state.nodeSeparation,
+    levelSeparation: state.levelSeparation,
+    layoutDirection: state.layoutDirection,
+    showSpouses: state.showSpouses,
+    viewMode: state.viewMode,
+    focusPersonId: state.focusPersonId,
+    hourglassDepth: state.hourglassDepth,
+    collapsed: state.collapsed,
+    lineageFilter: state.lineageFilter,
+    founderId: state.founderId,
+  };
+}
+
+/**
+ * Member fields the layout reads. Gender places parents in the fan chart
+ * and hourglass, decides paternal and maternal lineages and picks the
+ * default founder the generations count from.
+ */
+const LAYOUT_FIELDS: (keyof FamilyMember)[] = ["gender"];
+
+/**
+ * Whether an edit of a member can move anyone or change their generation.
+ */
+function changesLayout(
+  previous: FamilyMember | undefined,
+  member: FamilyMember
+): boolean {
+  return (
+    !previous ||
+    LAYOUT_FIELDS.some((field) => previous[field] !== member[field])
+  );
+}
+
+/**
+ * Family layouts reused between relayouts. There is one cache for the
+ * editor, shared by every tree in the library; its keys cover all a family's
+ * layout depends on, so a tree never picks up another tree's positions.
+ * Only positions that the same input would produce again are kept, so
+ * reducers stay deterministic.
+ */
+const familyLayoutCache = createFamilyLayoutCache();
+
+/**
+ * Recalculates the tree layout. Large trees are handed to the layout worker
+ * when one is running (see useLayoutWorker): the current layout stays on
+ * screen and the request id is bumped so the worker picks the job up.
+ */
+function relayout(state: TreeState) {
+  if (
+    state.layoutWorkerReady &&
+    Object.keys(state.members).length > LARGE_TREE_THRESHOLD
+  ) {
+    state.layoutPending = true;
+    state.layoutRequestId += 1;
+    return;
+  }
+  state.layoutPending = false;
+  state.tree = calculateTree({
+    ...selectLayoutParams(state),
+    layoutCache: familyLayoutCache,
+  });
+}
+
 function createRelationshipObject(
   fromId: string,
   toId: string,
@@ -752,15 +1008,29 @@ export const {
   setShowSpouses,
   setViewMode,
   setFocusPerson,
+  setHourglassDepth,
   setCardWidth,
   setCardHeight,
   setMaleColor,
   setFemaleColor,
   setLinkColor,
   setLineShape,
+  setLayoutDirection,
+  applyDefaultLayoutDirection,
   setShowLabel,
+  setCalendarDisplay,
+  setNameDisplay,
+  toggleCollapsedBranch,
+  collapseToGeneration,
+  expandAllBranches,
+  revealMember,
+  setLineageFilter,
+  setFounder,
   undo,
   redo,
+  restoreDraft,
+  setLayoutWorkerReady,
+  applyWorkerLayout,
   toggleAllRels,
   saveState,
   addMember,
@@ -770,6 +1040,8 @@ export const {
   removeRelationship,
   modifyRelationship,
   fixRelationshipInconsistencies,
+  applyIntegrityFix,
+  mergeMembers,
   addRelative,
 } = treeSlice.actions;
 
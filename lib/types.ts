@@ -1,15 +1,72 @@
 // Types for the tree editor system
 
+/**
+ * How sure a date is. "between" dates run from the date to `end`.
+ */
+export type DatePrecision = "exact" | "about" | "before" | "after" | "between";
+
+/**
+ * A calendar date that may be known only to the month or the year.
+ */
+export interface DateParts {
+  year: number;
+  month?: number; // 1-12
+  day?: number;
+}
+
+/**
+ * The calendars dates can be recorded in.
+ */
+export type Calendar = "gregorian" | "hijri";
+
+/**
+ * Which calendar dates are shown in: either one, or both side by side.
+ */
+export type CalendarDisplay = Calendar | "both";
+
+/**
+ * @interface FamilyDate
+ * @description A possibly approximate date, e.g. "about 1890" or
+ * "between 1890 and 1895", with the wording of the source it came from.
+ * The parts are always Gregorian; a date recorded in the Hijri calendar
+ * keeps the Hijri parts as entered in `hijri`.
+ */
+export interface FamilyDate extends DateParts {
+  precision: DatePrecision;
+  end?: DateParts; // Only for "between"
+  original?: string; // Free text as written in the source
+  hijri?: DateParts & { end?: DateParts }; // Only for dates recorded in Hijri
+}
+
+/**
+ * @interface NameParts
+ * @description The parts of an Arabic name. The nasab (the chain of
+ * fathers' names) is not stored but built from the paternal line.
+ */
+export interface NameParts {
+  given?: string; // Ism, e.g. "محمد"
+  kunya?: string; // e.g. "أبو أحمد"
+  laqab?: string; // Honorific or nickname
+  familyName?: string; // Family or tribe, e.g. "آل سعود"
+}
+
+/**
+ * How names are shown on the tree cards: the name as entered, the full
+ * nasab, or the name with the kunya.
+ */
+export type NameDisplay = "short" | "nasab" | "kunya";
+
 /**
  * @interface FamilyMember
  * @description Represents a single person in the family (no relationship arrays).
  */
 export interface FamilyMember {
   id: string;
-  name: string;
+  name: string; // Short name shown by default
+  nameParts?: NameParts;
   gender: "male" | "female";
-  birth_year: number;
-  death_year?: number;
+  birth?: FamilyDate;
+  death?: FamilyDate;
   occupation?: string;
   birthplace?: string;
   notes?: string;
@@ -36,6 +93,34 @@ export interface TreeNodeData
   isPlaceholder?: boolean;
   type?: "parent" | "spouse" | "child";
   targetId?: string;
+  fanArc?: FanArc; // Segment geometry when laid out as a fan chart
+  hiddenDescendants?: number; // People folded away below a collapsed node
+  hiddenAncestors?: number; // People folded away above a collapsed node
+  lineageStub?: number; // Children left out by the lineage filter
+  generation?: number; // Counted from the founding ancestor, who is 1
+}
+
+/**
+ * @interface CollapsedBranches
+ * @description People whose descendants or ancestors are folded away in the
+ * tree view.
+ */
+export interface CollapsedBranches {
+  descendants: string[];
+  ancestors: string[];
+}
+
+/**
+ * @interface FanArc
+ * @description A person's segment in the fan chart. Angles are in radians,
+ * 0 at twelve o'clock and increasing clockwise, as used by d3.arc.
+ */
+export interface FanArc {
+  generation: number;
+  startAngle: number;
+  endAngle: number;
+  innerRadius: number;
+  outerRadius: number;
 }
 
 export interface TreeData {
@@ -44,6 +129,39 @@ export interface TreeData {
   mainId: string;
 }
 
+/**
+ * Direction in which generations follow each other. The first two are
+ * vertical layouts, the last two horizontal ones.
+ */
+export type LayoutDirection =
+  | "top-to-bottom"
+  | "bottom-to-top"
+  | "left-to-right"
+  | "right-to-left";
+
+/**
+ * How the tree is shown: everyone, three levels around the focus person,
+ * the focus person's ancestors as a fan chart, or an hourglass of their
+ * ancestors above and descendants below.
+ */
+export type ViewMode = "full" | "focus" | "fan" | "hourglass";
+
+/**
+ * Which descendants a lineage filter keeps: all of them, or only those
+ * descended through fathers ("patrilineal", the nasab) or mothers
+ * ("matrilineal").
+ */
+export type LineageMode = "descendants" | "patrilineal" | "matrilineal";
+
+/**
+ * @interface LineageFilter
+ * @description Limits the tree to the lineage of `rootId`.
+ */
+export interface LineageFilter {
+  mode: LineageMode;
+  rootId: string;
+}
+
 export interface TreeState {
   /**
    * All family members, keyed by ID.
@@ -65,8 +183,11 @@ export interface TreeState {
   horizontalSpacing: number;
   verticalSpacing: number;
   showSpouses: boolean;
-  viewMode: "full" | "focus";
+  // "fan" and "hourglass" are drawn around the focus person (or main person)
+  viewMode: ViewMode;
   focusPersonId: string | null;
+  // Generations shown above and below the person in the hourglass view
+  hourglassDepth: { ancestors: number; descendants: number };
   // Visual appearance settings
   cardWidth: number;
   cardHeight: number;
@@ -74,6 +195,11 @@ export interface TreeState {
   femaleColor: string;
   linkColor: string;
   lineShape: "straight" | "curved";
+  // Where the root generation sits and which way descendants grow
+  layoutDirection: LayoutDirection;
+  // Set once the user picks a direction or a saved one is loaded; the
+  // site's default direction only applies until then
+  layoutDirectionChosen: boolean;
   // Label visibility toggles
   showLabels: {
     name: boolean;
@@ -81,17 +207,77 @@ export interface TreeState {
     deathYear: boolean;
     spouse: boolean;
     genderIcon: boolean;
+    generation: boolean;
   };
+  // Member counted as generation 1; the topmost ancestor of the main
+  // person when null
+  founderId: string | null;
+  // Calendar dates are shown in
+  calendarDisplay: CalendarDisplay;
+  // How names are shown on the tree cards
+  nameDisplay: NameDisplay;
+  // Branches folded away in the tree view
+  collapsed: CollapsedBranches;
+  // Only the lineage of one person is shown while set
+  lineageFilter: LineageFilter | null;
+  // Undo history keeps only the data; the layout is recalculated from it
   past: Array<{
     members: { [id: string]: FamilyMember };
     relationships: RelationshipConnection[];
-    tree: TreeNodeData[];
   }>;
   future: Array<{
     members: { [id: string]: FamilyMember };
     relationships: RelationshipConnection[];
-    tree: TreeNodeData[];
   }>;
+  // Large trees are laid out in a Web Worker when one is running. While a
+  // layout is pending the previous one stays on screen; results for anything
+  // but the newest request id are dropped.
+  layoutWorkerReady: boolean;
+  layoutPending: boolean;
+  layoutRequestId: number;
+}
+
+/**
+ * The part of the editor state that is saved as a local draft.
+ * Derived data (the `tree` layout) and the undo/redo stacks are left out.
+ */
+export type PersistedTreeState = Pick<
+  TreeState,
+  | "members"
+  | "relationships"
+  | "mainId"
+  | "cardWidth"
+  | "cardHeight"
+  | "maleColor"
+  | "femaleColor"
+  | "linkColor"
+  | "lineShape"
+  | "layoutDirection"
+  | "showLabels"
+  | "founderId"
+  | "calendarDisplay"
+  | "nameDisplay"
+  | "collapsed"
+>;
+
+/**
+ * A named tree in the workspace library.
+ */
+export interface TreeLibraryEntry {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+/**
+ * The workspace's tree library. The active tree's data lives in `TreeState`;
+ * every other tree is parked in `inactiveTrees` until it is switched to.
+ */
+export interface TreeLibraryState {
+  trees: TreeLibraryEntry[];
+  activeTreeId: string;
+  inactiveTrees: { [id: string]: PersistedTreeState };
 }
 
 /**
@@ -195,12 +381,12 @@ export interface RelationshipConnection {
 
   /**
    * Optional metadata for the relationship.
-   * - marriageYear, divorceYear for spouses.
+   * - marriage, divorce for spouses.
    * - adoptionType for parent-child.
    */
   metadata?: {
-    marriageYear?: number;
-    divorceYear?: number;
+    marriage?: FamilyDate;
+    divorce?: FamilyDate;
     adoptionType?: "biological" | "adopted" | "step";
   };
 }
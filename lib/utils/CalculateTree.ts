@@ -3,27 +3,77 @@
  * Handles complex family structures with proper positioning and collision detection.
  */
 import * as d3 from "d3";
-import { FamilyMember, TreeNodeData, RelationshipConnection } from "../types";
+import {
+  FamilyMember,
+  TreeNodeData,
+  RelationshipConnection,
+  LayoutDirection,
+  CollapsedBranches,
+  ViewMode,
+  LineageFilter,
+} from "../types";
 import {
   getParentIds,
   getChildIds,
   getSpouseIds,
-  getSiblingIds,
+  getFullSiblingIds,
+  getHalfSiblingIds,
+  getStepSiblingIds,
+  getNonStepParentIds,
+  getNonStepChildIds,
 } from "./relationshipHelpers";
+import { calculateFanChart } from "./fanChart";
+import { calculateHourglass, DEFAULT_HOURGLASS_DEPTH } from "./hourglass";
+import { orientNodes } from "./layoutDirection";
+import { calculateCompactLayout } from "./compactLayout";
+import {
+  findFamilyGroups,
+  getFamilyLayoutKeys,
+  FamilyLayoutCache,
+} from "./layoutCache";
+import { getHiddenBranches } from "./collapsedBranches";
+import { getLineage } from "./lineage";
+import { getGenerationNumbers, resolveFounderId } from "./generations";
+import { compareFamilyDates } from "./familyDate";
+import { findDuplicatesOf } from "./duplicates";
+
+/**
+ * Trees with more people than this use the compact layout, which scales
+ * linearly, and are laid out in a Web Worker when one is available.
+ */
+export const LARGE_TREE_THRESHOLD = 1000;
 
 /**
  * @interface CalculateTreeParams
  * @description Parameters for the calculateTree function (RelationshipConnection model).
  */
-interface CalculateTreeParams {
+export interface CalculateTreeParams {
   members: { [id: string]: FamilyMember };
   relationships: RelationshipConnection[];
   mainId: string;
   nodeSeparation: number;
   levelSeparation: number;
+  /** Direction generations follow each other in; ignored by the fan chart */
+  layoutDirection?: LayoutDirection;
   showSpouses: boolean;
-  viewMode?: "full" | "focus";
+  viewMode?: ViewMode;
   focusPersonId?: string | null;
+  /** Generations above and below the person in the hourglass view */
+  hourglassDepth?: { ancestors: number; descendants: number };
+  /** Branches folded away; ignored by the fan chart */
+  collapsed?: CollapsedBranches;
+  /** Only this lineage is laid out; ignored by the fan chart */
+  lineageFilter?: LineageFilter | null;
+  /**
+   * Member counted as generation 1; defaults to the topmost ancestor of
+   * `mainId`
+   */
+  founderId?: string | null;
+  /**
+   * Layouts of families kept from earlier calls; without one every family
+   * is laid out afresh
+   */
+  layoutCache?: FamilyLayoutCache;
 }
 
 interface TreeLevel {
@@ -38,18 +88,89 @@ interface FamilyGroup {
   midX: number;
 }
 
+/**
+ * Lays out the tree after applying the lineage filter and the collapsed
+ * branches. Collapsed people are marked with the number of people they hide
+ * and people whose children the lineage filter left out get a stub count.
+ * Every node gets its generation number, counted over the whole tree.
+ * The fan chart ignores all three.
+ */
+export function calculateTree(params: CalculateTreeParams): TreeNodeData[] {
+  const { relationships, collapsed, lineageFilter, founderId } = params;
+  if (params.viewMode === "fan") return layoutTree(params);
+
+  let members = params.members;
+  let mainId = params.mainId;
+  const marks = new Map<string, Partial<TreeNodeData>>();
+  const mark = (id: string, values: Partial<TreeNodeData>) =>
+    marks.set(id, { ...marks.get(id), ...values });
+  const keepOnly = (isKept: (id: string) => boolean) => {
+    const kept: { [id: string]: FamilyMember } = {};
+    Object.keys(members).forEach((id) => {
+      if (isKept(id)) kept[id] = members[id];
+    });
+    members = kept;
+  };
+
+  if (lineageFilter && members[lineageFilter.rootId]) {
+    const { memberIds, stubs } = getLineage(
+      members,
+      relationships,
+      lineageFilter.rootId,
+      lineageFilter.mode
+    );
+    keepOnly((id) => memberIds.has(id));
+    stubs.forEach((count, id) => mark(id, { lineageStub: count }));
+    if (!members[mainId]) mainId = lineageFilter.rootId;
+  }
+
+  if (
+    collapsed &&
+    (collapsed.descendants.length > 0 || collapsed.ancestors.length > 0)
+  ) {
+    const { hiddenBy, counts } = getHiddenBranches(
+      members,
+      relationships,
+      collapsed
+    );
+    keepOnly((id) => !hiddenBy.has(id));
+    counts.forEach((count, id) => mark(id, count));
+    // A hidden root hands over to the person whose branch hides it
+    for (let i = 0; hiddenBy.has(mainId) && i < hiddenBy.size; i++) {
+      mainId = hiddenBy.get(mainId)!;
+    }
+  }
+
+  const generations = getGenerationNumbers(
+    params.members,
+    relationships,
+    resolveFounderId(params.members, relationships, founderId, params.mainId)
+  );
+  generations.forEach((generation, id) => mark(id, { generation }));
+
+  if (members !== params.members && !members[mainId]) {
+    mainId = Object.keys(members)[0] ?? "";
+  }
+  return layoutTree({ ...params, members, mainId }).map((node) =>
+    marks.has(node.id) ? { ...node, ...marks.get(node.id) } : node
+  );
+}
+
 /**
  * Enhanced tree calculation that handles complex family structures
  */
-export function calculateTree({
+function layoutTree({
   members,
   relationships,
   mainId,
   nodeSeparation = 200,
   levelSeparation = 150,
+  layoutDirection = "top-to-bottom",
   showSpouses = true,
   viewMode = "full",
   focusPersonId = null,
+  hourglassDepth = DEFAULT_HOURGLASS_DEPTH,
+  layoutCache,
 }: CalculateTreeParams): TreeNodeData[] {
   if (!members || !members[mainId]) {
     console.log(
@@ -63,6 +184,39 @@ export function calculateTree({
     `[CalculateTree] Starting calculation for ${mainId} with ${dataSize} people, viewMode: ${viewMode}`
   );
 
+  // Fan chart: ancestors of the focus person in concentric rings
+  if (viewMode === "fan") {
+    const rootId =
+      focusPersonId && members[focusPersonId] ? focusPersonId : mainId;
+    return calculateFanChart({
+      members,
+      relationships,
+      rootId,
+      ringWidth: levelSeparation,
+    });
+  }
+
+  // Hourglass: ancestors above and descendants below the focus person
+  if (viewMode === "hourglass") {
+    const rootId =
+      focusPersonId && members[focusPersonId] ? focusPersonId : mainId;
+    return orientNodes(
+      calculateHourglass({
+        members,
+        relationships,
+        rootId,
+        ancestorDepth: hourglassDepth.ancestors,
+        descendantDepth: hourglassDepth.descendants,
+        nodeSeparation,
+        levelSeparation,
+        showSpouses,
+      }),
+      layoutDirection,
+      nodeSeparation,
+      levelSeparation
+    );
+  }
+
   // Handle focus view mode (3-level view)
   let filteredData = members;
   let focusId = mainId;
@@ -84,137 +238,80 @@ export function calculateTree({
     `[CalculateTree] Filtered to ${filteredDataSize} people for ${viewMode} view`
   );
 
-  // Safety check for extremely large datasets that could cause performance issues
-  if (filteredDataSize > 1000) {
-    console.warn(
-      `[CalculateTree] Large dataset detected (${filteredDataSize} people), using fallback positioning`
+  // The compact layout for large trees. It also stands in when the
+  // detailed layout below cannot be built.
+  function compactLayout(): TreeNodeData[] {
+    return orientNodes(
+      calculateCompactLayout({
+        members: filteredData,
+        relationships,
+        rootId: focusId,
+        nodeSeparation,
+        levelSeparation,
+        showSpouses,
+      }),
+      layoutDirection,
+      nodeSeparation,
+      levelSeparation
     );
-    return fallbackSimplePositioning();
   }
 
-  // Simple fallback positioning function
-  function fallbackSimplePositioning(): TreeNodeData[] {
-    console.log("[CalculateTree] Using fallback positioning");
-    const nodes: TreeNodeData[] = [];
-    let x = 0;
-    const spacing = nodeSeparation;
-
-    // Just arrange all connected nodes in a simple layout
-    const visited = new Set<string>();
-    const queue = [mainId];
-
-    while (queue.length > 0) {
-      const personId = queue.shift()!;
-      if (visited.has(personId) || !filteredData[personId]) continue;
-
-      visited.add(personId);
-      const person = filteredData[personId];
-
-      nodes.push({
-        ...person,
-        x: x,
-        y: 0,
-        children: [],
-        parents: [],
-        spouses: [],
-      });
-
-      x += spacing;
-
-      // Add connected people to queue using helpers
-      [
-        ...getChildIds(personId, relationships),
-        ...getParentIds(personId, relationships),
-        ...getSpouseIds(personId, relationships),
-      ].forEach((id) => {
-        if (!visited.has(id) && filteredData[id]) {
-          queue.push(id);
-        }
-      });
-    }
-
-    return nodes;
+  if (filteredDataSize > LARGE_TREE_THRESHOLD) {
+    console.log(
+      `[CalculateTree] Large dataset (${filteredDataSize} people), using the compact layout`
+    );
+    return compactLayout();
   }
 
   try {
-    // Step 1: Build multiple family trees to handle disconnected branches
-    const familyTrees = buildMultipleFamilyTrees(
-      members,
+    // Step 1: Split into connected families. Each one is laid out on its
+    // own, so families whose data did not change reuse their cached layout;
+    // a family with any change is laid out again as a whole.
+    const groups = findFamilyGroups(members, relationships, focusId);
+    const keys = getFamilyLayoutKeys(
+      groups,
       relationships,
-      focusId,
-      showSpouses
+      [
+        showSpouses,
+        nodeSeparation,
+        filteredData === members ? "" : focusId,
+      ].join("|")
     );
 
-    if (familyTrees.length === 0) {
-      console.warn(
-        "[CalculateTree] Could not build any family trees, using fallback"
-      );
-      return fallbackSimplePositioning();
-    }
-
     // Step 2: Position each family tree separately and combine results
     const result: TreeNodeData[] = [];
     let currentXOffset = 0;
+    let laidOutFamilies = 0;
     const treeSpacing = nodeSeparation * 3; // Space between different family trees
 
-    familyTrees.forEach((treeData, treeIndex) => {
-      console.log(
-        `[CalculateTree] Processing family tree ${treeIndex + 1}/${
-          familyTrees.length
-        }`
-      );
-
-      // Use D3 tree layout for this specific tree
-      const treeWidth = 800; // Smaller width per tree
-      const treeHeight = 800;
-
-      const tree = d3
-        .tree<any>()
-        .size([treeWidth, treeHeight])
-        .separation((a, b) => {
-          // More space between siblings than between cousins
-          return a.parent === b.parent ? 1.2 : 2.0;
-        });
-
-      const root = d3.hierarchy(treeData);
-      const treeLayout = tree(root);
-
-      // Convert D3 nodes to our format with proper positioning
-      const treeNodes: TreeNodeData[] = [];
-
-      treeLayout.each((node: any) => {
-        const person = filteredData[node.data.id];
-        if (person) {
-          // Position within this tree, then offset for multiple trees
-          const localX = node.x - treeWidth / 2;
-          const globalX = localX + currentXOffset;
-          const spacedY = node.y;
-
-          treeNodes.push({
-            ...person,
-            x: globalX,
-            y: spacedY,
-            children: [],
-            parents: [],
-            spouses: [],
-            level: node.depth,
-          });
-
-          console.log(
-            `[CalculateTree] Tree ${treeIndex}: Positioned ${person.name}: (${globalX}, ${spacedY})`
-          );
-        }
-      });
-
-      // Add spouses for this tree
-      if (showSpouses) {
-        addSpousePositions(
-          treeNodes,
+    groups.forEach((familyIds, treeIndex) => {
+      let positions = layoutCache?.get(keys[treeIndex]);
+      if (!positions) {
+        const treeNodes = layoutFamily(
+          members,
           filteredData,
           relationships,
+          familyIds,
+          showSpouses,
           nodeSeparation
         );
+        if (!treeNodes) return;
+        layoutCache?.set(keys[treeIndex], treeNodes);
+        positions = treeNodes;
       }
+      laidOutFamilies += 1;
+
+      // Offset this tree to the right of the ones before it
+      const treeNodes: TreeNodeData[] = positions.map((position) => ({
+        ...filteredData[position.id],
+        x: position.x + currentXOffset,
+        y: position.y,
+        children: [],
+        parents: [],
+        spouses: [],
+        level: position.level,
+        ...(position.isSpouse ? { isSpouse: true } : {}),
+      }));
 
       // Calculate the width of this tree for next offset
       if (treeNodes.length > 0) {
@@ -227,16 +324,23 @@ export function calculateTree({
       result.push(...treeNodes);
     });
 
+    if (laidOutFamilies === 0) {
+      console.warn(
+        "[CalculateTree] Could not build any family trees, using the compact layout"
+      );
+      return compactLayout();
+    }
+
     // Step 3: Fine-tune positions to avoid overlaps across all trees
     resolveCollisions(result, nodeSeparation);
 
     console.log(
-      `[CalculateTree] Completed: ${result.length} nodes positioned across ${familyTrees.length} family trees`
+      `[CalculateTree] Completed: ${result.length} nodes positioned across ${laidOutFamilies} family trees`
     );
-    return result;
+    return orientNodes(result, layoutDirection, nodeSeparation, levelSeparation);
   } catch (error) {
     console.error("[CalculateTree] Error during calculation:", error);
-    return fallbackSimplePositioning();
+    return compactLayout();
   }
 }
 
@@ -278,80 +382,67 @@ function getThreeLevelFamilyData(
 }
 
 /**
- * Build multiple family trees to handle disconnected family branches
- * This allows for both maternal and paternal family trees to be displayed
+ * Lays out one connected family with the D3 tree layout, centred on x = 0.
+ * Only people in `filteredData` are returned.
  */
-function buildMultipleFamilyTrees(
+function layoutFamily(
   members: { [id: string]: FamilyMember },
+  filteredData: { [id: string]: FamilyMember },
   relationships: RelationshipConnection[],
-  mainId: string,
-  showSpouses: boolean
-): any[] {
-  const allPersonIds = Object.keys(members);
-  const processedIds = new Set<string>();
-  const familyTrees: any[] = [];
-
-  // Helper function to find all connected people from a starting point
-  const findConnectedFamily = (startId: string): Set<string> => {
-    const connected = new Set<string>();
-    const queue = [startId];
-
-    while (queue.length > 0) {
-      const currentId = queue.shift()!;
-      if (connected.has(currentId) || !members[currentId]) continue;
-
-      connected.add(currentId);
-      // Add all connected relatives to queue using helpers
-      [
-        ...getChildIds(currentId, relationships),
-        ...getParentIds(currentId, relationships),
-        ...getSpouseIds(currentId, relationships),
-      ].forEach((relativeId) => {
-        if (!connected.has(relativeId) && members[relativeId]) {
-          queue.push(relativeId);
-        }
-      });
-    }
+  familyIds: string[],
+  showSpouses: boolean,
+  nodeSeparation: number
+): TreeNodeData[] | null {
+  const treeData = buildSingleFamilyTree(
+    members,
+    relationships,
+    familyIds[0],
+    familyIds
+  );
+  if (!treeData) return null;
+
+  // Use D3 tree layout for this specific tree
+  const treeWidth = 800; // Smaller width per tree
+  const treeHeight = 800;
+
+  const tree = d3
+    .tree<any>()
+    .size([treeWidth, treeHeight])
+    .separation((a, b) => {
+      // More space between siblings than between cousins
+      return a.parent === b.parent ? 1.2 : 2.0;
+    });
 
-    return connected;
-  };
+  const root = d3.hierarchy(treeData);
+  const treeLayout = tree(root);
 
-  // Start with the main person and build their connected family tree
-  if (members[mainId]) {
-    const mainFamilyIds = findConnectedFamily(mainId);
-    const mainFamilyTree = buildSingleFamilyTree(
-      members,
-      relationships,
-      mainId,
-      Array.from(mainFamilyIds)
-    );
-    if (mainFamilyTree) {
-      familyTrees.push(mainFamilyTree);
-      mainFamilyIds.forEach((id) => processedIds.add(id));
-    }
-  }
+  // Convert D3 nodes to our format with proper positioning
+  const treeNodes: TreeNodeData[] = [];
 
-  // Find any remaining disconnected families
-  allPersonIds.forEach((personId) => {
-    if (!processedIds.has(personId)) {
-      const familyIds = findConnectedFamily(personId);
-      const familyTree = buildSingleFamilyTree(
-        members,
-        relationships,
-        personId,
-        Array.from(familyIds)
-      );
-      if (familyTree) {
-        familyTrees.push(familyTree);
-        familyIds.forEach((id) => processedIds.add(id));
-      }
+  treeLayout.each((node: any) => {
+    const person = filteredData[node.data.id];
+    if (person) {
+      treeNodes.push({
+        ...person,
+        x: node.x - treeWidth / 2,
+        y: node.y,
+        children: [],
+        parents: [],
+        spouses: [],
+        level: node.depth,
+      });
     }
   });
 
+  // Add spouses for this tree
+  if (showSpouses) {
+    addSpousePositions(treeNodes, filteredData, relationships, nodeSeparation);
+  }
+
   console.log(
-    `[buildMultipleFamilyTrees] Built ${familyTrees.length} family trees`
+    `[CalculateTree] Laid out family of ${familyIds[0]}: ${treeNodes.length} nodes`
   );
-  return familyTrees;
+  return treeNodes;
 }
 
 /**
@@ -363,6 +454,8 @@ function buildSingleFamilyTree(
   rootId: string,
   familyMemberIds: string[]
 ): any | null {
+  const inFamily = new Set(familyMemberIds);
+
   // Find the actual root (person with no parents in this family group)
   const findRoot = (startId: string): string => {
     let current = startId;
@@ -371,7 +464,7 @@ function buildSingleFamilyTree(
     while (
       current &&
       !visited.has(current) &&
-      familyMemberIds.includes(current)
+      inFamily.has(current)
     ) {
       visited.add(current);
       const parentIds = getParentIds(current, relationships);
@@ -380,7 +473,7 @@ function buildSingleFamilyTree(
       }
       // Find a parent that's in our family group
       const parentInGroup = parentIds.find((parentId) =>
-        familyMemberIds.includes(parentId)
+        inFamily.has(parentId)
       );
       if (parentInGroup) {
         current = parentInGroup;
@@ -406,7 +499,7 @@ function buildSingleFamilyTree(
 
   function buildNode(personId: string, level: number = 0): any {
     const person = members[personId];
-    if (!person || !familyMemberIds.includes(personId)) return null;
+    if (!person || !inFamily.has(personId)) return null;
 
     const node: any = {
       id: personId,
@@ -417,11 +510,11 @@ function buildSingleFamilyTree(
 
     // Add children to the hierarchy (only those in this family group)
     const childIds = getChildIds(personId, relationships).filter((childId) =>
-      familyMemberIds.includes(childId)
+      inFamily.has(childId)
     );
     if (childIds.length > 0) {
       childIds.forEach((childId) => {
-        if (familyMemberIds.includes(childId) && members[childId]) {
+        if (inFamily.has(childId) && members[childId]) {
           const childNode = buildNode(childId, level + 1);
           if (childNode) {
             node.children.push(childNode);
@@ -543,13 +636,46 @@ export function getNodeDimensions() {
 /**
  * Utility functions for family relationships
  */
+const toMembers = (
+  ids: string[],
+  members: { [id: string]: FamilyMember }
+): FamilyMember[] =>
+  Array.from(new Set(ids))
+    .map((id) => members[id])
+    .filter(Boolean);
+
+/**
+ * Full siblings: explicitly linked, or sharing every known parent.
+ */
 export const getSiblings = (
   personId: string,
   members: { [id: string]: FamilyMember },
   relationships: RelationshipConnection[]
 ): FamilyMember[] => {
-  const siblingIds = getSiblingIds(personId, relationships);
-  return siblingIds.map((id) => members[id]).filter(Boolean);
+  return toMembers(getFullSiblingIds(personId, relationships), members);
+};
+
+/**
+ * Half siblings: sharing one parent while each has another of their own.
+ */
+export const getHalfSiblings = (
+  personId: string,
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): FamilyMember[] => {
+  return toMembers(getHalfSiblingIds(personId, relationships), members);
+};
+
+/**
+ * Step-siblings: children of a step-parent (a parent's spouse or a parent
+ * linked with adoptionType "step") who share no parent with the person.
+ */
+export const getStepSiblings = (
+  personId: string,
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): FamilyMember[] => {
+  return toMembers(getStepSiblingIds(personId, relationships), members);
 };
 
 export const getGrandparents = (
@@ -561,7 +687,7 @@ export const getGrandparents = (
   const grandparentIds = parentIds.flatMap((parentId) =>
     getParentIds(parentId, relationships)
   );
-  return grandparentIds.map((id) => members[id]).filter(Boolean);
+  return toMembers(grandparentIds, members);
 };
 
 export const getAuntsUncles = (
@@ -569,9 +695,13 @@ export const getAuntsUncles = (
   members: { [id: string]: FamilyMember },
   relationships: RelationshipConnection[]
 ): FamilyMember[] => {
-  const parentIds = getParentIds(personId, relationships);
-  return parentIds.flatMap((parentId) =>
-    getSiblings(parentId, members, relationships)
+  const parentIds = getNonStepParentIds(personId, relationships);
+  return toMembers(
+    parentIds.flatMap((parentId) => [
+      ...getFullSiblingIds(parentId, relationships),
+      ...getHalfSiblingIds(parentId, relationships),
+    ]),
+    members
   );
 };
 
@@ -581,16 +711,66 @@ export const getCousins = (
   relationships: RelationshipConnection[]
 ): FamilyMember[] => {
   const auntsUncles = getAuntsUncles(personId, members, relationships);
-  return auntsUncles
-    .flatMap((auntUncle) =>
-      getChildIds(auntUncle.id, relationships).map((id) => members[id])
-    )
-    .filter(Boolean);
+  return toMembers(
+    auntsUncles.flatMap((auntUncle) =>
+      getNonStepChildIds(auntUncle.id, relationships)
+    ),
+    members
+  );
+};
+
+/**
+ * Children of the person's full and half siblings.
+ */
+export const getNiecesNephews = (
+  personId: string,
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): FamilyMember[] => {
+  const siblingIds = [
+    ...getFullSiblingIds(personId, relationships),
+    ...getHalfSiblingIds(personId, relationships),
+  ];
+  return toMembers(
+    siblingIds.flatMap((siblingId) =>
+      getNonStepChildIds(siblingId, relationships)
+    ),
+    members
+  );
 };
 
-// Commented out getNiecesNephews and getInLaws for now to avoid linter errors
-// export const getNiecesNephews = () => [];
-// export const getInLaws = () => [];
+/**
+ * Relatives by marriage: the spouse's parents and siblings, the siblings'
+ * spouses and the children's spouses.
+ */
+export const getInLaws = (
+  personId: string,
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): FamilyMember[] => {
+  const spouseIds = getSpouseIds(personId, relationships);
+  const siblingIds = [
+    ...getFullSiblingIds(personId, relationships),
+    ...getHalfSiblingIds(personId, relationships),
+  ];
+  const inLawIds = [
+    ...spouseIds.flatMap((spouseId) => [
+      ...getNonStepParentIds(spouseId, relationships),
+      ...getFullSiblingIds(spouseId, relationships),
+      ...getHalfSiblingIds(spouseId, relationships),
+    ]),
+    ...siblingIds.flatMap((siblingId) =>
+      getSpouseIds(siblingId, relationships)
+    ),
+    ...getChildIds(personId, relationships).flatMap((childId) =>
+      getSpouseIds(childId, relationships)
+    ),
+  ];
+  return toMembers(
+    inLawIds.filter((id) => id !== personId && !spouseIds.includes(id)),
+    members
+  );
+};
 
 export const getExtendedFamily = (
   personId: string,
@@ -598,6 +778,7 @@ export const getExtendedFamily = (
   relationships: RelationshipConnection[]
 ): {
   siblings: FamilyMember[];
+  halfSiblings: FamilyMember[];
   grandparents: FamilyMember[];
   auntsUncles: FamilyMember[];
   cousins: FamilyMember[];
@@ -607,12 +788,13 @@ export const getExtendedFamily = (
 } => {
   return {
     siblings: getSiblings(personId, members, relationships),
+    halfSiblings: getHalfSiblings(personId, members, relationships),
     grandparents: getGrandparents(personId, members, relationships),
     auntsUncles: getAuntsUncles(personId, members, relationships),
     cousins: getCousins(personId, members, relationships),
-    niecesNephews: [],
-    inLaws: [],
-    stepSiblings: [],
+    niecesNephews: getNiecesNephews(personId, members, relationships),
+    inLaws: getInLaws(personId, members, relationships),
+    stepSiblings: getStepSiblings(personId, members, relationships),
   };
 };
 
@@ -625,15 +807,19 @@ export const validateRelationship = (
   relationshipType: string
 ): { isValid: boolean; errors: string[] } => {
   const errors: string[] = [];
+  const birthOrder =
+    person1.birth && person2.birth
+      ? compareFamilyDates(person1.birth, person2.birth)
+      : undefined;
 
-  if (relationshipType === "parent") {
-    if (person1.birth_year >= person2.birth_year) {
+  if (relationshipType === "parent" && birthOrder !== undefined) {
+    if (birthOrder >= 0) {
       errors.push("Parent cannot be born in the same year or after child");
     }
   }
 
-  if (relationshipType === "child") {
-    if (person1.birth_year <= person2.birth_year) {
+  if (relationshipType === "child" && birthOrder !== undefined) {
+    if (birthOrder <= 0) {
       errors.push("Child cannot be born in the same year or before parent");
     }
   }
@@ -644,29 +830,18 @@ export const validateRelationship = (
   };
 };
 
+/**
+ * Members who may be the same person as `newPerson`, best match first.
+ * See `findDuplicatesOf` for how pairs are scored.
+ */
 export const detectDuplicates = (
   newPerson: Partial<FamilyMember>,
-  data: { [id: string]: FamilyMember }
+  data: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[] = []
 ): FamilyMember[] => {
-  const potentialDuplicates: FamilyMember[] = [];
-
-  Object.values(data).forEach((existingPerson) => {
-    if (newPerson.name && existingPerson.name === newPerson.name) {
-      potentialDuplicates.push(existingPerson);
-    }
-
-    if (
-      newPerson.name &&
-      newPerson.birth_year &&
-      existingPerson.birth_year &&
-      Math.abs(newPerson.birth_year - existingPerson.birth_year) <= 2 &&
-      existingPerson.name.includes(newPerson.name.split(" ")[0])
-    ) {
-      potentialDuplicates.push(existingPerson);
-    }
-  });
-
-  return potentialDuplicates;
+  if (!newPerson.name) return [];
+  const person = { id: "", gender: "male", ...newPerson } as FamilyMember;
+  return findDuplicatesOf(person, data, relationships);
 };
 
 /**
@@ -1,5 +1,6 @@
 import { FamilyMember, SmartSuggestion, RelationshipConnection } from '../types';
 import { getParentIds, getChildIds, getSpouseIds, getSiblingIds } from './relationshipHelpers';
+import { getAge } from './familyDate';
 
 export class SmartSuggestionsEngine {
   /**
@@ -206,13 +207,13 @@ export class SmartSuggestionsEngine {
   private static couldBeSpouse(person1: FamilyMember, person2: FamilyMember, allData: { [id: string]: FamilyMember }, relationships: RelationshipConnection[]): boolean {
     // Validate inputs
     if (!person1 || !person2 || !person1.id || !person2.id || !allData || !relationships) return false;
-    if (typeof person1.birth_year !== 'number' || typeof person2.birth_year !== 'number') return false;
+    if (!person1.birth || !person2.birth) return false;
     
     // Different genders (for traditional marriages)
     if (person1.gender === person2.gender) return false;
     
     // Age compatibility (within reasonable range)
-    const ageDiff = Math.abs(person1.birth_year - person2.birth_year);
+    const ageDiff = Math.abs(getAge(person1.birth, person2.birth)!);
     if (ageDiff > 20) return false;
     
     // Not already married to each other
@@ -229,10 +230,10 @@ export class SmartSuggestionsEngine {
   private static couldBeParent(potentialParent: FamilyMember, potentialChild: FamilyMember, allData: { [id: string]: FamilyMember }, relationships: RelationshipConnection[]): boolean {
     // Validate inputs
     if (!potentialParent || !potentialChild || !potentialParent.id || !potentialChild.id || !allData || !relationships) return false;
-    if (typeof potentialParent.birth_year !== 'number' || typeof potentialChild.birth_year !== 'number') return false;
+    if (!potentialParent.birth || !potentialChild.birth) return false;
     
     // Age compatibility (parent should be older)
-    const ageDiff = potentialParent.birth_year - potentialChild.birth_year;
+    const ageDiff = getAge(potentialParent.birth, potentialChild.birth)!;
     if (ageDiff < 15 || ageDiff > 70) return false;
     
     // Not already in parent-child relationship
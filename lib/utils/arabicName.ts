@@ -0,0 +1,167 @@
+/**
+ * @file Arabic names built from their parts: the given name, the nasab
+ * (father and grandfather, joined by bin/bint), the family or tribe name,
+ * the kunya and the laqab. The nasab follows the paternal line recorded in
+ * the relationships, so it stays right when a father's name is corrected.
+ */
+import {
+  FamilyMember,
+  NameDisplay,
+  NameParts,
+  RelationshipConnection,
+} from "../types";
+
+/** Fathers named in a full nasab: the father and the grandfather */
+export const NASAB_DEPTH = 2;
+
+export const NAME_DISPLAYS: NameDisplay[] = ["short", "nasab", "kunya"];
+
+/** Translation keys of the name display options */
+export const NAME_DISPLAY_KEYS: { [display in NameDisplay]: string } = {
+  short: "forms.nameDisplayShort",
+  nasab: "forms.nameDisplayNasab",
+  kunya: "forms.nameDisplayKunya",
+};
+
+const NAME_PART_FIELDS: (keyof NameParts)[] = [
+  "given",
+  "kunya",
+  "laqab",
+  "familyName",
+];
+
+const ARABIC_LETTER = /[\u0600-\u06FF]/;
+
+/**
+ * Each person's father by birth. Adoptive and step fathers are left out:
+ * a nasab names the birth father.
+ */
+export function indexFathers(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): Map<string, string> {
+  const fathers = new Map<string, string>();
+  relationships.forEach((rel) => {
+    if (
+      rel.type === "parent" &&
+      !fathers.has(rel.toId) &&
+      members[rel.toId] &&
+      members[rel.fromId]?.gender === "male" &&
+      (rel.metadata?.adoptionType ?? "biological") === "biological"
+    ) {
+      fathers.set(rel.toId, rel.fromId);
+    }
+  });
+  return fathers;
+}
+
+/**
+ * Trims the name parts and drops empty ones. Returns undefined when no part
+ * is left.
+ */
+export function cleanNameParts(raw: unknown): NameParts | undefined {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+  const value = raw as { [key: string]: unknown };
+  const parts: NameParts = {};
+  NAME_PART_FIELDS.forEach((field) => {
+    const text = value[field];
+    if (typeof text === "string" && text.trim() !== "") parts[field] = text.trim();
+  });
+  return Object.keys(parts).length > 0 ? parts : undefined;
+}
+
+/**
+ * The person's own name as used in a nasab: the given name when it was
+ * recorded, otherwise the whole name.
+ */
+export function getGivenName(member: FamilyMember): string {
+  return member.nameParts?.given || member.name;
+}
+
+/**
+ * The family name of a person, or of their nearest paternal ancestor who
+ * has one, since it passes down the father's line.
+ */
+export function getFamilyName(
+  memberId: string,
+  members: { [id: string]: FamilyMember },
+  fathers: Map<string, string>
+): string | undefined {
+  const visited = new Set<string>();
+  let currentId: string | undefined = memberId;
+  while (currentId && members[currentId] && !visited.has(currentId)) {
+    const familyName = members[currentId].nameParts?.familyName;
+    if (familyName) return familyName;
+    visited.add(currentId);
+    currentId = fathers.get(currentId);
+  }
+  return undefined;
+}
+
+/**
+ * The full nasab, e.g. "محمد بن أحمد بن علي آل سعود" or
+ * "Fatima bint Ahmad bin Ali". Connectors follow the script of the name.
+ */
+export function buildNasab(
+  memberId: string,
+  members: { [id: string]: FamilyMember },
+  fathers: Map<string, string>
+): string {
+  const member = members[memberId];
+  if (!member) return "";
+  const given = getGivenName(member);
+  const isArabic = ARABIC_LETTER.test(given);
+  const words = [given];
+  let childId = memberId;
+  for (let depth = 0; depth < NASAB_DEPTH; depth++) {
+    const fatherId = fathers.get(childId);
+    if (!fatherId || fatherId === memberId) break;
+    const isDaughter = depth === 0 && member.gender === "female";
+    words.push(
+      isArabic ? (isDaughter ? "بنت" : "بن") : isDaughter ? "bint" : "bin",
+      getGivenName(members[fatherId])
+    );
+    childId = fatherId;
+  }
+  const familyName = getFamilyName(memberId, members, fathers);
+  if (familyName && !given.includes(familyName)) words.push(familyName);
+  return words.join(" ");
+}
+
+/**
+ * The name of a person as shown in the given display mode. Modes whose
+ * parts are missing fall back to the name as entered.
+ */
+export function formatMemberName(
+  memberId: string,
+  display: NameDisplay,
+  members: { [id: string]: FamilyMember },
+  fathers: Map<string, string>
+): string {
+  const member = members[memberId];
+  if (!member) return "";
+  if (display === "nasab") return buildNasab(memberId, members, fathers);
+  if (display === "kunya") {
+    const { kunya, laqab } = member.nameParts ?? {};
+    return [kunya, member.name, laqab].filter(Boolean).join(" ");
+  }
+  return member.name;
+}
+
+/**
+ * Display names of every member, for drawing the tree. Empty when names
+ * are shown as entered.
+ */
+export function getDisplayNames(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  display: NameDisplay
+): Map<string, string> {
+  const names = new Map<string, string>();
+  if (display === "short") return names;
+  const fathers = indexFathers(members, relationships);
+  Object.keys(members).forEach((id) =>
+    names.set(id, formatMemberName(id, display, members, fathers))
+  );
+  return names;
+}
@@ -0,0 +1,145 @@
+/**
+ * @file Collapsed branches of the tree view. Folding a person's descendants
+ * hides their children and everyone below them; folding their ancestors
+ * hides their parents, everyone above and the other descendants of those
+ * ancestors. Spouses who married into a hidden branch are hidden with it
+ * unless their own parents stay visible.
+ */
+import {
+  CollapsedBranches,
+  FamilyMember,
+  RelationshipConnection,
+} from "../types";
+import { indexRelationships } from "./compactLayout";
+
+export const NO_COLLAPSED_BRANCHES: CollapsedBranches = {
+  descendants: [],
+  ancestors: [],
+};
+
+type RelationshipIndex = ReturnType<typeof indexRelationships>;
+
+/**
+ * Number of people a collapsed node hides, as stored on its tree node.
+ */
+export interface HiddenCounts {
+  hiddenDescendants?: number;
+  hiddenAncestors?: number;
+}
+
+/**
+ * Everyone reached from `startIds` by repeatedly following `next`.
+ */
+function walk(startIds: string[], next: (id: string) => string[]) {
+  const reached = new Set<string>();
+  const stack = [...startIds];
+  while (stack.length > 0) {
+    next(stack.pop()!).forEach((id) => {
+      if (reached.has(id)) return;
+      reached.add(id);
+      stack.push(id);
+    });
+  }
+  return reached;
+}
+
+/**
+ * Adds the spouses who only belong to the tree through someone in `branch`.
+ */
+function addMarriedIn(branch: Set<string>, index: RelationshipIndex) {
+  Array.from(branch).forEach((id) => {
+    index.spousesOf(id).forEach((spouseId) => {
+      if (branch.has(spouseId)) return;
+      if (index.parentsOf(spouseId).every((parentId) => branch.has(parentId))) {
+        branch.add(spouseId);
+      }
+    });
+  });
+  return branch;
+}
+
+function getDescendantBranch(personId: string, index: RelationshipIndex) {
+  const branch = walk([personId], index.childrenOf);
+  branch.delete(personId);
+  return addMarriedIn(branch, index);
+}
+
+function getAncestorBranch(personId: string, index: RelationshipIndex) {
+  const ancestors = Array.from(walk([personId], index.parentsOf));
+  const branch = addMarriedIn(
+    new Set([...ancestors, ...Array.from(walk(ancestors, index.childrenOf))]),
+    index
+  );
+  // The person's own line and their spouses stay visible
+  const ownLine = walk([personId], index.childrenOf);
+  ownLine.add(personId);
+  ownLine.forEach((id) => {
+    branch.delete(id);
+    index.spousesOf(id).forEach((spouseId) => branch.delete(spouseId));
+  });
+  return branch;
+}
+
+/**
+ * Works out who the collapsed branches hide. `hiddenBy` maps each hidden
+ * person to the collapsed person who hides them; `counts` holds the badge
+ * numbers of every collapsed person.
+ */
+export function getHiddenBranches(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  collapsed: CollapsedBranches
+) {
+  const index = indexRelationships(members, relationships);
+  const hiddenBy = new Map<string, string>();
+  const counts = new Map<string, HiddenCounts>();
+  const hide = (personId: string, branch: Set<string>) =>
+    branch.forEach((id) => {
+      if (!hiddenBy.has(id)) hiddenBy.set(id, personId);
+    });
+
+  collapsed.descendants.forEach((personId) => {
+    if (!members[personId]) return;
+    const branch = getDescendantBranch(personId, index);
+    hide(personId, branch);
+    counts.set(personId, { hiddenDescendants: branch.size });
+  });
+  collapsed.ancestors.forEach((personId) => {
+    if (!members[personId]) return;
+    const branch = getAncestorBranch(personId, index);
+    hide(personId, branch);
+    counts.set(personId, {
+      ...counts.get(personId),
+      hiddenAncestors: branch.size,
+    });
+  });
+
+  return { hiddenBy, counts };
+}
+
+/**
+ * The people to collapse so that only the first `generationCount`
+ * generations stay visible: everyone in the last visible generation who has
+ * children, one per couple.
+ *
+ * @param generations - Generation numbers from `getTreeGenerations`.
+ */
+export function getCollapseToGeneration(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  generations: Map<string, number>,
+  generationCount: number
+): string[] {
+  const index = indexRelationships(members, relationships);
+  const collapsed = new Set<string>();
+
+  Object.keys(members).forEach((id) => {
+    if (generations.get(id) !== generationCount) return;
+    if (index.childrenOf(id).length === 0) return;
+    if (index.spousesOf(id).some((spouseId) => collapsed.has(spouseId))) {
+      return;
+    }
+    collapsed.add(id);
+  });
+  return Array.from(collapsed);
+}
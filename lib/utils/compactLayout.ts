@@ -0,0 +1,214 @@
+/**
+ * @file Compact layout for large trees. Uses d3's tidy tree (Reingold–Tilford
+ * with Walker's improvements as made linear by Buchheim et al.) and runs in
+ * O(people + relationships), so it stays fast for tribe-sized trees.
+ */
+import * as d3 from "d3";
+import { FamilyMember, RelationshipConnection, TreeNodeData } from "../types";
+
+/** Distance between spouse cards, in units of the node separation */
+export const SPOUSE_SPACING = 0.8;
+
+/** Extra gap between neighbours that are not siblings, in the same units */
+export const COUSIN_GAP = 0.5;
+
+interface CompactLayoutParams {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  /** Person whose family is laid out first, at the left */
+  rootId: string;
+  nodeSeparation: number;
+  levelSeparation: number;
+  showSpouses: boolean;
+}
+
+/**
+ * One slot of the tidy tree: a person together with the spouses drawn next
+ * to them, so the couple is spaced as one unit.
+ */
+interface CoupleNode {
+  id: string;
+  spouseIds: string[];
+  children: CoupleNode[];
+}
+
+/**
+ * Adjacency lists for every member, built in a single pass over the
+ * relationships instead of filtering them for each person.
+ */
+export function indexRelationships(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+) {
+  const childrenOf = new Map<string, string[]>();
+  const parentsOf = new Map<string, string[]>();
+  const spousesOf = new Map<string, string[]>();
+  const add = (map: Map<string, string[]>, key: string, value: string) => {
+    const list = map.get(key);
+    if (list) list.push(value);
+    else map.set(key, [value]);
+  };
+
+  relationships.forEach((rel) => {
+    if (!members[rel.fromId] || !members[rel.toId] || rel.fromId === rel.toId) {
+      return;
+    }
+    if (rel.type === "parent") {
+      add(childrenOf, rel.fromId, rel.toId);
+      add(parentsOf, rel.toId, rel.fromId);
+    } else if (rel.type === "spouse") {
+      add(spousesOf, rel.fromId, rel.toId);
+      add(spousesOf, rel.toId, rel.fromId);
+    }
+  });
+
+  return {
+    childrenOf: (id: string) => childrenOf.get(id) ?? [],
+    parentsOf: (id: string) => parentsOf.get(id) ?? [],
+    spousesOf: (id: string) => spousesOf.get(id) ?? [],
+  };
+}
+
+/**
+ * Lays out every member. The root's topmost ancestor starts the first tree;
+ * anyone not reached by walking down from it (in-laws' families, unrelated
+ * branches) starts a further tree to the right, lined up with the
+ * generation of a relative that is already placed.
+ */
+export function calculateCompactLayout({
+  members,
+  relationships,
+  rootId,
+  nodeSeparation,
+  levelSeparation,
+  showSpouses,
+}: CompactLayoutParams): TreeNodeData[] {
+  const { childrenOf, parentsOf, spousesOf } = indexRelationships(
+    members,
+    relationships
+  );
+  const placed = new Set<string>();
+  const levels = new Map<string, number>();
+  const result: TreeNodeData[] = [];
+  let offsetX = 0;
+
+  const findTopAncestor = (startId: string) => {
+    const seen = new Set<string>();
+    let current = startId;
+    while (!seen.has(current)) {
+      seen.add(current);
+      const parent = parentsOf(current).find((id) => !placed.has(id));
+      if (!parent) break;
+      current = parent;
+    }
+    return current;
+  };
+
+  // Generation of a new tree's root, taken from relatives already placed
+  const findStartLevel = (id: string) => {
+    const placedChild = childrenOf(id).find((childId) => levels.has(childId));
+    if (placedChild) return levels.get(placedChild)! - 1;
+    const placedSpouse = spousesOf(id).find((spouseId) => levels.has(spouseId));
+    if (placedSpouse) return levels.get(placedSpouse)!;
+    const placedParent = parentsOf(id).find((parentId) => levels.has(parentId));
+    if (placedParent) return levels.get(placedParent)! + 1;
+    return 0;
+  };
+
+  // Claims a person and their unplaced spouses, depth first and without
+  // recursion so long lines of descent cannot overflow the stack
+  const buildCoupleTree = (topId: string): CoupleNode => {
+    const claim = (id: string): CoupleNode => {
+      placed.add(id);
+      const spouseIds = spousesOf(id).filter(
+        (spouseId) => !placed.has(spouseId)
+      );
+      // Hidden spouses are claimed too, so they do not start trees of their own
+      spouseIds.forEach((spouseId) => placed.add(spouseId));
+      return { id, spouseIds: showSpouses ? spouseIds : [], children: [] };
+    };
+
+    const top = claim(topId);
+    const stack = [top];
+    while (stack.length > 0) {
+      const couple = stack.pop()!;
+      [couple.id, ...couple.spouseIds].forEach((parentId) => {
+        childrenOf(parentId).forEach((childId) => {
+          if (placed.has(childId)) return;
+          const child = claim(childId);
+          couple.children.push(child);
+          stack.push(child);
+        });
+      });
+    }
+    return top;
+  };
+
+  const halfWidth = (couple: CoupleNode) =>
+    (1 + couple.spouseIds.length * SPOUSE_SPACING) / 2;
+
+  const layoutFrom = (startId: string) => {
+    const topId = findTopAncestor(startId);
+    const startLevel = findStartLevel(topId);
+    const root = d3.hierarchy(buildCoupleTree(topId));
+    d3
+      .tree<CoupleNode>()
+      .nodeSize([1, 1])
+      .separation(
+        (a, b) =>
+          halfWidth(a.data) +
+          halfWidth(b.data) +
+          (a.parent === b.parent ? 0 : COUSIN_GAP)
+      )(root);
+
+    let minX = Infinity;
+    let maxX = -Infinity;
+    root.each((node) => {
+      minX = Math.min(minX, node.x! - halfWidth(node.data) + 0.5);
+      maxX = Math.max(maxX, node.x! + halfWidth(node.data) - 0.5);
+    });
+
+    root.each((node) => {
+      const { id, spouseIds } = node.data;
+      const level = startLevel + node.depth;
+      const y = level * levelSeparation;
+      // The couple is centred on the slot: person first, then spouses
+      const personX =
+        offsetX +
+        (node.x! - minX - (spouseIds.length * SPOUSE_SPACING) / 2) *
+          nodeSeparation;
+
+      levels.set(id, level);
+      result.push({
+        ...members[id],
+        x: personX,
+        y,
+        children: [],
+        parents: [],
+        spouses: [],
+        level,
+      });
+      spouseIds.forEach((spouseId, index) => {
+        levels.set(spouseId, level);
+        result.push({
+          ...members[spouseId],
+          x: personX + (index + 1) * SPOUSE_SPACING * nodeSeparation,
+          y,
+          children: [],
+          parents: [],
+          spouses: [],
+          level,
+          isSpouse: true,
+        });
+      });
+    });
+
+    offsetX += (maxX - minX + 1 + COUSIN_GAP * 2) * nodeSeparation;
+  };
+
+  if (members[rootId]) layoutFrom(rootId);
+  Object.keys(members).forEach((id) => {
+    if (!placed.has(id)) layoutFrom(id);
+  });
+  return result;
+}
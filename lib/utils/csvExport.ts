@@ -0,0 +1,113 @@
+/**
+ * @file CSV export of the member list, one row per person with their
+ * generation number, for spreadsheets and printed registers. Names are
+ * split into their parts with the full nasab, and dates are given in both
+ * the Gregorian and the Hijri calendar.
+ */
+import { FamilyMember, RelationshipConnection } from "../types";
+import { compareFamilyDates, formatCalendarDate } from "./familyDate";
+import { getGenerationNumbers, resolveFounderId } from "./generations";
+import { buildNasab, getFamilyName, indexFathers } from "./arabicName";
+
+const COLUMNS = [
+  "id",
+  "name",
+  "given_name",
+  "family_name",
+  "kunya",
+  "laqab",
+  "full_name",
+  "gender",
+  "birth_date",
+  "birth_date_hijri",
+  "death_date",
+  "death_date_hijri",
+  "birthplace",
+  "occupation",
+  "generation",
+] as const;
+
+/**
+ * Quotes a field when it holds a separator, quote or line break.
+ */
+function csvField(value: string | number | undefined): string {
+  const text = value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Builds the CSV text, ordered by generation and then birth date. People
+ * not related to the founder come last with an empty generation.
+ *
+ * @param members - The family members keyed by ID.
+ * @param relationships - All relationships between the members.
+ * @param founderId - Generation 1; defaults to the topmost ancestor of `mainId`.
+ * @param mainId - The main person of the tree.
+ */
+export function buildMembersCsv(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  founderId: string | null,
+  mainId: string
+): string {
+  const generations = getGenerationNumbers(
+    members,
+    relationships,
+    resolveFounderId(members, relationships, founderId, mainId)
+  );
+  const fathers = indexFathers(members, relationships);
+  const rows = Object.values(members)
+    .sort(
+      (a, b) =>
+        (generations.get(a.id) ?? Infinity) -
+          (generations.get(b.id) ?? Infinity) ||
+        compareFamilyDates(a.birth, b.birth)
+    )
+    .map((member) =>
+      [
+        member.id,
+        member.name,
+        member.nameParts?.given,
+        getFamilyName(member.id, members, fathers),
+        member.nameParts?.kunya,
+        member.nameParts?.laqab,
+        buildNasab(member.id, members, fathers),
+        member.gender,
+        formatCalendarDate(member.birth, "gregorian"),
+        formatCalendarDate(member.birth, "hijri"),
+        formatCalendarDate(member.death, "gregorian"),
+        formatCalendarDate(member.death, "hijri"),
+        member.birthplace,
+        member.occupation,
+        generations.get(member.id),
+      ]
+        .map(csvField)
+        .join(",")
+    );
+  return [COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+/**
+ * Builds the member CSV and triggers a browser download.
+ *
+ * @param filename - The download name without extension.
+ */
+export function exportMembersCsv(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  founderId: string | null,
+  mainId: string,
+  filename: string = "family-members"
+): void {
+  // The byte order mark makes spreadsheet apps read Arabic names as UTF-8
+  const blob = new Blob(
+    ["\uFEFF" + buildMembersCsv(members, relationships, founderId, mainId)],
+    { type: "text/csv;charset=utf-8" }
+  );
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${filename}.csv`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,370 @@
+/**
+ * @file Finding people entered twice and merging them. Pairs are scored on
+ * their names, birth years and the parents and spouses they share. A merge
+ * keeps one record, takes the chosen fields from the other and moves its
+ * relationships over.
+ */
+import {
+  CalendarDisplay,
+  FamilyMember,
+  RelationshipConnection,
+} from "../types";
+import { getFamilyName, getGivenName, indexFathers } from "./arabicName";
+import { indexRelationships } from "./compactLayout";
+import { formatFamilyDate } from "./familyDate";
+import { normalizeName } from "./memberSearch";
+
+/** Why two records look like the same person */
+export type DuplicateReason =
+  | "sameName"
+  | "sameGivenName"
+  | "sameBirthYear"
+  | "closeBirthYear"
+  | "sharedParents"
+  | "sharedSpouses";
+
+export interface DuplicateCandidate {
+  /** The pair, the record with more relationships first */
+  ids: [string, string];
+  score: number;
+  reasons: DuplicateReason[];
+}
+
+const REASON_POINTS: { [reason in DuplicateReason]: number } = {
+  sameName: 50,
+  sameGivenName: 30,
+  sameBirthYear: 25,
+  closeBirthYear: 20,
+  sharedParents: 30,
+  sharedSpouses: 30,
+};
+
+/**
+ * Pairs scoring below this are not reported: the same name is enough, a
+ * given name alone also needs a close birth year or a shared relative.
+ */
+export const DUPLICATE_THRESHOLD = 50;
+
+/** Birth years this far apart still count as close */
+const CLOSE_BIRTH_YEARS = 2;
+
+/** Birth years further apart than this rule a pair out */
+const DISTANT_BIRTH_YEARS = 10;
+
+/** Fields a merge can take from either record */
+export const MERGE_FIELDS = [
+  "name",
+  "nameParts",
+  "gender",
+  "birth",
+  "death",
+  "birthplace",
+  "occupation",
+  "notes",
+  "image",
+  "imageUrl",
+] as const;
+
+export type MergeField = (typeof MERGE_FIELDS)[number];
+
+/** Translation keys of the field labels */
+export const MERGE_FIELD_KEYS: { [field in MergeField]: string } = {
+  name: "forms.name",
+  nameParts: "forms.nameParts",
+  gender: "forms.gender",
+  birth: "forms.birthDate",
+  death: "forms.deathDate",
+  birthplace: "forms.location",
+  occupation: "forms.occupation",
+  notes: "forms.notes",
+  image: "relationships.mergePhoto",
+  imageUrl: "relationships.mergePhotoUrl",
+};
+
+/** Which record each field is taken from; the survivor when not given */
+export type MergeChoices = { [field in MergeField]?: "survivor" | "duplicate" };
+
+interface DuplicateContext {
+  members: { [id: string]: FamilyMember };
+  index: ReturnType<typeof indexRelationships>;
+  fathers: Map<string, string>;
+}
+
+const createContext = (
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): DuplicateContext => ({
+  members,
+  index: indexRelationships(members, relationships),
+  fathers: indexFathers(members, relationships),
+});
+
+/**
+ * First word of the given name, as names without parts also hold the
+ * father's name.
+ */
+export const givenNameKey = (member: FamilyMember) =>
+  normalizeName(getGivenName(member)).split(" ")[0];
+
+const shareAny = (a: string[], b: string[]) => a.some((id) => b.includes(id));
+
+/**
+ * Scores two records as possibly the same person. Returns null when they
+ * cannot be: different genders or family names, birth years far apart,
+ * fathers with different names, or a parent, child or spouse of each other.
+ */
+function scorePair(
+  a: FamilyMember,
+  b: FamilyMember,
+  context: DuplicateContext
+): Omit<DuplicateCandidate, "ids"> | null {
+  const { members, index, fathers } = context;
+  if (a.id === b.id || a.gender !== b.gender) return null;
+  const relatives = [
+    ...index.parentsOf(a.id),
+    ...index.childrenOf(a.id),
+    ...index.spousesOf(a.id),
+  ];
+  if (relatives.includes(b.id)) return null;
+
+  const reasons: DuplicateReason[] = [];
+  if (normalizeName(a.name) === normalizeName(b.name)) reasons.push("sameName");
+  else if (givenNameKey(a) === givenNameKey(b)) reasons.push("sameGivenName");
+  else return null;
+
+  const familyNames = [a, b].map(
+    (member) =>
+      member.nameParts?.familyName || getFamilyName(member.id, members, fathers)
+  );
+  if (
+    familyNames[0] &&
+    familyNames[1] &&
+    normalizeName(familyNames[0]) !== normalizeName(familyNames[1])
+  ) {
+    return null;
+  }
+
+  if (a.birth && b.birth) {
+    const gap = Math.abs(a.birth.year - b.birth.year);
+    if (gap > DISTANT_BIRTH_YEARS) return null;
+    if (gap === 0) reasons.push("sameBirthYear");
+    else if (gap <= CLOSE_BIRTH_YEARS) reasons.push("closeBirthYear");
+  }
+
+  const fatherIds = [fathers.get(a.id), fathers.get(b.id)];
+  if (
+    fatherIds[0] &&
+    fatherIds[1] &&
+    fatherIds[0] !== fatherIds[1] &&
+    givenNameKey(members[fatherIds[0]]) !==
+      givenNameKey(members[fatherIds[1]])
+  ) {
+    return null;
+  }
+  if (shareAny(index.parentsOf(a.id), index.parentsOf(b.id))) {
+    reasons.push("sharedParents");
+  }
+  if (shareAny(index.spousesOf(a.id), index.spousesOf(b.id))) {
+    reasons.push("sharedSpouses");
+  }
+
+  const score = reasons.reduce((total, reason) => total + REASON_POINTS[reason], 0);
+  return { score, reasons };
+}
+
+/**
+ * Every pair of members that may be the same person, best match first.
+ * Only people sharing a given name are compared, so large trees stay fast.
+ */
+export function findDuplicates(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): DuplicateCandidate[] {
+  const context = createContext(members, relationships);
+  const groups = new Map<string, FamilyMember[]>();
+  Object.values(members).forEach((member) => {
+    const key = `${member.gender}:${givenNameKey(member)}`;
+    groups.set(key, [...(groups.get(key) ?? []), member]);
+  });
+  const relationshipCount = (id: string) =>
+    context.index.parentsOf(id).length +
+    context.index.childrenOf(id).length +
+    context.index.spousesOf(id).length;
+
+  const candidates: DuplicateCandidate[] = [];
+  groups.forEach((group) => {
+    for (let i = 0; i < group.length; i++) {
+      for (let j = i + 1; j < group.length; j++) {
+        const result = scorePair(group[i], group[j], context);
+        if (!result || result.score < DUPLICATE_THRESHOLD) continue;
+        const [a, b] = [group[i].id, group[j].id];
+        candidates.push({
+          ids: relationshipCount(b) > relationshipCount(a) ? [b, a] : [a, b],
+          ...result,
+        });
+      }
+    }
+  });
+  return candidates.sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Prepares a tree for many `findDuplicatesOf`-style lookups: the tree is
+ * indexed once and each person is compared only with members sharing
+ * their given name.
+ */
+export function createDuplicateFinder(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): (person: FamilyMember) => FamilyMember[] {
+  const context = createContext(members, relationships);
+  const groups = new Map<string, FamilyMember[]>();
+  Object.values(members).forEach((member) => {
+    const key = `${member.gender}:${givenNameKey(member)}`;
+    const group = groups.get(key);
+    if (group) group.push(member);
+    else groups.set(key, [member]);
+  });
+  return (person) =>
+    (groups.get(`${person.gender}:${givenNameKey(person)}`) ?? [])
+      .map((member) => ({ member, result: scorePair(person, member, context) }))
+      .filter(({ result }) => result && result.score >= DUPLICATE_THRESHOLD)
+      .sort((a, b) => b.result!.score - a.result!.score)
+      .map(({ member }) => member);
+}
+
+/**
+ * Members that may be the same person as `person`, who need not be in
+ * `members` yet (e.g. while being added). Best match first.
+ */
+export function findDuplicatesOf(
+  person: FamilyMember,
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): FamilyMember[] {
+  return createDuplicateFinder(members, relationships)(person);
+}
+
+/**
+ * A field value as text for comparing records. Empty when not recorded.
+ */
+export function formatMergeValue(
+  member: FamilyMember,
+  field: MergeField,
+  options: { t?: (key: string) => string; calendar?: CalendarDisplay } = {}
+): string {
+  switch (field) {
+    case "nameParts":
+      return Object.values(member.nameParts ?? {}).join(" · ");
+    case "gender":
+      return options.t ? options.t(`forms.${member.gender}`) : member.gender;
+    case "birth":
+    case "death":
+      return formatFamilyDate(member[field], options);
+    default:
+      return member[field] ?? "";
+  }
+}
+
+/**
+ * Identifies a link by its type and ends, so the same link entered twice
+ * (either way round when mutual) gets the same key.
+ */
+export function relationshipKey(rel: RelationshipConnection): string {
+  const ends = rel.bidirectional
+    ? [rel.fromId, rel.toId].sort().join("|")
+    : `${rel.fromId}>${rel.toId}`;
+  return `${rel.type}:${ends}`;
+}
+
+/**
+ * Takes the duplicate's value for every field the survivor leaves empty.
+ */
+export function getDefaultMergeChoices(
+  survivor: FamilyMember,
+  duplicate: FamilyMember
+): MergeChoices {
+  const choices: MergeChoices = {};
+  MERGE_FIELDS.forEach((field) => {
+    const isEmpty = (value: unknown) => value === undefined || value === "";
+    if (isEmpty(survivor[field]) && !isEmpty(duplicate[field])) {
+      choices[field] = "duplicate";
+    }
+  });
+  return choices;
+}
+
+/**
+ * Copies one field from `source` onto `target`, removing it when `source`
+ * has no value.
+ */
+function setField<K extends MergeField>(
+  target: FamilyMember,
+  source: FamilyMember,
+  field: K
+) {
+  if (source[field] === undefined) delete target[field];
+  else target[field] = source[field];
+}
+
+/**
+ * Merges `duplicateId` into `survivorId`: the survivor takes the chosen
+ * fields, the duplicate's relationships are moved over, and links that now
+ * repeat or point back at the survivor itself are dropped. Repeated links
+ * keep the details of the first, filled in from the others.
+ */
+export function mergeMemberRecords(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  survivorId: string,
+  duplicateId: string,
+  choices: MergeChoices = {}
+): {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+} {
+  const survivor = members[survivorId];
+  const duplicate = members[duplicateId];
+  if (!survivor || !duplicate || survivorId === duplicateId) {
+    return { members, relationships };
+  }
+
+  const merged: FamilyMember = { ...survivor };
+  MERGE_FIELDS.forEach((field) => {
+    if (choices[field] === "duplicate") setField(merged, duplicate, field);
+  });
+  const { [duplicateId]: _removed, ...rest } = members;
+
+  const isMoved = (rel: RelationshipConnection) =>
+    rel.fromId === duplicateId || rel.toId === duplicateId;
+  const takenIds = new Set(
+    relationships.filter((rel) => !isMoved(rel)).map((rel) => rel.id)
+  );
+  const byKey = new Map<string, RelationshipConnection>();
+  relationships.forEach((rel) => {
+    const moved = {
+      ...rel,
+      fromId: rel.fromId === duplicateId ? survivorId : rel.fromId,
+      toId: rel.toId === duplicateId ? survivorId : rel.toId,
+    };
+    if (moved.fromId === moved.toId) return;
+    if (isMoved(rel)) {
+      // Name the link after its new ends; the old id is still unique if
+      // that name is taken
+      const id = `${moved.fromId}_${moved.type}_${moved.toId}`;
+      if (!takenIds.has(id)) moved.id = id;
+      takenIds.add(moved.id);
+    }
+    const key = relationshipKey(moved);
+    const kept = byKey.get(key);
+    if (!kept) byKey.set(key, moved);
+    else if (moved.metadata) {
+      byKey.set(key, { ...kept, metadata: { ...moved.metadata, ...kept.metadata } });
+    }
+  });
+
+  return {
+    members: { ...rest, [survivorId]: merged },
+    relationships: Array.from(byKey.values()),
+  };
+}
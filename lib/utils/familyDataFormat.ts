@@ -0,0 +1,504 @@
+/**
+ * @file Versioned family-data file format.
+ * Upgrades older files through a chain of migrations, validates every member
+ * and relationship field, repairs what it safely can and reports the rest.
+ */
+import { FamilyDate, FamilyMember, RelationshipConnection } from "../types";
+import { isDefinitelyBefore, normalizeFamilyDate } from "./familyDate";
+import { cleanNameParts } from "./arabicName";
+
+/**
+ * The version written by `serializeFamilyData`. Files without a
+ * `formatVersion` field predate versioning and are treated as version 1.
+ */
+export const CURRENT_FORMAT_VERSION = 3;
+
+/**
+ * The on-disk shape of a current-version family-data file.
+ */
+export interface FamilyDataFile {
+  formatVersion: number;
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  mainId: string;
+}
+
+/**
+ * A single entry in the import report.
+ */
+export interface ImportIssue {
+  /** Where the issue was found, e.g. "members.m_1.birth" */
+  path: string;
+  message: string;
+}
+
+/**
+ * Everything the loader noticed while reading a file.
+ */
+export interface ImportReport {
+  fromVersion: number;
+  toVersion: number;
+  /** Problems that could not be repaired; the offending data was dropped */
+  problems: ImportIssue[];
+  /** Repairs and upgrades applied to the data */
+  fixes: ImportIssue[];
+}
+
+/**
+ * Thrown when a file cannot be imported at all.
+ */
+export class FamilyDataFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FamilyDataFormatError";
+  }
+}
+
+const GENDERS = ["male", "female"];
+const RELATIONSHIP_TYPES = ["parent", "spouse", "sibling"];
+const ADOPTION_TYPES = ["biological", "adopted", "step"];
+const OPTIONAL_STRING_FIELDS = [
+  "occupation",
+  "birthplace",
+  "notes",
+  "image",
+  "imageUrl",
+] as const;
+const MEMBER_DATE_FIELDS = ["birth", "death"] as const;
+const METADATA_DATE_FIELDS = ["marriage", "divorce"] as const;
+/** Year fields of version 2 files, mapped to the dates that replace them */
+const LEGACY_YEAR_FIELDS: { [field: string]: string } = {
+  birth_year: "birth",
+  death_year: "death",
+  marriageYear: "marriage",
+  divorceYear: "divorce",
+};
+
+type RawData = { [key: string]: any };
+
+/**
+ * Migrations keyed by the version they upgrade *from*. Each one receives the
+ * raw data of that version and returns data of the next version.
+ */
+const MIGRATIONS: {
+  [fromVersion: number]: (data: RawData, report: ImportReport) => RawData;
+} = {
+  /**
+   * v1 (unversioned): relationships could be missing `id` / `bidirectional`,
+   * and metadata was sometimes spread onto the relationship itself.
+   */
+  1: (data, report) => {
+    const members = Array.isArray(data.members)
+      ? Object.fromEntries(
+          data.members
+            .filter((m: any) => m && typeof m.id === "string")
+            .map((m: any) => [m.id, m])
+        )
+      : data.members;
+    if (Array.isArray(data.members)) {
+      report.fixes.push({
+        path: "members",
+        message: "Converted member list into a map keyed by id",
+      });
+    }
+
+    const relationships = Array.isArray(data.relationships)
+      ? data.relationships.map((rel: any, index: number) => {
+          if (!rel || typeof rel !== "object") return rel;
+          const upgraded = { ...rel };
+          const metadata = { ...(rel.metadata || {}) };
+          let movedMetadata = false;
+          ["marriageYear", "divorceYear", "adoptionType"].forEach((field) => {
+            if (field in upgraded) {
+              if (metadata[field] === undefined) metadata[field] = upgraded[field];
+              delete upgraded[field];
+              movedMetadata = true;
+            }
+          });
+          if (movedMetadata) {
+            upgraded.metadata = metadata;
+            report.fixes.push({
+              path: `relationships[${index}]`,
+              message: "Moved relationship details into metadata",
+            });
+          }
+          return upgraded;
+        })
+      : data.relationships;
+
+    return { ...data, members, relationships, formatVersion: 2 };
+  },
+
+  /**
+   * v2: birth, death, marriage and divorce were bare years
+   * (`birth_year: 0` meaning unknown).
+   */
+  2: (data, report) => {
+    const { members, relationships } = upgradeLegacyDates(
+      data.members,
+      data.relationships
+    );
+    report.fixes.push({
+      path: "members",
+      message: "Converted birth, death, marriage and divorce years to dates",
+    });
+    return { ...data, members, relationships, formatVersion: 3 };
+  },
+};
+
+/**
+ * Replaces the version 2 year fields of members and relationship metadata
+ * with exact year dates. Also used for drafts saved before dates existed;
+ * data already using dates is returned unchanged.
+ */
+export function upgradeLegacyDates<M, R>(
+  members: M,
+  relationships: R
+): { members: M; relationships: R } {
+  return {
+    members:
+      members && typeof members === "object" && !Array.isArray(members)
+        ? (Object.fromEntries(
+            Object.entries(members).map(([key, member]) => [
+              key,
+              upgradeLegacyYears(member),
+            ])
+          ) as M)
+        : members,
+    relationships: Array.isArray(relationships)
+      ? (relationships.map((rel: any) =>
+          rel && typeof rel === "object" && rel.metadata
+            ? { ...rel, metadata: upgradeLegacyYears(rel.metadata) }
+            : rel
+        ) as R)
+      : relationships,
+  };
+}
+
+/**
+ * Replaces the year fields of one member or metadata object. Unknown years
+ * (0 or empty) are dropped and unreadable ones kept for validation to report.
+ */
+function upgradeLegacyYears<T>(item: T): T {
+  if (!item || typeof item !== "object") return item;
+  const upgraded: RawData = { ...item };
+  Object.entries(LEGACY_YEAR_FIELDS).forEach(([yearField, dateField]) => {
+    if (!(yearField in upgraded)) return;
+    const year = upgraded[yearField];
+    delete upgraded[yearField];
+    if (upgraded[dateField] !== undefined) return;
+    if (year !== 0 && year !== null && year !== undefined && year !== "") {
+      upgraded[dateField] = normalizeFamilyDate(year) ?? year;
+    }
+  });
+  return upgraded as T;
+}
+
+/**
+ * Validates a date field in place, dropping it when it is unusable.
+ */
+function validateDateField(
+  item: RawData,
+  field: string,
+  path: string,
+  report: ImportReport
+): FamilyDate | undefined {
+  if (item[field] === undefined) return undefined;
+  if (item[field] === null) {
+    delete item[field];
+    return undefined;
+  }
+  const date = normalizeFamilyDate(item[field]);
+  if (!date) {
+    report.problems.push({
+      path: `${path}.${field}`,
+      message: `Invalid date ${JSON.stringify(item[field])}; removed`,
+    });
+    delete item[field];
+    return undefined;
+  }
+  if (typeof item[field] !== "object") {
+    report.fixes.push({
+      path: `${path}.${field}`,
+      message: "Converted year to a date",
+    });
+  }
+  item[field] = date;
+  return date;
+}
+
+/**
+ * Validates and repairs a single member. Returns null when the member is
+ * unusable and must be dropped.
+ */
+function validateMember(
+  key: string,
+  raw: any,
+  report: ImportReport
+): FamilyMember | null {
+  const path = `members.${key}`;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    report.problems.push({ path, message: "Member is not an object; dropped" });
+    return null;
+  }
+
+  const member: RawData = { ...raw };
+
+  if (typeof member.name !== "string" || member.name.trim() === "") {
+    report.problems.push({
+      path: `${path}.name`,
+      message: "Member has no name; dropped",
+    });
+    return null;
+  }
+
+  if (!GENDERS.includes(member.gender)) {
+    report.problems.push({
+      path: `${path}.gender`,
+      message: `Invalid gender ${JSON.stringify(member.gender)}; member dropped`,
+    });
+    return null;
+  }
+
+  if (member.id !== key) {
+    report.fixes.push({
+      path: `${path}.id`,
+      message: `Set id to match its key (was ${JSON.stringify(member.id)})`,
+    });
+    member.id = key;
+  }
+
+  const [birth, death] = MEMBER_DATE_FIELDS.map((field) =>
+    validateDateField(member, field, path, report)
+  );
+  if (birth && death && isDefinitelyBefore(death, birth)) {
+    report.problems.push({
+      path: `${path}.death`,
+      message: "Death date is before birth date",
+    });
+  }
+
+  OPTIONAL_STRING_FIELDS.forEach((field) => {
+    if (member[field] !== undefined && typeof member[field] !== "string") {
+      report.problems.push({
+        path: `${path}.${field}`,
+        message: `Expected text but found ${typeof member[field]}; removed`,
+      });
+      delete member[field];
+    }
+  });
+
+  if (member.nameParts !== undefined) {
+    const nameParts = cleanNameParts(member.nameParts);
+    if (JSON.stringify(nameParts) !== JSON.stringify(member.nameParts)) {
+      report.fixes.push({
+        path: `${path}.nameParts`,
+        message: nameParts
+          ? "Trimmed name parts and removed empty ones"
+          : "Removed empty name parts",
+      });
+    }
+    if (nameParts) member.nameParts = nameParts;
+    else delete member.nameParts;
+  }
+
+  return member as FamilyMember;
+}
+
+/**
+ * Validates and repairs a single relationship. Returns null when the
+ * relationship is unusable and must be dropped.
+ */
+function validateRelationship(
+  index: number,
+  raw: any,
+  members: { [id: string]: FamilyMember },
+  seenIds: Set<string>,
+  report: ImportReport
+): RelationshipConnection | null {
+  const path = `relationships[${index}]`;
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    report.problems.push({ path, message: "Relationship is not an object; dropped" });
+    return null;
+  }
+
+  const rel: RawData = { ...raw };
+
+  if (!RELATIONSHIP_TYPES.includes(rel.type)) {
+    report.problems.push({
+      path: `${path}.type`,
+      message: `Invalid relationship type ${JSON.stringify(rel.type)}; dropped`,
+    });
+    return null;
+  }
+
+  for (const field of ["fromId", "toId"]) {
+    if (typeof rel[field] !== "string" || !members[rel[field]]) {
+      report.problems.push({
+        path: `${path}.${field}`,
+        message: `References unknown member ${JSON.stringify(rel[field])}; dropped`,
+      });
+      return null;
+    }
+  }
+
+  if (rel.fromId === rel.toId) {
+    report.problems.push({
+      path,
+      message: "Relationship connects a member to themselves; dropped",
+    });
+    return null;
+  }
+
+  const expectedId = `${rel.fromId}_${rel.type}_${rel.toId}`;
+  if (typeof rel.id !== "string" || rel.id === "") {
+    report.fixes.push({ path: `${path}.id`, message: `Generated id ${expectedId}` });
+    rel.id = expectedId;
+  }
+  if (seenIds.has(rel.id)) {
+    report.problems.push({
+      path: `${path}.id`,
+      message: `Duplicate relationship id ${rel.id}; dropped`,
+    });
+    return null;
+  }
+
+  const bidirectional = rel.type !== "parent";
+  if (rel.bidirectional !== bidirectional) {
+    report.fixes.push({
+      path: `${path}.bidirectional`,
+      message: `Set bidirectional to ${bidirectional} for a ${rel.type} relationship`,
+    });
+    rel.bidirectional = bidirectional;
+  }
+
+  if (rel.metadata !== undefined) {
+    if (!rel.metadata || typeof rel.metadata !== "object") {
+      report.problems.push({
+        path: `${path}.metadata`,
+        message: "Metadata is not an object; removed",
+      });
+      delete rel.metadata;
+    } else {
+      const metadata: RawData = { ...rel.metadata };
+      METADATA_DATE_FIELDS.forEach((field) =>
+        validateDateField(metadata, field, `${path}.metadata`, report)
+      );
+      if (
+        metadata.adoptionType !== undefined &&
+        !ADOPTION_TYPES.includes(metadata.adoptionType)
+      ) {
+        report.problems.push({
+          path: `${path}.metadata.adoptionType`,
+          message: `Invalid adoption type ${JSON.stringify(metadata.adoptionType)}; removed`,
+        });
+        delete metadata.adoptionType;
+      }
+      rel.metadata = metadata;
+    }
+  }
+
+  seenIds.add(rel.id);
+  return rel as RelationshipConnection;
+}
+
+/**
+ * Reads family data of any supported version, migrates it to the current
+ * version and validates it.
+ *
+ * @param raw - The parsed JSON contents of a family-data file.
+ * @returns The clean data together with a report of problems and fixes.
+ * @throws FamilyDataFormatError if the file cannot be imported at all.
+ */
+export function parseFamilyData(raw: unknown): {
+  data: FamilyDataFile;
+  report: ImportReport;
+} {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new FamilyDataFormatError("File does not contain a family-data object.");
+  }
+
+  let data: RawData = raw as RawData;
+  const fromVersion = data.formatVersion === undefined ? 1 : data.formatVersion;
+  if (!Number.isInteger(fromVersion) || fromVersion < 1) {
+    throw new FamilyDataFormatError(
+      `Invalid formatVersion ${JSON.stringify(data.formatVersion)}.`
+    );
+  }
+  if (fromVersion > CURRENT_FORMAT_VERSION) {
+    throw new FamilyDataFormatError(
+      `File format version ${fromVersion} is newer than supported version ${CURRENT_FORMAT_VERSION}.`
+    );
+  }
+
+  const report: ImportReport = {
+    fromVersion,
+    toVersion: CURRENT_FORMAT_VERSION,
+    problems: [],
+    fixes: [],
+  };
+
+  for (let version = fromVersion; version < CURRENT_FORMAT_VERSION; version++) {
+    data = MIGRATIONS[version](data, report);
+    report.fixes.push({
+      path: "formatVersion",
+      message: `Upgraded file from version ${version} to ${version + 1}`,
+    });
+  }
+
+  if (!data.members || typeof data.members !== "object" || Array.isArray(data.members)) {
+    throw new FamilyDataFormatError("File has no members.");
+  }
+  if (!Array.isArray(data.relationships)) {
+    throw new FamilyDataFormatError("File has no relationships list.");
+  }
+
+  const members: { [id: string]: FamilyMember } = {};
+  Object.entries(data.members).forEach(([key, value]) => {
+    const member = validateMember(key, value, report);
+    if (member) members[key] = member;
+  });
+
+  const seenIds = new Set<string>();
+  const relationships: RelationshipConnection[] = [];
+  data.relationships.forEach((value: unknown, index: number) => {
+    const rel = validateRelationship(index, value, members, seenIds, report);
+    if (rel) relationships.push(rel);
+  });
+
+  let mainId: string = typeof data.mainId === "string" ? data.mainId : "";
+  if (!members[mainId]) {
+    const fallback = Object.keys(members)[0] ?? "";
+    if (mainId !== fallback) {
+      report.fixes.push({
+        path: "mainId",
+        message: fallback
+          ? `Main person ${JSON.stringify(data.mainId)} not found; using ${fallback}`
+          : "Main person cleared because the tree is empty",
+      });
+    }
+    mainId = fallback;
+  }
+
+  return {
+    data: { formatVersion: CURRENT_FORMAT_VERSION, members, relationships, mainId },
+    report,
+  };
+}
+
+/**
+ * Serializes the tree into the current file format.
+ */
+export function serializeFamilyData(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  mainId: string
+): string {
+  const file: FamilyDataFile = {
+    formatVersion: CURRENT_FORMAT_VERSION,
+    members,
+    relationships,
+    mainId,
+  };
+  return JSON.stringify(file, null, 2);
+}
@@ -0,0 +1,380 @@
+/**
+ * @file Helpers for possibly approximate dates: reading them from input and
+ * files, comparing and sorting them, computing ages and formatting them for
+ * display.
+ */
+import {
+  Calendar,
+  CalendarDisplay,
+  DateParts,
+  DatePrecision,
+  FamilyDate,
+} from "../types";
+import { gregorianToHijri, toHijriParts } from "./hijri";
+
+export const DATE_PRECISIONS: DatePrecision[] = [
+  "exact",
+  "about",
+  "before",
+  "after",
+  "between",
+];
+
+export const CALENDAR_DISPLAYS: CalendarDisplay[] = ["gregorian", "hijri", "both"];
+
+/** Translation keys of the calendar preference options */
+export const CALENDAR_DISPLAY_KEYS: { [calendar in CalendarDisplay]: string } = {
+  gregorian: "forms.calendarGregorian",
+  hijri: "forms.calendarHijri",
+  both: "forms.calendarBoth",
+};
+
+/**
+ * Years an "about" date may be off by when deciding whether two dates
+ * certainly contradict each other.
+ */
+const APPROXIMATE_MARGIN = 5;
+
+/** Display templates used when no translation function is given */
+const DEFAULT_TEMPLATES: { [precision in DatePrecision]: string } = {
+  exact: "{{date}}",
+  about: "about {{date}}",
+  before: "before {{date}}",
+  after: "after {{date}}",
+  between: "between {{date}} and {{end}}",
+};
+
+/** Marks a Hijri date when no translation function is given */
+const DEFAULT_HIJRI_TEMPLATE = "{{date}} AH";
+
+/** Translation keys of the display templates */
+const TEMPLATE_KEYS: { [precision in DatePrecision]: string } = {
+  exact: "forms.dateExact",
+  about: "forms.dateAbout",
+  before: "forms.dateBefore",
+  after: "forms.dateAfter",
+  between: "forms.dateBetween",
+};
+
+const daysInMonth = (year: number, month: number) =>
+  new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+/**
+ * A date known only by its year, as stored before dates were structured.
+ */
+export function yearDate(year: number): FamilyDate {
+  return { precision: "exact", year };
+}
+
+/**
+ * Returns the parts when they form a real calendar date, or undefined when
+ * the month or day is out of range.
+ */
+export function toDateParts(
+  year: number,
+  month?: number,
+  day?: number
+): DateParts | undefined {
+  if (!Number.isInteger(year)) return undefined;
+  if (month === undefined) return day === undefined ? { year } : undefined;
+  if (!Number.isInteger(month) || month < 1 || month > 12) return undefined;
+  if (day === undefined) return { year, month };
+  if (!Number.isInteger(day) || day < 1 || day > daysInMonth(year, month)) {
+    return undefined;
+  }
+  return { year, month, day };
+}
+
+/**
+ * Reads a date typed by the user: "1890", "1890-03", "1890-03-12",
+ * "12/03/1890" or "03/1890".
+ *
+ * @param calendar - The calendar the date is written in.
+ */
+export function parseDateParts(
+  text: string,
+  calendar: Calendar = "gregorian"
+): DateParts | undefined {
+  const toParts = calendar === "hijri" ? toHijriParts : toDateParts;
+  const value = text.trim();
+  let match = value.match(/^(-?\d{1,4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/);
+  if (match) {
+    return toParts(
+      Number(match[1]),
+      match[2] === undefined ? undefined : Number(match[2]),
+      match[3] === undefined ? undefined : Number(match[3])
+    );
+  }
+  match = value.match(/^(?:(\d{1,2})\/)?(\d{1,2})\/(\d{1,4})$/);
+  if (match) {
+    return toParts(
+      Number(match[3]),
+      Number(match[2]),
+      match[1] === undefined ? undefined : Number(match[1])
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Writes the parts as "1890-03-12", leaving out what is unknown.
+ */
+export function formatDateParts(parts: DateParts): string {
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return [
+    String(parts.year),
+    parts.month === undefined ? undefined : pad(parts.month),
+    parts.day === undefined ? undefined : pad(parts.day),
+  ]
+    .filter((part) => part !== undefined)
+    .join("-");
+}
+
+/**
+ * Cleans up a stored date. Plain years (numbers or numeric strings) from
+ * older data become exact year dates. Returns undefined when the value is
+ * not a usable date.
+ */
+export function normalizeFamilyDate(raw: unknown): FamilyDate | undefined {
+  if (typeof raw === "number") {
+    return Number.isInteger(raw) ? yearDate(raw) : undefined;
+  }
+  if (typeof raw === "string") {
+    return /^\s*-?\d+\s*$/.test(raw) ? yearDate(parseInt(raw, 10)) : undefined;
+  }
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return undefined;
+
+  const value = raw as { [key: string]: any };
+  const precision: DatePrecision = DATE_PRECISIONS.includes(value.precision)
+    ? value.precision
+    : "exact";
+  const start = toDateParts(value.year, value.month, value.day);
+  if (!start) return undefined;
+
+  const date: FamilyDate = { precision, ...start };
+  if (precision === "between") {
+    const end =
+      value.end && typeof value.end === "object"
+        ? toDateParts(value.end.year, value.end.month, value.end.day)
+        : undefined;
+    if (!end || compareDateParts(end, start) < 0) return undefined;
+    date.end = end;
+  }
+  if (typeof value.original === "string" && value.original.trim() !== "") {
+    date.original = value.original.trim();
+  }
+  const hijri = normalizeHijriParts(value.hijri, precision);
+  if (hijri) date.hijri = hijri;
+  return date;
+}
+
+/**
+ * Cleans up the Hijri parts kept for a date recorded in Hijri. Returns
+ * undefined when they are missing or not a Hijri date, so the Gregorian
+ * value is kept on its own.
+ */
+function normalizeHijriParts(
+  raw: unknown,
+  precision: DatePrecision
+): FamilyDate["hijri"] {
+  if (!raw || typeof raw !== "object") return undefined;
+  const value = raw as { [key: string]: any };
+  const start = toHijriParts(value.year, value.month, value.day);
+  if (!start || precision !== "between") return start;
+  const end =
+    value.end && typeof value.end === "object"
+      ? toHijriParts(value.end.year, value.end.month, value.end.day)
+      : undefined;
+  if (!end || compareDateParts(end, start) < 0) return undefined;
+  return { ...start, end };
+}
+
+/**
+ * Orders two calendar dates; unknown months and days count as the start of
+ * the year or month.
+ */
+export function compareDateParts(a: DateParts, b: DateParts): number {
+  return (
+    a.year - b.year || (a.month ?? 0) - (b.month ?? 0) || (a.day ?? 0) - (b.day ?? 0)
+  );
+}
+
+/**
+ * A number that sorts dates chronologically. "Before" dates sort just ahead
+ * of the date they name and "after" dates just behind it.
+ */
+export function dateSortValue(date: FamilyDate): number {
+  const value = date.year * 10000 + (date.month ?? 0) * 100 + (date.day ?? 0);
+  if (date.precision === "before") return value - 0.5;
+  if (date.precision === "after") return value + 0.5;
+  return value;
+}
+
+/**
+ * Compares two dates for sorting; missing dates go last.
+ */
+export function compareFamilyDates(a?: FamilyDate, b?: FamilyDate): number {
+  if (!a || !b) return Number(!a) - Number(!b);
+  return dateSortValue(a) - dateSortValue(b);
+}
+
+/**
+ * The year a date stands for in counts and year filters: its start year.
+ */
+export function dateYear(date?: FamilyDate): number | undefined {
+  return date?.year;
+}
+
+/**
+ * The span of time the date allows, in fractional years from the start of
+ * its first possible day to the end of its last one.
+ */
+function dateBounds(date: FamilyDate): [number, number] {
+  const first = (parts: DateParts) =>
+    parts.year + ((parts.month ?? 1) - 1) / 12 + ((parts.day ?? 1) - 1) / 372;
+  const last = (parts: DateParts) =>
+    parts.day !== undefined
+      ? first(parts) + 1 / 372
+      : parts.year + (parts.month ?? 12) / 12;
+  switch (date.precision) {
+    case "about":
+      return [first(date) - APPROXIMATE_MARGIN, last(date) + APPROXIMATE_MARGIN];
+    case "before":
+      return [-Infinity, first(date)];
+    case "after":
+      return [last(date), Infinity];
+    case "between":
+      return [first(date), last(date.end ?? date)];
+    default:
+      return [first(date), last(date)];
+  }
+}
+
+/**
+ * True only when `a` is certainly earlier than `b`, whatever the real dates
+ * behind approximate ones turn out to be.
+ */
+export function isDefinitelyBefore(a: FamilyDate, b: FamilyDate): boolean {
+  return dateBounds(a)[1] <= dateBounds(b)[0];
+}
+
+/**
+ * Age in whole years at `end`, or today when no end is given. Months and
+ * days are taken into account when both dates have them.
+ */
+export function getAge(birth?: FamilyDate, end?: FamilyDate): number | undefined {
+  if (!birth) return undefined;
+  const today = new Date();
+  const until: DateParts = end ?? {
+    year: today.getFullYear(),
+    month: today.getMonth() + 1,
+    day: today.getDate(),
+  };
+  let age = until.year - birth.year;
+  if (birth.month !== undefined && until.month !== undefined) {
+    const beforeBirthday =
+      until.month < birth.month ||
+      (until.month === birth.month &&
+        birth.day !== undefined &&
+        until.day !== undefined &&
+        until.day < birth.day);
+    if (beforeBirthday) age--;
+  }
+  return age;
+}
+
+/**
+ * The Hijri parts of a date: as recorded, or converted from the Gregorian
+ * parts.
+ */
+export function getHijriParts(date: FamilyDate): NonNullable<FamilyDate["hijri"]> {
+  if (date.hijri) return date.hijri;
+  const hijri: NonNullable<FamilyDate["hijri"]> = gregorianToHijri(date);
+  if (date.end) hijri.end = gregorianToHijri(date.end);
+  return hijri;
+}
+
+/**
+ * The calendar a date was recorded in.
+ */
+export function getRecordedCalendar(date: FamilyDate): Calendar {
+  return date.hijri ? "hijri" : "gregorian";
+}
+
+/**
+ * Formats a date in one calendar, e.g. "about 1890" or "about 1307 AH".
+ *
+ * @param date - The date; missing dates format as an empty string.
+ * @param calendar - The calendar to show the date in.
+ * @param options.t - Translation function for the wording; English otherwise.
+ * @param options.yearOnly - Show years only, as on the tree cards.
+ */
+export function formatCalendarDate(
+  date: FamilyDate | undefined,
+  calendar: Calendar,
+  options: { t?: (key: string) => string; yearOnly?: boolean } = {}
+): string {
+  if (!date) return "";
+  const { t, yearOnly = false } = options;
+  const parts = calendar === "hijri" ? getHijriParts(date) : date;
+  const text = (parts: DateParts) =>
+    yearOnly ? String(parts.year) : formatDateParts(parts);
+  const template = t
+    ? t(TEMPLATE_KEYS[date.precision])
+    : DEFAULT_TEMPLATES[date.precision];
+  const formatted = template
+    .replace("{{date}}", text(parts))
+    .replace("{{end}}", text(parts.end ?? parts));
+  if (calendar === "gregorian") return formatted;
+  return (t ? t("forms.hijriDate") : DEFAULT_HIJRI_TEMPLATE).replace(
+    "{{date}}",
+    formatted
+  );
+}
+
+/**
+ * Formats a date for display, e.g. "about 1890" or "1890-03-12". A date
+ * recorded in the other calendar than the one shown keeps its recorded
+ * form alongside, e.g. "1890 (1307 AH)"; with both calendars the recorded
+ * one comes first.
+ *
+ * @param date - The date; missing dates format as an empty string.
+ * @param options.t - Translation function for the wording; English otherwise.
+ * @param options.yearOnly - Show years only, as on the tree cards.
+ * @param options.calendar - The calendar preference; Gregorian by default.
+ */
+export function formatFamilyDate(
+  date: FamilyDate | undefined,
+  options: {
+    t?: (key: string) => string;
+    yearOnly?: boolean;
+    calendar?: CalendarDisplay;
+  } = {}
+): string {
+  if (!date) return "";
+  const { calendar = "gregorian", ...formatOptions } = options;
+  const recorded = getRecordedCalendar(date);
+  const shown = calendar === "both" ? recorded : calendar;
+  const formatted = formatCalendarDate(date, shown, formatOptions);
+  if (calendar !== "both" && shown === recorded) return formatted;
+  const other = shown === "hijri" ? "gregorian" : "hijri";
+  return `${formatted} (${formatCalendarDate(date, other, formatOptions)})`;
+}
+
+/**
+ * Birth and death years of a person for lists and cards, e.g.
+ * "c. 1890 - 1950".
+ */
+export function formatLifeYears(
+  person: { birth?: FamilyDate; death?: FamilyDate },
+  t?: (key: string) => string,
+  calendar?: CalendarDisplay
+): string {
+  const birth = formatFamilyDate(person.birth, { t, yearOnly: true, calendar });
+  if (!person.death) return birth;
+  return `${birth} - ${formatFamilyDate(person.death, {
+    t,
+    yearOnly: true,
+    calendar,
+  })}`.trim();
+}
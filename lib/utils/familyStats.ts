@@ -0,0 +1,140 @@
+/**
+ * @file Family statistics computed from the tree itself, so the numbers
+ * shown in the editor, the footer and the family brief follow the data.
+ */
+import { FamilyMember, RelationshipConnection } from "../types";
+import { countGenerations, getTreeGenerations } from "./generations";
+import { indexRelationships } from "./compactLayout";
+import { dateYear, getAge } from "./familyDate";
+import { normalizeName } from "./memberSearch";
+
+/** Entries kept in each "most common" list */
+const TOP_COUNT = 5;
+
+export interface CountedValue {
+  value: string;
+  count: number;
+}
+
+export interface FamilyStats {
+  memberCount: number;
+  /** Generations counted from the founder, as on the generation labels */
+  generationCount: number;
+  /** Earliest and latest recorded year, birth or death */
+  firstYear: number | null;
+  lastYear: number | null;
+  yearSpan: number;
+  maleCount: number;
+  femaleCount: number;
+  /** In years, over members with both a birth and a death year */
+  averageLifespan: number | null;
+  coupleCount: number;
+  averageChildrenPerCouple: number | null;
+  commonNames: CountedValue[];
+  commonBirthplaces: CountedValue[];
+  commonOccupations: CountedValue[];
+  /** Births per decade, every decade from the first birth to the last */
+  birthsPerDecade: { decade: number; count: number }[];
+}
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+/**
+ * The most frequent values, with spelling variants (hamza forms, taa
+ * marbuta, letter case) counted together under their first spelling.
+ */
+function mostCommon(values: (string | undefined)[]): CountedValue[] {
+  const counts = new Map<string, CountedValue>();
+  values.forEach((raw) => {
+    const value = raw?.trim();
+    if (!value) return;
+    const key = normalizeName(value);
+    const entry = counts.get(key);
+    if (entry) entry.count++;
+    else counts.set(key, { value, count: 1 });
+  });
+  return Array.from(counts.values())
+    .sort((a, b) => b.count - a.count || a.value.localeCompare(b.value))
+    .slice(0, TOP_COUNT);
+}
+
+export function computeFamilyStats(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  founderId: string | null = null,
+  mainId: string = ""
+): FamilyStats {
+  const list = Object.values(members);
+  const index = indexRelationships(members, relationships);
+
+  const generationCount = countGenerations(
+    getTreeGenerations(members, relationships, founderId, mainId)
+  );
+
+  const years = list
+    .flatMap((member) => [dateYear(member.birth), dateYear(member.death)])
+    .filter((year): year is number => year !== undefined);
+  const firstYear = years.length > 0 ? Math.min(...years) : null;
+  const lastYear = years.length > 0 ? Math.max(...years) : null;
+
+  const lifespans = list
+    .filter((member) => member.birth && member.death)
+    .map((member) => getAge(member.birth, member.death)!);
+
+  // Each couple once, with the children they have together
+  const couples = new Set<string>();
+  let sharedChildren = 0;
+  list.forEach((member) => {
+    index.spousesOf(member.id).forEach((spouseId) => {
+      const key = [member.id, spouseId].sort().join("|");
+      if (couples.has(key)) return;
+      couples.add(key);
+      sharedChildren += index
+        .childrenOf(member.id)
+        .filter((childId) => index.parentsOf(childId).includes(spouseId))
+        .length;
+    });
+  });
+
+  const birthYears = list
+    .map((member) => dateYear(member.birth))
+    .filter((year): year is number => year !== undefined);
+  const birthsPerDecade: FamilyStats["birthsPerDecade"] = [];
+  if (birthYears.length > 0) {
+    const firstDecade = Math.floor(Math.min(...birthYears) / 10) * 10;
+    const lastDecade = Math.floor(Math.max(...birthYears) / 10) * 10;
+    for (let decade = firstDecade; decade <= lastDecade; decade += 10) {
+      birthsPerDecade.push({
+        decade,
+        count: birthYears.filter(
+          (year) => year >= decade && year < decade + 10
+        ).length,
+      });
+    }
+  }
+
+  return {
+    memberCount: list.length,
+    generationCount,
+    firstYear,
+    lastYear,
+    yearSpan: firstYear !== null && lastYear !== null ? lastYear - firstYear : 0,
+    maleCount: list.filter((member) => member.gender === "male").length,
+    femaleCount: list.filter((member) => member.gender === "female").length,
+    averageLifespan: average(lifespans),
+    coupleCount: couples.size,
+    averageChildrenPerCouple:
+      couples.size > 0 ? sharedChildren / couples.size : null,
+    commonNames: mostCommon(
+      list.map(
+        (member) => member.nameParts?.given ?? member.name.split(/\s+/)[0]
+      )
+    ),
+    commonBirthplaces: mostCommon(list.map((member) => member.birthplace)),
+    commonOccupations: mostCommon(list.map((member) => member.occupation)),
+    birthsPerDecade,
+  };
+}
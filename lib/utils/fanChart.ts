@@ -0,0 +1,117 @@
+/**
+ * @file Fan chart layout: places the ancestors of one person in concentric
+ * arcs, one ring per generation, with the father's line on the left half of
+ * each arc and the mother's line on the right.
+ */
+import { FamilyMember, RelationshipConnection, TreeNodeData } from "../types";
+import { getNonStepParentIds } from "./relationshipHelpers";
+
+/** Number of ancestor rings drawn around the root person */
+export const FAN_CHART_GENERATIONS = 6;
+
+/** Total angle covered by the fan, in radians (240°, open at the bottom) */
+export const FAN_CHART_SPAN = (4 * Math.PI) / 3;
+
+interface FanChartParams {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  rootId: string;
+  /** Width of each generation ring */
+  ringWidth: number;
+  generations?: number;
+}
+
+/**
+ * The birth or adoptive parents of a person, father first, at most two.
+ */
+function getOrderedParents(
+  personId: string,
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): (FamilyMember | null)[] {
+  const parents = getNonStepParentIds(personId, relationships)
+    .map((id) => members[id])
+    .filter(Boolean);
+  const father = parents.find((parent) => parent.gender === "male") ?? null;
+  const mother =
+    parents.find((parent) => parent !== father && parent.gender === "female") ??
+    parents.find((parent) => parent !== father) ??
+    null;
+  return [father, mother];
+}
+
+/**
+ * Lays out the fan chart. Angles follow d3.arc: 0 at twelve o'clock,
+ * increasing clockwise. Each node's x/y is the centre of its segment so
+ * centring and zooming work the same as for the hierarchical layout. An
+ * ancestor reached through more than one line (pedigree collapse) is drawn
+ * in the first slot only, and an unknown parent leaves its slot empty.
+ */
+export function calculateFanChart({
+  members,
+  relationships,
+  rootId,
+  ringWidth,
+  generations = FAN_CHART_GENERATIONS,
+}: FanChartParams): TreeNodeData[] {
+  const root = members[rootId];
+  if (!root) return [];
+
+  const nodes: TreeNodeData[] = [
+    {
+      ...root,
+      x: 0,
+      y: 0,
+      level: 0,
+      fanArc: {
+        generation: 0,
+        startAngle: 0,
+        endAngle: 2 * Math.PI,
+        innerRadius: 0,
+        outerRadius: ringWidth,
+      },
+    },
+  ];
+  const placed = new Set<string>([rootId]);
+
+  const place = (
+    personId: string,
+    generation: number,
+    startAngle: number,
+    endAngle: number
+  ) => {
+    if (generation > generations) return;
+    const slot = (endAngle - startAngle) / 2;
+    getOrderedParents(personId, members, relationships).forEach(
+      (parent, index) => {
+        if (!parent || placed.has(parent.id)) return;
+        placed.add(parent.id);
+
+        const start = startAngle + index * slot;
+        const end = start + slot;
+        const innerRadius = generation * ringWidth;
+        const outerRadius = innerRadius + ringWidth;
+        const midAngle = (start + end) / 2;
+        const midRadius = (innerRadius + outerRadius) / 2;
+        nodes.push({
+          ...parent,
+          x: midRadius * Math.sin(midAngle),
+          y: -midRadius * Math.cos(midAngle),
+          level: -generation,
+          isAncestry: true,
+          fanArc: {
+            generation,
+            startAngle: start,
+            endAngle: end,
+            innerRadius,
+            outerRadius,
+          },
+        });
+        place(parent.id, generation + 1, start, end);
+      }
+    );
+  };
+
+  place(rootId, 1, -FAN_CHART_SPAN / 2, FAN_CHART_SPAN / 2);
+  return nodes;
+}
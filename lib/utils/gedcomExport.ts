@@ -0,0 +1,333 @@
+/**
+ * @file GEDCOM 5.5.1 export for the family tree editor.
+ * Writes members as INDI records and folds parent/spouse relationships into
+ * FAM records so the file can be opened in other genealogy tools.
+ */
+import {
+  DateParts,
+  FamilyDate,
+  FamilyMember,
+  NameParts,
+  RelationshipConnection,
+} from "../types";
+import { formatDateParts } from "./familyDate";
+
+type AdoptionType = "biological" | "adopted" | "step";
+
+/**
+ * Our adoption types mapped onto GEDCOM PEDI values (inverse of the import).
+ */
+const ADOPTION_TO_PEDIGREE: { [type in AdoptionType]: string } = {
+  biological: "birth",
+  adopted: "adopted",
+  step: "foster",
+};
+
+/**
+ * Maximum length of a single line value before it is split with CONC.
+ * The spec allows 255 characters per line including level and tag.
+ */
+const MAX_VALUE_LENGTH = 200;
+
+/**
+ * Name parts and the NAME sub-tags they are written to. GEDCOM has no
+ * kunya, so it gets a custom tag; the laqab is the closest to a nickname.
+ */
+const NAME_PART_TAGS: [keyof NameParts, string][] = [
+  ["given", "GIVN"],
+  ["familyName", "SURN"],
+  ["laqab", "NICK"],
+  ["kunya", "_KUNYA"],
+];
+
+const MONTHS = [
+  "JAN", "FEB", "MAR", "APR", "MAY", "JUN",
+  "JUL", "AUG", "SEP", "OCT", "NOV", "DEC",
+];
+
+const PRECISION_TO_MODIFIER: { [precision: string]: string } = {
+  about: "ABT ",
+  before: "BEF ",
+  after: "AFT ",
+};
+
+interface GedcomFamily {
+  xref: string;
+  parentIds: string[];
+  children: { id: string; adoptionType: AdoptionType }[];
+  marriage?: FamilyDate;
+  divorce?: FamilyDate;
+}
+
+/**
+ * Writes a date as a GEDCOM DATE value (the inverse of the import). The
+ * original wording survives as the phrase of an interpreted exact date;
+ * GEDCOM has no place for it on approximate dates.
+ */
+function formatGedcomDate(date: FamilyDate): string {
+  const parts = ({ year, month, day }: DateParts) =>
+    [day, month && MONTHS[month - 1], year].filter(Boolean).join(" ");
+  if (date.precision === "between") {
+    return `BET ${parts(date)} AND ${parts(date.end ?? date)}`;
+  }
+  if (date.precision === "exact" && date.original) {
+    return `INT ${parts(date)} (${date.original.replace(/[()]/g, "")})`;
+  }
+  return `${PRECISION_TO_MODIFIER[date.precision] ?? ""}${parts(date)}`;
+}
+
+/**
+ * Writes the Hijri date kept for a date recorded in Hijri, as "1307-07-20"
+ * or "1300 AND 1305" for a range. GEDCOM has no Hijri calendar, so it goes
+ * into a `_HIJRI` tag beneath the Gregorian DATE.
+ */
+function formatHijriDate(hijri: NonNullable<FamilyDate["hijri"]>): string {
+  const start = formatDateParts(hijri);
+  return hijri.end ? `${start} AND ${formatDateParts(hijri.end)}` : start;
+}
+
+/**
+ * Appends an event (BIRT, DEAT, MARR, DIV) with its date.
+ */
+function pushEvent(
+  lines: string[],
+  level: number,
+  tag: string,
+  date: FamilyDate | undefined,
+  place?: string
+) {
+  if (!date && !place) return;
+  lines.push(`${level} ${tag}`);
+  if (date) lines.push(`${level + 1} DATE ${formatGedcomDate(date)}`);
+  if (date?.hijri) {
+    lines.push(`${level + 2} _HIJRI ${formatHijriDate(date.hijri)}`);
+  }
+  if (place) pushText(lines, level + 1, "PLAC", place);
+}
+
+/**
+ * Appends a text value, splitting newlines into CONT and long lines into CONC.
+ */
+function pushText(lines: string[], level: number, tag: string, value: string) {
+  value.split(/\r\n|\r|\n/).forEach((paragraph, index) => {
+    const chunks: string[] = [];
+    for (let i = 0; i < paragraph.length; i += MAX_VALUE_LENGTH) {
+      chunks.push(paragraph.slice(i, i + MAX_VALUE_LENGTH));
+    }
+    if (chunks.length === 0) chunks.push("");
+
+    chunks.forEach((chunk, chunkIndex) => {
+      let lineTag = "CONC";
+      let lineLevel = level + 1;
+      if (chunkIndex === 0) {
+        lineTag = index === 0 ? tag : "CONT";
+        lineLevel = index === 0 ? level : level + 1;
+      }
+      lines.push(`${lineLevel} ${lineTag}${chunk ? ` ${chunk}` : ""}`);
+    });
+  });
+}
+
+/**
+ * Groups parent relationships into GEDCOM families.
+ *
+ * A child's parents are grouped by adoption type first, so a biological
+ * mother and a step-father end up in two families with the correct PEDI.
+ * Within a group, spouse pairs share a family; any remaining parent gets a
+ * single-parent family. Spouse pairs without children still get a family
+ * so the marriage is preserved.
+ */
+function buildFamilies(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): GedcomFamily[] {
+  const families = new Map<string, GedcomFamily>();
+  const spouseRels = relationships.filter(
+    (rel) => rel.type === "spouse" && members[rel.fromId] && members[rel.toId]
+  );
+
+  const familyKey = (parentIds: string[]) => [...parentIds].sort().join("|");
+  const getFamily = (parentIds: string[]) => {
+    const key = familyKey(parentIds);
+    let family = families.get(key);
+    if (!family) {
+      family = { xref: `@F${families.size + 1}@`, parentIds, children: [] };
+      families.set(key, family);
+    }
+    return family;
+  };
+  const areSpouses = (a: string, b: string) =>
+    spouseRels.some(
+      (rel) =>
+        (rel.fromId === a && rel.toId === b) ||
+        (rel.fromId === b && rel.toId === a)
+    );
+
+  // Marriages first, so family numbering follows the couples
+  spouseRels.forEach((rel) => {
+    const family = getFamily([rel.fromId, rel.toId]);
+    family.marriage = rel.metadata?.marriage ?? family.marriage;
+    family.divorce = rel.metadata?.divorce ?? family.divorce;
+  });
+
+  Object.keys(members).forEach((childId) => {
+    const byAdoptionType = new Map<AdoptionType, string[]>();
+    relationships
+      .filter(
+        (rel) =>
+          rel.type === "parent" && rel.toId === childId && members[rel.fromId]
+      )
+      .forEach((rel) => {
+        const adoptionType = rel.metadata?.adoptionType ?? "biological";
+        const parentIds = byAdoptionType.get(adoptionType) ?? [];
+        if (!parentIds.includes(rel.fromId)) parentIds.push(rel.fromId);
+        byAdoptionType.set(adoptionType, parentIds);
+      });
+
+    byAdoptionType.forEach((parentIds, adoptionType) => {
+      const groups: string[][] = [];
+      const remaining = [...parentIds];
+      while (remaining.length > 0) {
+        const first = remaining.shift()!;
+        const partnerIndex = remaining.findIndex((id) => areSpouses(first, id));
+        if (partnerIndex >= 0) {
+          groups.push([first, ...remaining.splice(partnerIndex, 1)]);
+        } else {
+          groups.push([first]);
+        }
+      }
+      // Two unmarried parents of the same child still form one family
+      const singles = groups.filter((group) => group.length === 1);
+      if (singles.length === 2 && groups.length === 2) {
+        groups.splice(0, 2, [singles[0][0], singles[1][0]]);
+      }
+      groups.forEach((group) =>
+        getFamily(group).children.push({ id: childId, adoptionType })
+      );
+    });
+  });
+
+  return Array.from(families.values());
+}
+
+/**
+ * Serializes members and relationships into a GEDCOM 5.5.1 document.
+ *
+ * Sibling relationships are not written: GEDCOM derives siblings from shared
+ * FAM records, so siblings without a recorded parent are lost on export.
+ *
+ * @param members - The family members keyed by ID.
+ * @param relationships - All relationships between the members.
+ * @returns The GEDCOM file contents.
+ */
+export function buildGedcom(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): string {
+  const memberIds = Object.keys(members);
+  const xrefs = new Map<string, string>();
+  memberIds.forEach((id, index) => xrefs.set(id, `@I${index + 1}@`));
+
+  const families = buildFamilies(members, relationships);
+  const now = new Date();
+
+  const lines: string[] = [
+    "0 HEAD",
+    "1 SOUR FamilyTreeEditor",
+    "2 NAME Family Tree Editor",
+    `1 DATE ${now.getDate()} ${MONTHS[now.getMonth()]} ${now.getFullYear()}`,
+    "1 SUBM @U1@",
+    "1 GEDC",
+    "2 VERS 5.5.1",
+    "2 FORM LINEAGE-LINKED",
+    "1 CHAR UTF-8",
+    "0 @U1@ SUBM",
+    "1 NAME Family Tree Editor",
+  ];
+
+  memberIds.forEach((id) => {
+    const member = members[id];
+    lines.push(`0 ${xrefs.get(id)} INDI`);
+    pushText(lines, 1, "NAME", member.name);
+    NAME_PART_TAGS.forEach(([field, tag]) => {
+      const part = member.nameParts?.[field];
+      if (part) pushText(lines, 2, tag, part);
+    });
+    lines.push(`1 SEX ${member.gender === "female" ? "F" : "M"}`);
+
+    pushEvent(lines, 1, "BIRT", member.birth, member.birthplace);
+    pushEvent(lines, 1, "DEAT", member.death);
+    if (member.occupation) pushText(lines, 1, "OCCU", member.occupation);
+    if (member.notes) pushText(lines, 1, "NOTE", member.notes);
+
+    // Inline data URLs are far too large for a GEDCOM line
+    const imageUrl = member.imageUrl || member.image;
+    if (imageUrl && !imageUrl.startsWith("data:")) {
+      lines.push("1 OBJE");
+      pushText(lines, 2, "FILE", imageUrl);
+    }
+
+    families.forEach((family) => {
+      const child = family.children.find((c) => c.id === id);
+      if (child) {
+        lines.push(`1 FAMC ${family.xref}`);
+        lines.push(`2 PEDI ${ADOPTION_TO_PEDIGREE[child.adoptionType]}`);
+      }
+    });
+    families
+      .filter((family) => family.parentIds.includes(id))
+      .forEach((family) => lines.push(`1 FAMS ${family.xref}`));
+  });
+
+  families.forEach((family) => {
+    lines.push(`0 ${family.xref} FAM`);
+
+    // HUSB/WIFE follow gender; same-gender couples fall back to list order
+    const parents = [...family.parentIds].sort((a, b) =>
+      members[a].gender === members[b].gender
+        ? 0
+        : members[a].gender === "male"
+        ? -1
+        : 1
+    );
+    parents.forEach((parentId, index) => {
+      const role =
+        parents.length === 1
+          ? members[parentId].gender === "female" ? "WIFE" : "HUSB"
+          : index === 0 ? "HUSB" : "WIFE";
+      lines.push(`1 ${role} ${xrefs.get(parentId)}`);
+    });
+
+    family.children.forEach((child) =>
+      lines.push(`1 CHIL ${xrefs.get(child.id)}`)
+    );
+    pushEvent(lines, 1, "MARR", family.marriage);
+    pushEvent(lines, 1, "DIV", family.divorce);
+  });
+
+  lines.push("0 TRLR");
+  return lines.join("\r\n") + "\r\n";
+}
+
+/**
+ * Builds a GEDCOM file from the tree and triggers a browser download.
+ *
+ * @param members - The family members keyed by ID.
+ * @param relationships - All relationships between the members.
+ * @param filename - The download name without extension.
+ */
+export function exportGedcom(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  filename: string = "family-tree"
+): void {
+  const blob = new Blob([buildGedcom(members, relationships)], {
+    type: "text/plain;charset=utf-8",
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `${filename}.ged`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,487 @@
+/**
+ * @file GEDCOM 5.5.1 import for the family tree editor.
+ * Parses INDI/FAM records into the FamilyMember / RelationshipConnection model
+ * and reports every tag it could not map instead of silently dropping it.
+ */
+import {
+  DateParts,
+  FamilyDate,
+  FamilyMember,
+  NameParts,
+  RelationshipConnection,
+} from "../types";
+import { compareDateParts, parseDateParts, toDateParts } from "./familyDate";
+
+/**
+ * A single parsed GEDCOM line together with its nested sub-structures.
+ */
+interface GedcomNode {
+  level: number;
+  xref?: string;
+  tag: string;
+  value: string;
+  line: number;
+  children: GedcomNode[];
+}
+
+/**
+ * A tag that was present in the file but has no equivalent in our model.
+ */
+export interface GedcomUnsupportedTag {
+  /** Dotted path of the tag, e.g. "INDI.DEAT.PLAC" */
+  path: string;
+  /** How many times the tag occurred */
+  count: number;
+  /** Line number of the first occurrence */
+  firstLine: number;
+}
+
+export interface GedcomImportResult {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  mainId: string;
+  unsupportedTags: GedcomUnsupportedTag[];
+  warnings: string[];
+}
+
+type AdoptionType = "biological" | "adopted" | "step";
+
+/**
+ * PEDI (pedigree linkage) values mapped onto our adoption types.
+ * GEDCOM has no "step" linkage, so foster is the closest equivalent.
+ */
+const PEDIGREE_TO_ADOPTION: { [pedi: string]: AdoptionType } = {
+  birth: "biological",
+  adopted: "adopted",
+  foster: "step",
+};
+
+/**
+ * NAME sub-tags read into the name parts (inverse of the export). `_KUNYA`
+ * is written by this editor.
+ */
+const TAG_TO_NAME_PART: { [tag: string]: keyof NameParts } = {
+  GIVN: "given",
+  SURN: "familyName",
+  NICK: "laqab",
+  _KUNYA: "kunya",
+};
+
+/**
+ * Top-level records that carry no family data and are skipped on purpose.
+ */
+const IGNORED_RECORDS = new Set(["HEAD", "TRLR", "SUBM", "SUBN"]);
+
+const LINE_PATTERN = /^\s*(\d+)\s+(?:(@[^@]+@)\s+)?([A-Za-z0-9_]+)(?:\s(.*))?$/;
+
+const MONTHS = [
+  "JAN", "FEB", "MAR", "APR", "MAY", "JUN",
+  "JUL", "AUG", "SEP", "OCT", "NOV", "DEC",
+];
+
+/** Date modifiers mapped onto our precisions; ranges are handled apart */
+const DATE_MODIFIERS: { [modifier: string]: FamilyDate["precision"] } = {
+  ABT: "about",
+  CAL: "about",
+  EST: "about",
+  BEF: "before",
+  AFT: "after",
+  FROM: "after",
+  TO: "before",
+};
+
+/**
+ * Returns true when the text looks like a GEDCOM file (starts with "0 HEAD").
+ */
+export function isGedcom(text: string): boolean {
+  return /^\uFEFF?\s*0\s+HEAD\b/.test(text);
+}
+
+/**
+ * Splits the raw file into a forest of level-0 records, folding CONC/CONT
+ * continuation lines into the value of their parent.
+ */
+function parseLines(text: string): GedcomNode[] {
+  const roots: GedcomNode[] = [];
+  const stack: GedcomNode[] = [];
+
+  text
+    .replace(/^\uFEFF/, "")
+    .split(/\r\n|\r|\n/)
+    .forEach((rawLine, index) => {
+      if (rawLine.trim() === "") return;
+      const match = rawLine.match(LINE_PATTERN);
+      if (!match) {
+        throw new Error(`Malformed GEDCOM line ${index + 1}: "${rawLine}"`);
+      }
+
+      const node: GedcomNode = {
+        level: parseInt(match[1], 10),
+        xref: match[2],
+        tag: match[3].toUpperCase(),
+        value: match[4] ?? "",
+        line: index + 1,
+        children: [],
+      };
+
+      while (stack.length > 0 && stack[stack.length - 1].level >= node.level) {
+        stack.pop();
+      }
+      const parent = stack[stack.length - 1];
+
+      if (parent && (node.tag === "CONC" || node.tag === "CONT")) {
+        parent.value += (node.tag === "CONT" ? "\n" : "") + node.value;
+        return;
+      }
+
+      if (parent) {
+        parent.children.push(node);
+      } else if (node.level === 0) {
+        roots.push(node);
+      } else {
+        throw new Error(
+          `GEDCOM line ${node.line} has level ${node.level} without a parent record`
+        );
+      }
+      stack.push(node);
+    });
+
+  return roots;
+}
+
+/**
+ * Reads a plain GEDCOM date: "12 MAR 1950", "MAR 1950" or "1950". Dual
+ * years ("1750/51") keep their first year.
+ */
+function parseGedcomDateParts(value: string): DateParts | undefined {
+  const match = value
+    .trim()
+    .toUpperCase()
+    .match(/^(?:(\d{1,2})\s+)?(?:([A-Z]{3})\s+)?(\d{1,4})(?:\/\d{2})?$/);
+  if (!match) return undefined;
+  const month = match[2] ? MONTHS.indexOf(match[2]) + 1 : undefined;
+  return toDateParts(
+    parseInt(match[3], 10),
+    month,
+    match[1] ? parseInt(match[1], 10) : undefined
+  );
+}
+
+/**
+ * Reads a GEDCOM date value such as "12 MAR 1950", "ABT 1890",
+ * "BET 1900 AND 1910" or "INT 1890 (summer of 1890)". A date phrase is kept
+ * as the original text; phrases without a date are only read for a year.
+ */
+export function parseGedcomDate(value: string | undefined): FamilyDate | undefined {
+  if (!value) return undefined;
+  const text = value.trim();
+
+  const phrase = text.match(/^(?:INT\s+(.*?)\s*)?\((.*)\)$/i);
+  if (phrase) {
+    const interpreted = phrase[1] ? parseGedcomDate(phrase[1]) : undefined;
+    const year = phrase[2].match(/\b(\d{3,4})\b/);
+    const date: FamilyDate | undefined =
+      interpreted ??
+      (year ? { precision: "about", year: parseInt(year[1], 10) } : undefined);
+    return date && { ...date, original: phrase[2].trim() };
+  }
+
+  const range = text.match(/^(?:BET\s+(.+)\s+AND|FROM\s+(.+)\s+TO)\s+(.+)$/i);
+  if (range) {
+    const start = parseGedcomDateParts(range[1] ?? range[2]);
+    const end = parseGedcomDateParts(range[3]);
+    if (!start || !end || compareDateParts(end, start) < 0) return undefined;
+    return { precision: "between", ...start, end };
+  }
+
+  const modifier = text.match(/^([A-Z]+)\s+(.+)$/i);
+  const precision = modifier && DATE_MODIFIERS[modifier[1].toUpperCase()];
+  const parts = parseGedcomDateParts(precision ? modifier![2] : text);
+  return parts && { precision: precision || "exact", ...parts };
+}
+
+/**
+ * Reads an event DATE together with the `_HIJRI` date written beneath it
+ * for dates recorded in the Hijri calendar ("1307-07-20" or
+ * "1300 AND 1305"). An unreadable Hijri date leaves the Gregorian one.
+ */
+function parseEventDate(node: GedcomNode): FamilyDate | undefined {
+  const date = parseGedcomDate(node.value);
+  const hijriNode = node.children.find((child) => child.tag === "_HIJRI");
+  if (!date || !hijriNode) return date;
+
+  const [startText, endText] = hijriNode.value.trim().split(/\s+AND\s+/i);
+  const start = parseDateParts(startText, "hijri");
+  const end = endText ? parseDateParts(endText, "hijri") : undefined;
+  if (!start || (endText && !end)) return date;
+  if (date.precision !== "between") return { ...date, hijri: start };
+  if (!end || compareDateParts(end, start) < 0) return date;
+  return { ...date, hijri: { ...start, end } };
+}
+
+/**
+ * Converts a GEDCOM cross-reference ("@I12@") into a member ID.
+ */
+function xrefToId(xref: string): string {
+  return `m_${xref.replace(/@/g, "").replace(/[^A-Za-z0-9_-]/g, "_")}`;
+}
+
+/**
+ * Removes the slashes GEDCOM uses to delimit the surname ("Ahmad /Al-Saud/").
+ */
+function cleanName(value: string): string {
+  return value.replace(/\//g, " ").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Parses a GEDCOM 5.5.1 file into members and relationships.
+ *
+ * @param text - The raw contents of a .ged file.
+ * @returns The imported data plus a report of unsupported tags and warnings.
+ * @throws If the file is not structurally valid GEDCOM.
+ */
+export function parseGedcom(text: string): GedcomImportResult {
+  if (!isGedcom(text)) {
+    throw new Error("Not a GEDCOM file: missing \"0 HEAD\" header.");
+  }
+
+  const records = parseLines(text);
+  const members: { [id: string]: FamilyMember } = {};
+  const relationships: RelationshipConnection[] = [];
+  const relationshipIds = new Set<string>();
+  const unsupported = new Map<string, GedcomUnsupportedTag>();
+  const warnings: string[] = [];
+  // Pedigree linkage per child, keyed by `${childId}|${familyXref}`
+  const pedigrees = new Map<string, AdoptionType>();
+
+  const reportUnsupported = (path: string, node: GedcomNode) => {
+    const existing = unsupported.get(path);
+    if (existing) {
+      existing.count++;
+    } else {
+      unsupported.set(path, { path, count: 1, firstLine: node.line });
+    }
+  };
+
+  const addRelationship = (rel: RelationshipConnection) => {
+    if (relationshipIds.has(rel.id)) return;
+    relationshipIds.add(rel.id);
+    relationships.push(rel);
+  };
+
+  // Pass 1: individuals
+  records
+    .filter((record) => record.tag === "INDI")
+    .forEach((record) => {
+      if (!record.xref) {
+        warnings.push(`INDI record on line ${record.line} has no ID and was skipped`);
+        return;
+      }
+      const id = xrefToId(record.xref);
+      const member: Partial<FamilyMember> = { id };
+
+      record.children.forEach((child) => {
+        switch (child.tag) {
+          case "NAME": {
+            // Only the first NAME is the primary name
+            const isPrimary = !member.name;
+            if (isPrimary) member.name = cleanName(child.value);
+            child.children.forEach((sub) => {
+              const field = TAG_TO_NAME_PART[sub.tag];
+              if (isPrimary && field && sub.value.trim()) {
+                member.nameParts = {
+                  ...member.nameParts,
+                  [field]: sub.value.trim(),
+                };
+              } else {
+                reportUnsupported(`INDI.NAME.${sub.tag}`, sub);
+              }
+            });
+            break;
+          }
+          case "SEX":
+            if (child.value.trim().toUpperCase() === "M") member.gender = "male";
+            else if (child.value.trim().toUpperCase() === "F")
+              member.gender = "female";
+            break;
+          case "BIRT":
+          case "DEAT":
+            child.children.forEach((sub) => {
+              if (sub.tag === "DATE") {
+                const date = parseEventDate(sub);
+                if (date === undefined) {
+                  warnings.push(
+                    `Unreadable date "${sub.value}" on line ${sub.line}`
+                  );
+                } else if (child.tag === "BIRT") {
+                  member.birth = date;
+                } else {
+                  member.death = date;
+                }
+              } else if (sub.tag === "PLAC" && child.tag === "BIRT") {
+                member.birthplace = sub.value.trim();
+              } else {
+                reportUnsupported(`INDI.${child.tag}.${sub.tag}`, sub);
+              }
+            });
+            break;
+          case "OCCU":
+            member.occupation = child.value.trim();
+            break;
+          case "NOTE":
+            // Shared NOTE records (pointers) are not resolved
+            if (child.value.startsWith("@")) {
+              reportUnsupported("INDI.NOTE @pointer@", child);
+              break;
+            }
+            member.notes = member.notes
+              ? `${member.notes}\n${child.value}`
+              : child.value;
+            break;
+          case "OBJE":
+            child.children.forEach((sub) => {
+              if (sub.tag === "FILE" && !member.imageUrl) {
+                member.imageUrl = sub.value.trim();
+              } else if (sub.tag !== "FILE") {
+                reportUnsupported(`INDI.OBJE.${sub.tag}`, sub);
+              }
+            });
+            break;
+          case "FAMC":
+            child.children.forEach((sub) => {
+              if (sub.tag === "PEDI") {
+                const adoptionType =
+                  PEDIGREE_TO_ADOPTION[sub.value.trim().toLowerCase()];
+                if (adoptionType) {
+                  pedigrees.set(`${id}|${child.value.trim()}`, adoptionType);
+                } else {
+                  reportUnsupported(`INDI.FAMC.PEDI ${sub.value.trim()}`, sub);
+                }
+              } else {
+                reportUnsupported(`INDI.FAMC.${sub.tag}`, sub);
+              }
+            });
+            break;
+          case "FAMS":
+            // Spouse links are rebuilt from the FAM records
+            break;
+          default:
+            reportUnsupported(`INDI.${child.tag}`, child);
+        }
+      });
+
+      if (!member.name) {
+        member.name = record.xref.replace(/@/g, "");
+        warnings.push(`${record.xref} has no NAME; using its ID as the name`);
+      }
+      if (!member.gender) {
+        member.gender = "male";
+        warnings.push(`${member.name} (${record.xref}) has no SEX; defaulted to male`);
+      }
+      if (member.birth === undefined) {
+        warnings.push(`${member.name} (${record.xref}) has no birth date`);
+      }
+
+      members[id] = member as FamilyMember;
+    });
+
+  // Pass 2: families
+  records
+    .filter((record) => record.tag === "FAM")
+    .forEach((record) => {
+      const parentIds: string[] = [];
+      const childIds: string[] = [];
+      let marriage: FamilyDate | undefined;
+      let divorce: FamilyDate | undefined;
+
+      record.children.forEach((child) => {
+        switch (child.tag) {
+          case "HUSB":
+          case "WIFE": {
+            const parentId = xrefToId(child.value.trim());
+            if (members[parentId]) parentIds.push(parentId);
+            else warnings.push(`FAM ${record.xref} references unknown ${child.value}`);
+            break;
+          }
+          case "CHIL": {
+            const childId = xrefToId(child.value.trim());
+            if (members[childId]) childIds.push(childId);
+            else warnings.push(`FAM ${record.xref} references unknown ${child.value}`);
+            break;
+          }
+          case "MARR":
+          case "DIV":
+            child.children.forEach((sub) => {
+              if (sub.tag === "DATE") {
+                const date = parseEventDate(sub);
+                if (date === undefined) {
+                  warnings.push(
+                    `Unreadable date "${sub.value}" on line ${sub.line}`
+                  );
+                } else if (child.tag === "MARR") marriage = date;
+                else divorce = date;
+              } else {
+                reportUnsupported(`FAM.${child.tag}.${sub.tag}`, sub);
+              }
+            });
+            break;
+          default:
+            reportUnsupported(`FAM.${child.tag}`, child);
+        }
+      });
+
+      if (parentIds.length === 2) {
+        const [fromId, toId] = parentIds;
+        const metadata: RelationshipConnection["metadata"] = {};
+        if (marriage !== undefined) metadata.marriage = marriage;
+        if (divorce !== undefined) metadata.divorce = divorce;
+        addRelationship({
+          id: `${fromId}_spouse_${toId}`,
+          fromId,
+          toId,
+          type: "spouse",
+          bidirectional: true,
+          ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+        });
+      }
+
+      childIds.forEach((childId) => {
+        const adoptionType = record.xref
+          ? pedigrees.get(`${childId}|${record.xref}`)
+          : undefined;
+        parentIds.forEach((parentId) => {
+          addRelationship({
+            id: `${parentId}_parent_${childId}`,
+            fromId: parentId,
+            toId: childId,
+            type: "parent",
+            bidirectional: false,
+            ...(adoptionType ? { metadata: { adoptionType } } : {}),
+          });
+        });
+      });
+    });
+
+  // Everything else at level 0 (SOUR, REPO, NOTE, OBJE records...)
+  records
+    .filter(
+      (record) =>
+        record.tag !== "INDI" &&
+        record.tag !== "FAM" &&
+        !IGNORED_RECORDS.has(record.tag)
+    )
+    .forEach((record) => reportUnsupported(record.tag, record));
+
+  const memberIds = Object.keys(members);
+  if (memberIds.length === 0) {
+    throw new Error("GEDCOM file contains no individuals (INDI records).");
+  }
+
+  return {
+    members,
+    relationships,
+    mainId: memberIds[0],
+    unsupportedTags: Array.from(unsupported.values()),
+    warnings,
+  };
+}
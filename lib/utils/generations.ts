@@ -0,0 +1,117 @@
+/**
+ * @file Generation numbers counted from a founding ancestor, who is
+ * generation 1. Children are one generation below their parents and
+ * spouses share their partner's generation, so the numbers do not depend on
+ * who the tree is centred on or how it is laid out. Labels, row guides, the
+ * CSV export, collapsing by generation and the statistics all use them.
+ */
+import { FamilyMember, RelationshipConnection } from "../types";
+import { indexRelationships } from "./compactLayout";
+
+/**
+ * The founder used when none was chosen: the ancestor of `personId` the most
+ * generations up, so none of their ancestors falls above generation 1. Of
+ * ancestors equally far up, the one along the fathers' line comes first.
+ */
+export function getDefaultFounderId(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  personId: string
+): string {
+  const index = indexRelationships(members, relationships);
+  const fathersFirst = (a: string, b: string) =>
+    Number(members[a].gender !== "male") - Number(members[b].gender !== "male");
+  const distances = new Map([[personId, 0]]);
+  const queue = [personId];
+  let founderId = personId;
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    const distance = distances.get(id)!;
+    if (distance > distances.get(founderId)!) founderId = id;
+    [...index.parentsOf(id)].sort(fathersFirst).forEach((parentId) => {
+      if (distances.has(parentId)) return;
+      distances.set(parentId, distance + 1);
+      queue.push(parentId);
+    });
+  }
+  return founderId;
+}
+
+/**
+ * The chosen founder while they are still in the tree, otherwise the default
+ * founder of `mainId` (or of the first member when there is no main person).
+ */
+export function resolveFounderId(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  founderId: string | null | undefined,
+  mainId: string
+): string {
+  if (founderId && members[founderId]) return founderId;
+  const personId = members[mainId] ? mainId : Object.keys(members)[0] ?? "";
+  return getDefaultFounderId(members, relationships, personId);
+}
+
+/**
+ * Generation of everyone related to `founderId` by blood or marriage.
+ * People are numbered from the nearest relative already numbered, so a
+ * cousin marriage across generations keeps the number of the closer line.
+ * The count starts with the founder: anyone above them is left unnumbered.
+ */
+export function getGenerationNumbers(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  founderId: string
+): Map<string, number> {
+  const generations = new Map<string, number>();
+  if (!members[founderId]) return generations;
+  const index = indexRelationships(members, relationships);
+
+  generations.set(founderId, 1);
+  const queue = [founderId];
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i];
+    const generation = generations.get(id)!;
+    const number = (relativeIds: string[], relativeGeneration: number) =>
+      relativeIds.forEach((relativeId) => {
+        if (generations.has(relativeId)) return;
+        generations.set(relativeId, relativeGeneration);
+        queue.push(relativeId);
+      });
+    number(index.spousesOf(id), generation);
+    number(index.childrenOf(id), generation + 1);
+    number(index.parentsOf(id), generation - 1);
+  }
+  generations.forEach((generation, id) => {
+    if (generation < 1) generations.delete(id);
+  });
+  return generations;
+}
+
+/**
+ * Generation numbers of the tree, counted from the chosen founder or the
+ * default one of `mainId`.
+ */
+export function getTreeGenerations(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  founderId: string | null | undefined,
+  mainId: string
+): Map<string, number> {
+  return getGenerationNumbers(
+    members,
+    relationships,
+    resolveFounderId(members, relationships, founderId, mainId)
+  );
+}
+
+/**
+ * The number of generations in `generations`, 0 when nobody is numbered.
+ */
+export function countGenerations(generations: Map<string, number>): number {
+  let count = 0;
+  generations.forEach((generation) => {
+    count = Math.max(count, generation);
+  });
+  return count;
+}
@@ -0,0 +1,130 @@
+/**
+ * @file Conversion between the Gregorian and Hijri calendars. Hijri dates
+ * follow the Umm al-Qura calendar used in Saudi documents, read through
+ * Intl; the arithmetic (tabular) Hijri calendar only gives the first
+ * estimate when converting a Hijri date to Gregorian.
+ */
+import { DateParts } from "../types";
+
+type FullDate = Required<DateParts>;
+
+/** The tabular calendar never drifts further than this from Umm al-Qura */
+const MAX_CORRECTION_DAYS = 5;
+
+let hijriFormatter: Intl.DateTimeFormat | null = null;
+
+const utcDate = ({ year, month, day }: FullDate) => {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date;
+};
+
+/**
+ * The Umm al-Qura date of a Gregorian day.
+ */
+function gregorianDayToHijri(date: FullDate): FullDate {
+  hijriFormatter ??= new Intl.DateTimeFormat("en-u-ca-islamic-umalqura", {
+    timeZone: "UTC",
+    year: "numeric",
+    month: "numeric",
+    day: "numeric",
+  });
+  const parts = hijriFormatter.formatToParts(utcDate(date));
+  const value = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+  return { year: value("year"), month: value("month"), day: value("day") };
+}
+
+/**
+ * First estimate of the Gregorian day of a Hijri date, from the tabular
+ * calendar through the Julian day number.
+ */
+function estimateGregorianDay({ year, month, day }: FullDate): FullDate {
+  const jdn =
+    day +
+    Math.ceil(29.5 * (month - 1)) +
+    (year - 1) * 354 +
+    Math.floor((3 + 11 * year) / 30) +
+    1948439;
+  const a = jdn + 32044;
+  const b = Math.floor((4 * a + 3) / 146097);
+  const c = a - Math.floor((146097 * b) / 4);
+  const d = Math.floor((4 * c + 3) / 1461);
+  const e = c - Math.floor((1461 * d) / 4);
+  const m = Math.floor((5 * e + 2) / 153);
+  return {
+    year: 100 * b + d - 4800 + Math.floor(m / 10),
+    month: m + 3 - 12 * Math.floor(m / 10),
+    day: e - Math.floor((153 * m + 2) / 5) + 1,
+  };
+}
+
+const dayKey = ({ year, month, day }: FullDate) => year * 400 + month * 32 + day;
+
+/**
+ * The Gregorian day of an Umm al-Qura date. The 30th of a 29-day month
+ * becomes the first of the next month.
+ */
+function hijriDayToGregorian(hijri: FullDate): FullDate {
+  const date = utcDate(estimateGregorianDay(hijri));
+  for (let step = 0; step < MAX_CORRECTION_DAYS * 2; step++) {
+    const current: FullDate = {
+      year: date.getUTCFullYear(),
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+    };
+    const offset = dayKey(hijri) - dayKey(gregorianDayToHijri(current));
+    if (offset === 0) return current;
+    date.setUTCDate(date.getUTCDate() + Math.sign(offset));
+  }
+  return estimateGregorianDay(hijri);
+}
+
+/**
+ * Returns the parts when they form a Hijri date (months of up to 30 days),
+ * or undefined when the month or day is out of range.
+ */
+export function toHijriParts(
+  year: number,
+  month?: number,
+  day?: number
+): DateParts | undefined {
+  if (!Number.isInteger(year)) return undefined;
+  if (month === undefined) return day === undefined ? { year } : undefined;
+  if (!Number.isInteger(month) || month < 1 || month > 12) return undefined;
+  if (day === undefined) return { year, month };
+  if (!Number.isInteger(day) || day < 1 || day > 30) return undefined;
+  return { year, month, day };
+}
+
+/**
+ * Converts Gregorian parts to Hijri at the same detail. A year or month
+ * alone is converted at its middle, since it overlaps two Hijri ones.
+ */
+export function gregorianToHijri(parts: DateParts): DateParts {
+  const hijri = gregorianDayToHijri({
+    year: parts.year,
+    month: parts.month ?? 7,
+    day: parts.day ?? (parts.month === undefined ? 1 : 15),
+  });
+  if (parts.month === undefined) return { year: hijri.year };
+  if (parts.day === undefined) return { year: hijri.year, month: hijri.month };
+  return hijri;
+}
+
+/**
+ * Converts Hijri parts to Gregorian at the same detail, a year or month
+ * alone again at its middle.
+ */
+export function hijriToGregorian(parts: DateParts): DateParts {
+  const gregorian = hijriDayToGregorian({
+    year: parts.year,
+    month: parts.month ?? 6,
+    day: parts.day ?? 15,
+  });
+  if (parts.month === undefined) return { year: gregorian.year };
+  if (parts.day === undefined) {
+    return { year: gregorian.year, month: gregorian.month };
+  }
+  return gregorian;
+}
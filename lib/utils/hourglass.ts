@@ -0,0 +1,163 @@
+/**
+ * @file Hourglass layout: the ancestors of one person spread out above them
+ * and their descendants below, each side a chosen number of generations
+ * deep. Descendants are drawn with their spouses inline.
+ */
+import * as d3 from "d3";
+import { FamilyMember, RelationshipConnection, TreeNodeData } from "../types";
+import {
+  COUSIN_GAP,
+  SPOUSE_SPACING,
+  indexRelationships,
+} from "./compactLayout";
+import { getNonStepParentIds } from "./relationshipHelpers";
+
+/** Generations shown above and below the person by default */
+export const DEFAULT_HOURGLASS_DEPTH = { ancestors: 3, descendants: 3 };
+
+/** Deepest either side of the hourglass can be set */
+export const MAX_HOURGLASS_DEPTH = 10;
+
+interface HourglassParams {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+  rootId: string;
+  ancestorDepth: number;
+  descendantDepth: number;
+  nodeSeparation: number;
+  levelSeparation: number;
+  showSpouses: boolean;
+}
+
+/**
+ * One slot of either half: a person with the spouses drawn next to them.
+ * Above the person the "children" of a slot are its parents.
+ */
+interface HourglassSlot {
+  id: string;
+  spouseIds: string[];
+  children: HourglassSlot[];
+}
+
+const halfWidth = (slot: HourglassSlot) =>
+  (1 + slot.spouseIds.length * SPOUSE_SPACING) / 2;
+
+/**
+ * Lays out the hourglass around `rootId`, who is placed at the origin.
+ * Ancestors get negative levels. Anyone reached twice (cousin marriages,
+ * pedigree collapse) is drawn in the first place they were reached only.
+ */
+export function calculateHourglass({
+  members,
+  relationships,
+  rootId,
+  ancestorDepth,
+  descendantDepth,
+  nodeSeparation,
+  levelSeparation,
+  showSpouses,
+}: HourglassParams): TreeNodeData[] {
+  if (!members[rootId]) return [];
+  const { childrenOf, spousesOf } = indexRelationships(members, relationships);
+  const drawn = new Set<string>([rootId]);
+  const nodes: TreeNodeData[] = [];
+
+  const place = (id: string, x: number, level: number, isSpouse = false) => {
+    nodes.push({
+      ...members[id],
+      x: x * nodeSeparation,
+      y: level * levelSeparation,
+      children: [],
+      parents: [],
+      spouses: [],
+      level,
+      ...(isSpouse ? { isSpouse: true } : {}),
+    });
+  };
+
+  // Descendants, one generation at a time, each with their spouses
+  const claimCouple = (id: string): HourglassSlot => {
+    const spouseIds = showSpouses
+      ? spousesOf(id).filter((spouseId) => !drawn.has(spouseId))
+      : [];
+    spouseIds.forEach((spouseId) => drawn.add(spouseId));
+    return { id, spouseIds, children: [] };
+  };
+  const rootCouple = claimCouple(rootId);
+  let generation = [rootCouple];
+  for (let depth = 0; depth < descendantDepth; depth++) {
+    const nextGeneration: HourglassSlot[] = [];
+    generation.forEach((couple) => {
+      [couple.id, ...couple.spouseIds].forEach((parentId) => {
+        childrenOf(parentId).forEach((childId) => {
+          if (drawn.has(childId)) return;
+          drawn.add(childId);
+          const child = claimCouple(childId);
+          couple.children.push(child);
+          nextGeneration.push(child);
+        });
+      });
+    });
+    generation = nextGeneration;
+  }
+
+  const descendants = d3.hierarchy(rootCouple);
+  d3
+    .tree<HourglassSlot>()
+    .nodeSize([1, 1])
+    .separation(
+      (a, b) =>
+        halfWidth(a.data) +
+        halfWidth(b.data) +
+        (a.parent === b.parent ? 0 : COUSIN_GAP)
+    )(descendants);
+  // Couples are centred on their slot, person first; shift the root to 0
+  const personX = (node: d3.HierarchyNode<HourglassSlot>) =>
+    (node as d3.HierarchyPointNode<HourglassSlot>).x -
+    (node.data.spouseIds.length * SPOUSE_SPACING) / 2;
+  const rootX = personX(descendants);
+  descendants.each((node) => {
+    const x = personX(node) - rootX;
+    place(node.data.id, x, node.depth);
+    node.data.spouseIds.forEach((spouseId, index) =>
+      place(spouseId, x + (index + 1) * SPOUSE_SPACING, node.depth, true)
+    );
+  });
+
+  // Ancestors, father's side first, spreading upwards
+  const rootSlot: HourglassSlot = { id: rootId, spouseIds: [], children: [] };
+  let line = [rootSlot];
+  for (let depth = 0; depth < ancestorDepth; depth++) {
+    const nextLine: HourglassSlot[] = [];
+    line.forEach((slot) => {
+      getNonStepParentIds(slot.id, relationships)
+        .filter((parentId) => members[parentId] && !drawn.has(parentId))
+        .sort(
+          (a, b) =>
+            Number(members[a].gender !== "male") -
+            Number(members[b].gender !== "male")
+        )
+        .forEach((parentId) => {
+          drawn.add(parentId);
+          const parent: HourglassSlot = {
+            id: parentId,
+            spouseIds: [],
+            children: [],
+          };
+          slot.children.push(parent);
+          nextLine.push(parent);
+        });
+    });
+    line = nextLine;
+  }
+
+  const ancestors = d3.tree<HourglassSlot>().nodeSize([1, 1]).separation(
+    (a, b) => (a.parent === b.parent ? 1 : 1 + COUSIN_GAP)
+  )(d3.hierarchy(rootSlot));
+  ancestors.each((node) => {
+    if (node.depth === 0) return;
+    place(node.data.id, node.x - ancestors.x, -node.depth);
+  });
+
+  return nodes;
+}
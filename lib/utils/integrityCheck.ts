@@ -0,0 +1,347 @@
+/**
+ * @file Tree integrity analyzer. Looks for records that cannot all be true at
+ * once — ancestry cycles, impossible dates, contradictory links and orphaned
+ * rows — and offers a fix for the cases where one is safe to apply
+ * automatically.
+ */
+import { FamilyMember, RelationshipConnection } from "../types";
+import { relationshipKey } from "./duplicates";
+import { getAge, isDefinitelyBefore } from "./familyDate";
+import {
+  getSharedParentIds,
+  getNonStepParentIds,
+  getFullSiblingIds,
+  getHalfSiblingIds,
+} from "./relationshipHelpers";
+
+/** Youngest age at which a recorded marriage is not flagged */
+export const MIN_MARRIAGE_AGE = 12;
+
+export type IntegrityIssueKind =
+  | "ancestryCycle"
+  | "ownParent"
+  | "ownSpouse"
+  | "ownSibling"
+  | "tooManyParents"
+  | "bornAfterParentDeath"
+  | "earlyMarriage"
+  | "spouseIsRelative"
+  | "siblingWithoutSharedParents"
+  | "siblingMissingParents"
+  | "duplicateRelationship"
+  | "missingMember";
+
+/**
+ * A change that resolves an issue without guessing: rows to delete and
+ * parent links to add.
+ */
+export interface IntegrityFix {
+  removeRelationshipIds: string[];
+  addParentLinks: { parentId: string; childId: string }[];
+}
+
+export interface IntegrityIssue {
+  /** Stable key for the issue, built from its kind and the records involved */
+  id: string;
+  kind: IntegrityIssueKind;
+  severity: "error" | "warning";
+  /** Members involved, in the order they appear in the message */
+  memberIds: string[];
+  /** Values for the message placeholders, e.g. { name, parent } */
+  params: { [key: string]: string };
+  fix?: IntegrityFix;
+}
+
+/**
+ * Parents that count towards the biological limit of two: adopted and step
+ * parents are left out.
+ */
+function getBiologicalParentIds(
+  personId: string,
+  relationships: RelationshipConnection[]
+): string[] {
+  return relationships
+    .filter(
+      (rel) =>
+        rel.type === "parent" &&
+        rel.toId === personId &&
+        rel.fromId !== personId &&
+        (rel.metadata?.adoptionType ?? "biological") === "biological"
+    )
+    .map((rel) => rel.fromId);
+}
+
+/**
+ * Finds groups of people that are each other's ancestors, using Tarjan's
+ * strongly connected components over parent → child links.
+ */
+function findAncestryCycles(
+  memberIds: string[],
+  relationships: RelationshipConnection[]
+): string[][] {
+  const childrenOf = new Map<string, string[]>();
+  relationships.forEach((rel) => {
+    if (rel.type !== "parent" || rel.fromId === rel.toId) return;
+    childrenOf.set(rel.fromId, [...(childrenOf.get(rel.fromId) ?? []), rel.toId]);
+  });
+
+  let counter = 0;
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    index.set(id, counter);
+    lowLink.set(id, counter);
+    counter++;
+    stack.push(id);
+    onStack.add(id);
+
+    (childrenOf.get(id) ?? []).forEach((childId) => {
+      if (!index.has(childId)) {
+        visit(childId);
+        lowLink.set(id, Math.min(lowLink.get(id)!, lowLink.get(childId)!));
+      } else if (onStack.has(childId)) {
+        lowLink.set(id, Math.min(lowLink.get(id)!, index.get(childId)!));
+      }
+    });
+
+    if (lowLink.get(id) === index.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  memberIds.forEach((id) => {
+    if (!index.has(id)) visit(id);
+  });
+  return cycles;
+}
+
+/**
+ * Checks the whole tree and returns every integrity issue found, errors
+ * first.
+ */
+export function analyzeTreeIntegrity(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = [];
+  const nameOf = (id: string) => members[id]?.name || id;
+  const removeFix = (ids: string[]): IntegrityFix => ({
+    removeRelationshipIds: ids,
+    addParentLinks: [],
+  });
+
+  // Orphaned and duplicate rows. These are checked first and left out of the
+  // remaining checks so one bad row is not reported several times.
+  const seen = new Set<string>();
+  const validRelationships = relationships.filter((rel) => {
+    if (!members[rel.fromId] || !members[rel.toId]) {
+      const presentId = members[rel.fromId] ? rel.fromId : rel.toId;
+      issues.push({
+        id: `missingMember:${rel.id}`,
+        kind: "missingMember",
+        severity: "warning",
+        memberIds: members[presentId] ? [presentId] : [],
+        params: {
+          name: members[presentId] ? nameOf(presentId) : "",
+          missing: members[rel.fromId] ? rel.toId : rel.fromId,
+        },
+        fix: removeFix([rel.id]),
+      });
+      return false;
+    }
+    const key = relationshipKey(rel);
+    if (seen.has(key)) {
+      issues.push({
+        id: `duplicateRelationship:${rel.id}`,
+        kind: "duplicateRelationship",
+        severity: "warning",
+        memberIds: [rel.fromId, rel.toId],
+        params: { name: nameOf(rel.fromId), other: nameOf(rel.toId) },
+        fix: removeFix([rel.id]),
+      });
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+
+  // Links from a person to themselves
+  validRelationships
+    .filter((rel) => rel.fromId === rel.toId)
+    .forEach((rel) => {
+      const kind =
+        rel.type === "parent"
+          ? "ownParent"
+          : rel.type === "spouse"
+            ? "ownSpouse"
+            : "ownSibling";
+      issues.push({
+        id: `${kind}:${rel.id}`,
+        kind,
+        severity: "error",
+        memberIds: [rel.fromId],
+        params: { name: nameOf(rel.fromId) },
+        fix: removeFix([rel.id]),
+      });
+    });
+  const linked = validRelationships.filter((rel) => rel.fromId !== rel.toId);
+
+  // People who are their own ancestor through other people
+  findAncestryCycles(Object.keys(members), linked).forEach((cycle) => {
+    issues.push({
+      id: `ancestryCycle:${[...cycle].sort().join("|")}`,
+      kind: "ancestryCycle",
+      severity: "error",
+      memberIds: cycle,
+      params: { names: cycle.map(nameOf).join(" → ") },
+    });
+  });
+
+  Object.values(members).forEach((member) => {
+    const parentIds = getBiologicalParentIds(member.id, linked);
+
+    if (parentIds.length > 2) {
+      issues.push({
+        id: `tooManyParents:${member.id}`,
+        kind: "tooManyParents",
+        severity: "error",
+        memberIds: [member.id, ...parentIds],
+        params: {
+          name: member.name,
+          count: String(parentIds.length),
+          parents: parentIds.map(nameOf).join(", "),
+        },
+      });
+    }
+
+    // A father may die before his child is born, so he gets an extra year
+    parentIds.forEach((parentId) => {
+      const parent = members[parentId];
+      if (!parent?.death || !member.birth) return;
+      const allowance = parent.gender === "male" ? 1 : 0;
+      const latestBirth = {
+        ...parent.death,
+        year: parent.death.year + allowance,
+        end: parent.death.end && {
+          ...parent.death.end,
+          year: parent.death.end.year + allowance,
+        },
+      };
+      if (isDefinitelyBefore(latestBirth, member.birth)) {
+        issues.push({
+          id: `bornAfterParentDeath:${member.id}:${parentId}`,
+          kind: "bornAfterParentDeath",
+          severity: "error",
+          memberIds: [member.id, parentId],
+          params: {
+            name: member.name,
+            parent: parent.name,
+            birthYear: String(member.birth.year),
+            deathYear: String(parent.death.year),
+          },
+        });
+      }
+    });
+  });
+
+  linked
+    .filter((rel) => rel.type === "spouse")
+    .forEach((rel) => {
+      const marriage = rel.metadata?.marriage;
+      if (marriage) {
+        [rel.fromId, rel.toId].forEach((id) => {
+          const age = getAge(members[id].birth, marriage);
+          if (age === undefined || age >= MIN_MARRIAGE_AGE) return;
+          issues.push({
+            id: `earlyMarriage:${rel.id}:${id}`,
+            kind: "earlyMarriage",
+            severity: "warning",
+            memberIds: [id, id === rel.fromId ? rel.toId : rel.fromId],
+            params: {
+              name: nameOf(id),
+              other: nameOf(id === rel.fromId ? rel.toId : rel.fromId),
+              age: String(age),
+            },
+          });
+        });
+      }
+
+      const isParentLink = linked.some(
+        (other) =>
+          other.type === "parent" &&
+          ((other.fromId === rel.fromId && other.toId === rel.toId) ||
+            (other.fromId === rel.toId && other.toId === rel.fromId))
+      );
+      const siblingIds = [
+        ...getFullSiblingIds(rel.fromId, linked),
+        ...getHalfSiblingIds(rel.fromId, linked),
+      ];
+      if (isParentLink || siblingIds.includes(rel.toId)) {
+        issues.push({
+          id: `spouseIsRelative:${rel.id}`,
+          kind: "spouseIsRelative",
+          severity: "error",
+          memberIds: [rel.fromId, rel.toId],
+          params: {
+            name: nameOf(rel.fromId),
+            other: nameOf(rel.toId),
+            relation: isParentLink ? "parent" : "sibling",
+          },
+        });
+      }
+    });
+
+  // Sibling links must agree with the recorded parents
+  linked
+    .filter((rel) => rel.type === "sibling")
+    .forEach((rel) => {
+      const fromParents = getNonStepParentIds(rel.fromId, linked);
+      const toParents = getNonStepParentIds(rel.toId, linked);
+      if (fromParents.length === 0 && toParents.length === 0) return;
+      if (getSharedParentIds(rel.fromId, rel.toId, linked).length > 0) return;
+
+      if (fromParents.length > 0 && toParents.length > 0) {
+        issues.push({
+          id: `siblingWithoutSharedParents:${rel.id}`,
+          kind: "siblingWithoutSharedParents",
+          severity: "warning",
+          memberIds: [rel.fromId, rel.toId],
+          params: { name: nameOf(rel.fromId), other: nameOf(rel.toId) },
+        });
+        return;
+      }
+
+      // One side has no parents recorded: give them the other side's parents
+      const [withParents, withoutParents] =
+        fromParents.length > 0 ? [rel.fromId, rel.toId] : [rel.toId, rel.fromId];
+      issues.push({
+        id: `siblingMissingParents:${rel.id}`,
+        kind: "siblingMissingParents",
+        severity: "warning",
+        memberIds: [withoutParents, withParents],
+        params: { name: nameOf(withoutParents), other: nameOf(withParents) },
+        fix: {
+          removeRelationshipIds: [],
+          addParentLinks: getNonStepParentIds(withParents, linked).map(
+            (parentId) => ({ parentId, childId: withoutParents })
+          ),
+        },
+      });
+    });
+
+  return issues.sort(
+    (a, b) =>
+      (a.severity === "error" ? 0 : 1) - (b.severity === "error" ? 0 : 1)
+  );
+}
@@ -0,0 +1,583 @@
+/**
+ * @file Kinship engine: answers "how is B related to A?" for any two members.
+ * Finds the nearest common ancestor by walking parent (and sibling) links,
+ * names the relationship in English and Arabic, and falls back to spouse
+ * links to describe in-laws.
+ */
+import { FamilyMember, RelationshipConnection } from "../types";
+import {
+  getChildIds,
+  getParentIds,
+  getSiblingIds,
+  getSpouseIds,
+  getFullSiblingIds,
+  getHalfSiblingIds,
+  getStepSiblingIds,
+  getStepParentIds,
+  getSharedParentIds,
+  getNonStepParentIds,
+  getNonStepChildIds,
+} from "./relationshipHelpers";
+
+/**
+ * The relationship of `toId` as seen from `fromId`.
+ */
+export interface KinshipResult {
+  /** English term, e.g. "second cousin once removed" */
+  en: string;
+  /** Arabic term, e.g. "ابن عم الأب" */
+  ar: string;
+  kind: "self" | "blood" | "spouse" | "in-law";
+  /** Member ids along the connecting path, from `fromId` to `toId` */
+  path: string[];
+  /** Nearest common ancestor, when the two share a known one */
+  commonAncestorId?: string;
+}
+
+/**
+ * A blood line between two people through their nearest common ancestor.
+ * `upPath` and `downPath` both run from a person up to the ancestor: the
+ * first person's line and the second person's line respectively. A sibling
+ * link without known parents is modelled as a virtual ancestor so siblings
+ * still resolve.
+ */
+interface BloodLine {
+  up: number;
+  down: number;
+  upPath: string[];
+  downPath: string[];
+}
+
+const VIRTUAL_PREFIX = "~sibling:";
+
+/**
+ * Walks upwards from a person and records every reachable ancestor together
+ * with the person it was reached from.
+ */
+function collectAncestors(
+  personId: string,
+  relationships: RelationshipConnection[]
+): Map<string, { depth: number; from: string | null }> {
+  const visited = new Map<string, { depth: number; from: string | null }>();
+  visited.set(personId, { depth: 0, from: null });
+  const queue = [personId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    const { depth } = visited.get(current)!;
+    if (current.startsWith(VIRTUAL_PREFIX)) continue;
+
+    const next = [
+      ...getParentIds(current, relationships),
+      ...getSiblingIds(current, relationships).map(
+        (siblingId) => `${VIRTUAL_PREFIX}${[current, siblingId].sort().join("|")}`
+      ),
+    ];
+    next.forEach((id) => {
+      if (visited.has(id)) return;
+      visited.set(id, { depth: depth + 1, from: current });
+      queue.push(id);
+    });
+  }
+
+  return visited;
+}
+
+/**
+ * Follows the recorded links back from an ancestor to the starting person
+ * and returns the ids ordered person → ancestor.
+ */
+function tracePath(
+  ancestors: Map<string, { depth: number; from: string | null }>,
+  ancestorId: string
+): string[] {
+  const path: string[] = [];
+  let current: string | null = ancestorId;
+  while (current !== null) {
+    path.unshift(current);
+    current = ancestors.get(current)?.from ?? null;
+  }
+  return path;
+}
+
+/**
+ * Finds the closest blood line between two people, or null if they share
+ * no known ancestor.
+ */
+function findBloodLine(
+  fromId: string,
+  toId: string,
+  relationships: RelationshipConnection[]
+): BloodLine | null {
+  const fromAncestors = collectAncestors(fromId, relationships);
+  const toAncestors = collectAncestors(toId, relationships);
+
+  let best: { id: string; up: number; down: number } | null = null;
+  fromAncestors.forEach(({ depth: up }, id) => {
+    const match = toAncestors.get(id);
+    if (!match) return;
+    const down = match.depth;
+    if (
+      !best ||
+      up + down < best.up + best.down ||
+      (up + down === best.up + best.down &&
+        Math.abs(up - down) < Math.abs(best.up - best.down))
+    ) {
+      best = { id, up, down };
+    }
+  });
+  if (!best) return null;
+
+  const { id, up, down } = best;
+  return {
+    up,
+    down,
+    upPath: tracePath(fromAncestors, id),
+    downPath: tracePath(toAncestors, id),
+  };
+}
+
+/**
+ * The visible member ids of a blood line, skipping virtual ancestors.
+ */
+function bloodLinePath(line: BloodLine): string[] {
+  const downward = [...line.downPath].reverse();
+  return [...line.upPath, ...downward.slice(1)].filter(
+    (id) => !id.startsWith(VIRTUAL_PREFIX)
+  );
+}
+
+const ENGLISH_ORDINALS = [
+  "",
+  "first",
+  "second",
+  "third",
+  "fourth",
+  "fifth",
+  "sixth",
+  "seventh",
+  "eighth",
+  "ninth",
+  "tenth",
+];
+
+function numericOrdinal(n: number): string {
+  const suffix =
+    n % 100 >= 11 && n % 100 <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][n % 10] ?? "th";
+  return `${n}${suffix}`;
+}
+
+/**
+ * "great-", "great-great-", then "3rd great-", "4th great-"...
+ */
+function greatPrefix(count: number): string {
+  if (count <= 0) return "";
+  if (count <= 2) return "great-".repeat(count);
+  return `${numericOrdinal(count)} great-`;
+}
+
+function removedSuffix(count: number): string {
+  if (count === 0) return "";
+  if (count === 1) return " once removed";
+  if (count === 2) return " twice removed";
+  return ` ${count} times removed`;
+}
+
+/**
+ * English name of a blood relationship, gendered by the second person.
+ */
+function englishBloodTerm(line: BloodLine, isMale: boolean): string {
+  const { up, down } = line;
+  const gendered = (male: string, female: string) => (isMale ? male : female);
+
+  if (down === 0) {
+    if (up === 1) return gendered("father", "mother");
+    return `${greatPrefix(up - 2)}${gendered("grandfather", "grandmother")}`;
+  }
+  if (up === 0) {
+    if (down === 1) return gendered("son", "daughter");
+    return `${greatPrefix(down - 2)}${gendered("grandson", "granddaughter")}`;
+  }
+  if (up === 1 && down === 1) return gendered("brother", "sister");
+  if (down === 1) return `${greatPrefix(up - 2)}${gendered("uncle", "aunt")}`;
+  if (up === 1) return `${greatPrefix(down - 2)}${gendered("nephew", "niece")}`;
+
+  const degree = Math.min(up, down) - 1;
+  const ordinal = ENGLISH_ORDINALS[degree] ?? numericOrdinal(degree);
+  return `${ordinal} cousin${removedSuffix(Math.abs(up - down))}`;
+}
+
+/**
+ * Arabic name of a blood relationship as a chain of nouns in idafa, e.g.
+ * ["ابن", "عم", "أب"] for "ابن عم الأب". Arabic distinguishes the paternal
+ * side (عم/عمة) from the maternal side (خال/خالة), so the genders along the
+ * path matter, not just the generation counts.
+ */
+function arabicBloodWords(
+  line: BloodLine,
+  isMaleId: (id: string) => boolean
+): string[] {
+  const { up, down, upPath, downPath } = line;
+  // downPath runs from the second person up to the ancestor
+  const downNode = (j: number) => downPath[down - j];
+
+  const ancestorWords = (k: number): string[] => {
+    const male = isMaleId(upPath[k]);
+    if (k === 1) return [male ? "أب" : "أم"];
+    if (k === 2) return [male ? "جد" : "جدة"];
+    return [male ? "والد" : "والدة", ...ancestorWords(k - 1)];
+  };
+
+  const descendantWords = (j: number): string[] => {
+    const male = isMaleId(downNode(j));
+    if (j === 1) {
+      if (up === 0) return [male ? "ابن" : "ابنة"];
+      if (up === 1) return [male ? "أخ" : "أخت"];
+      // Sibling of an ancestor: paternal or maternal side of that ancestor's child
+      const paternal = isMaleId(upPath[up - 1]);
+      const term = paternal ? (male ? "عم" : "عمة") : male ? "خال" : "خالة";
+      return up === 2 ? [term] : [term, ...ancestorWords(up - 2)];
+    }
+    if (j === 2 && up === 0) return [male ? "حفيد" : "حفيدة"];
+    return [male ? "ابن" : "بنت", ...descendantWords(j - 1)];
+  };
+
+  return down === 0 ? ancestorWords(up) : descendantWords(down);
+}
+
+const ARABIC_COMPOUND_HEADS = ["ابن", "بنت"];
+const ARABIC_COMPOUND_TAILS = ["عم", "عمة", "خال", "خالة", "أخ", "أخت"];
+
+/**
+ * Renders an idafa chain: the last noun takes the definite article, except
+ * for the idiomatic two-word terms such as "ابن عم" or "بنت أخت".
+ */
+function renderArabic(words: string[]): string {
+  if (words.length === 1) return words[0];
+  if (
+    words.length === 2 &&
+    ARABIC_COMPOUND_HEADS.includes(words[0]) &&
+    ARABIC_COMPOUND_TAILS.includes(words[1])
+  ) {
+    return words.join(" ");
+  }
+  const last = words[words.length - 1];
+  return [...words.slice(0, -1), last.startsWith("ال") ? last : `ال${last}`].join(" ");
+}
+
+/**
+ * Names the relationship of `toId` as seen from `fromId`.
+ *
+ * @param fromId - The person the relationship is described for ("A").
+ * @param toId - The person being described ("B is A's ...").
+ * @returns The kinship, or null if no blood or in-law connection was found.
+ */
+export function calculateKinship(
+  fromId: string,
+  toId: string,
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): KinshipResult | null {
+  if (!members[fromId] || !members[toId]) return null;
+  const isMaleId = (id: string) => members[id]?.gender !== "female";
+  const toIsMale = isMaleId(toId);
+
+  if (fromId === toId) {
+    return { en: "self", ar: "نفس الشخص", kind: "self", path: [fromId] };
+  }
+
+  const blood = findBloodLine(fromId, toId, relationships);
+  if (blood) {
+    const ancestorId = blood.upPath[blood.up];
+    return {
+      en: englishBloodTerm(blood, toIsMale),
+      ar: renderArabic(arabicBloodWords(blood, isMaleId)),
+      kind: "blood",
+      path: bloodLinePath(blood),
+      commonAncestorId: ancestorId.startsWith(VIRTUAL_PREFIX)
+        ? undefined
+        : ancestorId,
+    };
+  }
+
+  const fromSpouses = getSpouseIds(fromId, relationships);
+  if (fromSpouses.includes(toId)) {
+    return {
+      en: toIsMale ? "husband" : "wife",
+      ar: toIsMale ? "زوج" : "زوجة",
+      kind: "spouse",
+      path: [fromId, toId],
+    };
+  }
+
+  const candidates: KinshipResult[] = [];
+
+  // B is married to one of A's blood relatives
+  getSpouseIds(toId, relationships).forEach((spouseId) => {
+    const line = findBloodLine(fromId, spouseId, relationships);
+    if (!line) return;
+    const spouseTerm = englishBloodTerm(line, isMaleId(spouseId));
+    let en = `${spouseTerm}'s ${toIsMale ? "husband" : "wife"}`;
+    if (line.up === 0 && line.down === 1) {
+      en = toIsMale ? "son-in-law" : "daughter-in-law";
+    } else if (line.up === 1 && line.down === 1) {
+      en = toIsMale ? "brother-in-law" : "sister-in-law";
+    }
+    candidates.push({
+      en,
+      ar: renderArabic([
+        toIsMale ? "زوج" : "زوجة",
+        ...arabicBloodWords(line, isMaleId),
+      ]),
+      kind: "in-law",
+      path: [...bloodLinePath(line), toId],
+    });
+  });
+
+  // B is a blood relative of A's spouse
+  fromSpouses.forEach((spouseId) => {
+    const line = findBloodLine(spouseId, toId, relationships);
+    if (!line) return;
+    const spouseIsMale = isMaleId(spouseId);
+    let en = `${spouseIsMale ? "husband" : "wife"}'s ${englishBloodTerm(
+      line,
+      toIsMale
+    )}`;
+    if (line.up === 1 && line.down === 0) {
+      en = toIsMale ? "father-in-law" : "mother-in-law";
+    } else if (line.up === 1 && line.down === 1) {
+      en = toIsMale ? "brother-in-law" : "sister-in-law";
+    } else if (line.up === 0 && line.down === 1) {
+      en = toIsMale ? "stepson" : "stepdaughter";
+    }
+    candidates.push({
+      en,
+      ar: renderArabic([
+        ...arabicBloodWords(line, isMaleId),
+        spouseIsMale ? "زوج" : "زوجة",
+      ]),
+      kind: "in-law",
+      path: [fromId, ...bloodLinePath(line)],
+    });
+  });
+
+  if (candidates.length === 0) return null;
+  return candidates.reduce((best, candidate) =>
+    candidate.path.length < best.path.length ? candidate : best
+  );
+}
+
+/**
+ * How a relative is reached from a person, used to pick a term for them.
+ */
+export type KinshipLine =
+  | "parent"
+  | "spouse"
+  | "child"
+  | "sibling"
+  | "halfSibling"
+  | "stepSibling"
+  | "grandparent"
+  | "auntUncle"
+  | "cousin"
+  | "nieceNephew"
+  | "parentInLaw"
+  | "spouseSibling"
+  | "siblingSpouse"
+  | "childSpouse";
+
+/**
+ * Keys into the `relationships` i18n namespace for a resolved relative.
+ */
+export interface KinshipTerm {
+  /** Singular term for the relative, e.g. "maternalAunt" (خالة) */
+  key: string;
+  /** Label of the section the relative is listed under, e.g. "maternalAuntsUncles" */
+  groupKey: string;
+}
+
+/**
+ * Resolves the gendered term for a relative. `chain` lists the people from
+ * the person's side outwards and ends with the relative: [parent, grandparent]
+ * for a grandparent, [parent, aunt or uncle] and [parent, aunt or uncle,
+ * cousin] for the wider family, [shared parent, half sibling],
+ * [step-parent, step-sibling], [sibling, niece or nephew], [spouse, in-law]
+ * or [sibling or child, their spouse], and just [relative] for direct links.
+ * The parent's gender picks the side (عم vs خال), the aunt or uncle's gender
+ * picks whose children the cousins are (ابن العم vs ابن العمة) and the
+ * relative's own gender picks the form.
+ */
+export function resolveKinshipTerm(
+  line: KinshipLine,
+  chain: FamilyMember[]
+): KinshipTerm {
+  const isMale = (member: FamilyMember | undefined) =>
+    member?.gender !== "female";
+  const relative = chain[chain.length - 1];
+  const male = isMale(relative);
+  const side = isMale(chain[0]) ? "paternal" : "maternal";
+
+  switch (line) {
+    case "parent":
+      return { key: male ? "father" : "mother", groupKey: "parents" };
+    case "spouse":
+      return { key: male ? "husband" : "wife", groupKey: "spouses" };
+    case "child":
+      return { key: male ? "son" : "daughter", groupKey: "children" };
+    case "sibling":
+      return { key: male ? "brother" : "sister", groupKey: "siblings" };
+    case "halfSibling":
+      return {
+        key: `${side}Half${male ? "Brother" : "Sister"}`,
+        groupKey: "halfSiblings",
+      };
+    case "stepSibling":
+      // Without a recorded step-parent only the sibling's own gender is known
+      if (chain.length < 2) {
+        return { key: male ? "stepBrother" : "stepSister", groupKey: "stepSiblings" };
+      }
+      return {
+        key: `${isMale(chain[0]) ? "stepFather" : "stepMother"}${male ? "Son" : "Daughter"}`,
+        groupKey: "stepSiblings",
+      };
+    case "grandparent":
+      return {
+        key: `${side}${male ? "Grandfather" : "Grandmother"}`,
+        groupKey: `${side}Grandparents`,
+      };
+    case "auntUncle":
+      return {
+        key: `${side}${male ? "Uncle" : "Aunt"}`,
+        groupKey: `${side}AuntsUncles`,
+      };
+    case "cousin": {
+      const parentSibling = isMale(chain[1]) ? "Uncle" : "Aunt";
+      return {
+        key: `${side}${parentSibling}${male ? "Son" : "Daughter"}`,
+        groupKey: `${side}${parentSibling}Children`,
+      };
+    }
+    case "nieceNephew":
+      return {
+        key: `${isMale(chain[0]) ? "brother" : "sister"}${male ? "Son" : "Daughter"}`,
+        groupKey: "niecesNephews",
+      };
+    case "parentInLaw":
+      return {
+        key: `${isMale(chain[0]) ? "husband" : "wife"}${male ? "Father" : "Mother"}`,
+        groupKey: "inLaws",
+      };
+    case "spouseSibling":
+      return {
+        key: `${isMale(chain[0]) ? "husband" : "wife"}${male ? "Brother" : "Sister"}`,
+        groupKey: "inLaws",
+      };
+    case "siblingSpouse":
+      return {
+        key: `${isMale(chain[0]) ? "brother" : "sister"}${male ? "Husband" : "Wife"}`,
+        groupKey: "inLaws",
+      };
+    case "childSpouse":
+      return { key: male ? "sonInLaw" : "daughterInLaw", groupKey: "inLaws" };
+  }
+}
+
+/**
+ * A relative outside the immediate family together with its resolved term.
+ */
+export interface ExtendedRelative {
+  member: FamilyMember;
+  line: Exclude<KinshipLine, "parent" | "spouse" | "child" | "sibling">;
+  term: KinshipTerm;
+}
+
+/**
+ * Lists a person's extended family with gendered terms: grandparents, aunts,
+ * uncles and cousins are walked through each parent so the paternal and
+ * maternal sides stay apart, followed by half and step-siblings, nieces and
+ * nephews and in-laws. A relative reached more than one way is listed once
+ * per section.
+ */
+export function getExtendedRelatives(
+  personId: string,
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[]
+): ExtendedRelative[] {
+  const result: ExtendedRelative[] = [];
+  const seen = new Set<string>();
+  const add = (line: ExtendedRelative["line"], chain: FamilyMember[]) => {
+    const member = chain[chain.length - 1];
+    const term = resolveKinshipTerm(line, chain);
+    const key = `${term.groupKey}:${member.id}`;
+    if (member.id === personId || seen.has(key)) return;
+    seen.add(key);
+    result.push({ member, line, term });
+  };
+  const byId = (ids: string[]) => ids.map((id) => members[id]).filter(Boolean);
+  const allSiblingIds = (id: string) => [
+    ...getFullSiblingIds(id, relationships),
+    ...getHalfSiblingIds(id, relationships),
+  ];
+
+  byId(getNonStepParentIds(personId, relationships)).forEach((parent) => {
+    byId(getParentIds(parent.id, relationships)).forEach((grandparent) =>
+      add("grandparent", [parent, grandparent])
+    );
+    byId(allSiblingIds(parent.id)).forEach((auntUncle) => {
+      add("auntUncle", [parent, auntUncle]);
+      byId(getNonStepChildIds(auntUncle.id, relationships)).forEach((cousin) =>
+        add("cousin", [parent, auntUncle, cousin])
+      );
+    });
+  });
+
+  byId(getHalfSiblingIds(personId, relationships)).forEach((halfSibling) => {
+    const [sharedParent] = byId(
+      getSharedParentIds(personId, halfSibling.id, relationships)
+    );
+    add("halfSibling", sharedParent ? [sharedParent, halfSibling] : [halfSibling]);
+  });
+
+  const stepParentIds = getStepParentIds(personId, relationships);
+  byId(getStepSiblingIds(personId, relationships)).forEach((stepSibling) => {
+    const [stepParent] = byId(
+      getNonStepParentIds(stepSibling.id, relationships).filter((id) =>
+        stepParentIds.includes(id)
+      )
+    );
+    add("stepSibling", stepParent ? [stepParent, stepSibling] : [stepSibling]);
+  });
+
+  byId(allSiblingIds(personId)).forEach((sibling) => {
+    byId(getNonStepChildIds(sibling.id, relationships)).forEach((child) =>
+      add("nieceNephew", [sibling, child])
+    );
+  });
+
+  const spouseIds = getSpouseIds(personId, relationships);
+  const addInLaw = (line: ExtendedRelative["line"], chain: FamilyMember[]) => {
+    if (!spouseIds.includes(chain[chain.length - 1].id)) add(line, chain);
+  };
+  byId(spouseIds).forEach((spouse) => {
+    byId(getNonStepParentIds(spouse.id, relationships)).forEach((parent) =>
+      addInLaw("parentInLaw", [spouse, parent])
+    );
+    byId(allSiblingIds(spouse.id)).forEach((sibling) =>
+      addInLaw("spouseSibling", [spouse, sibling])
+    );
+  });
+  byId(allSiblingIds(personId)).forEach((sibling) =>
+    byId(getSpouseIds(sibling.id, relationships)).forEach((spouse) =>
+      addInLaw("siblingSpouse", [sibling, spouse])
+    )
+  );
+  byId(getChildIds(personId, relationships)).forEach((child) =>
+    byId(getSpouseIds(child.id, relationships)).forEach((spouse) =>
+      addInLaw("childSpouse", [child, spouse])
+    )
+  );
+
+  return result;
+}
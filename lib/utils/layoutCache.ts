@@ -0,0 +1,155 @@
+/**
+ * @file Layout cache for the detailed layout. Every connected family is laid
+ * out on its own, so its positions stay valid until someone joins or leaves
+ * that family or one of its relationships changes. Only separate families
+ * are reused: any relationship change within a family lays out that whole
+ * family again. Reusing the layout below a changed person is not done, as
+ * the D3 layout scales each family to a fixed size and so moves every
+ * person whenever one branch changes. Only positions are cached; the
+ * member data shown on the cards is always taken fresh.
+ */
+import { FamilyMember, RelationshipConnection, TreeNodeData } from "../types";
+
+/** How many family layouts are kept; the least recently used go first */
+const MAX_CACHED_FAMILIES = 100;
+
+/**
+ * Where one person of a family was placed, before the family is moved next
+ * to the families laid out before it.
+ */
+export interface CachedPosition {
+  id: string;
+  x: number;
+  y: number;
+  level?: number;
+  isSpouse?: boolean;
+}
+
+/** Family layouts by their key from `getFamilyLayoutKeys` */
+export interface FamilyLayoutCache {
+  get(key: string): CachedPosition[] | undefined;
+  set(key: string, nodes: TreeNodeData[]): void;
+}
+
+/**
+ * Splits the members into connected families (through parent and spouse
+ * links). The family of `mainId` comes first and each family starts with
+ * the person it was found from.
+ */
+export function findFamilyGroups(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  mainId: string
+): string[][] {
+  const neighbours = new Map<string, string[]>();
+  const link = (fromId: string, toId: string) => {
+    const list = neighbours.get(fromId);
+    if (list) list.push(toId);
+    else neighbours.set(fromId, [toId]);
+  };
+  relationships.forEach((rel) => {
+    if (rel.type !== "parent" && rel.type !== "spouse") return;
+    if (!members[rel.fromId] || !members[rel.toId]) return;
+    link(rel.fromId, rel.toId);
+    link(rel.toId, rel.fromId);
+  });
+
+  const grouped = new Set<string>();
+  const groups: string[][] = [];
+  const collect = (startId: string) => {
+    const group = [startId];
+    grouped.add(startId);
+    for (let i = 0; i < group.length; i++) {
+      (neighbours.get(group[i]) ?? []).forEach((relativeId) => {
+        if (grouped.has(relativeId)) return;
+        grouped.add(relativeId);
+        group.push(relativeId);
+      });
+    }
+    groups.push(group);
+  };
+
+  if (members[mainId]) collect(mainId);
+  Object.keys(members).forEach((id) => {
+    if (!grouped.has(id)) collect(id);
+  });
+  return groups;
+}
+
+/**
+ * Cache keys for `groups`, one per family. A key covers everything the
+ * family's layout depends on: the person it starts from, the relationships
+ * between its members (in order, since that orders the children) and the
+ * layout settings in `settings`.
+ */
+export function getFamilyLayoutKeys(
+  groups: string[][],
+  relationships: RelationshipConnection[],
+  settings: string
+): string[] {
+  const groupOf = new Map<string, number>();
+  groups.forEach((group, index) =>
+    group.forEach((id) => groupOf.set(id, index))
+  );
+  const parts = groups.map((group) => [settings, group[0]]);
+  relationships.forEach((rel) => {
+    const index = groupOf.get(rel.fromId);
+    if (index === undefined || groupOf.get(rel.toId) !== index) return;
+    parts[index].push(`${rel.fromId}>${rel.type}>${rel.toId}`);
+  });
+  return parts.map((part) => part.join("|"));
+}
+
+/**
+ * Creates an empty cache. Whoever lays out trees owns one and passes it to
+ * `calculateTree`; layouts without a cache are always computed afresh.
+ */
+export function createFamilyLayoutCache(
+  maxFamilies: number = MAX_CACHED_FAMILIES
+): FamilyLayoutCache {
+  const familyLayouts = new Map<string, CachedPosition[]>();
+  return {
+    get(key) {
+      const positions = familyLayouts.get(key);
+      if (positions) {
+        // Move to the back so the most recently used layouts are kept
+        familyLayouts.delete(key);
+        familyLayouts.set(key, positions);
+      }
+      return positions;
+    },
+    set(key, nodes) {
+      familyLayouts.set(
+        key,
+        nodes.map(({ id, x, y, level, isSpouse }) => ({
+          id,
+          x,
+          y,
+          level,
+          isSpouse,
+        }))
+      );
+      if (familyLayouts.size > maxFamilies) {
+        familyLayouts.delete(familyLayouts.keys().next().value!);
+      }
+    },
+  };
+}
+
+/**
+ * Copies `node` with the current data of `member`, keeping its position.
+ */
+export function withMemberData(
+  node: TreeNodeData,
+  member: FamilyMember
+): TreeNodeData {
+  return {
+    ...node,
+    ...member,
+    x: node.x,
+    y: node.y,
+    children: node.children,
+    parents: node.parents,
+    spouses: node.spouses,
+  };
+}
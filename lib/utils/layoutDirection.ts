@@ -0,0 +1,68 @@
+/**
+ * @file Layout directions. calculateTree lays a tree out top-to-bottom; these
+ * helpers turn that layout to the chosen direction.
+ */
+import { LayoutDirection, TreeNodeData } from "../types";
+
+export const LAYOUT_DIRECTIONS: LayoutDirection[] = [
+  "top-to-bottom",
+  "bottom-to-top",
+  "left-to-right",
+  "right-to-left",
+];
+
+export function isLayoutDirection(value: unknown): value is LayoutDirection {
+  return LAYOUT_DIRECTIONS.includes(value as LayoutDirection);
+}
+
+/**
+ * Whether generations are stacked in rows ("vertical") or columns
+ * ("horizontal").
+ */
+export function getOrientation(
+  direction: LayoutDirection
+): "horizontal" | "vertical" {
+  return direction === "left-to-right" || direction === "right-to-left"
+    ? "horizontal"
+    : "vertical";
+}
+
+/**
+ * Maps a top-to-bottom layout onto `direction`.
+ *
+ * In the horizontal layouts generations become columns, so the gap between
+ * them is widened to at least `nodeSeparation` and people of one generation
+ * are packed `levelSeparation` apart. This keeps the horizontal and vertical
+ * spacing settings tied to the screen axes. Right-to-left mirrors
+ * left-to-right so the root generation sits on the right, where Arabic
+ * reading starts.
+ */
+export function orientNodes(
+  nodes: TreeNodeData[],
+  direction: LayoutDirection,
+  nodeSeparation: number,
+  levelSeparation: number
+): TreeNodeData[] {
+  if (direction === "top-to-bottom") return nodes;
+  if (direction === "bottom-to-top") {
+    return nodes.map((node) => ({ ...node, y: -node.y }));
+  }
+
+  const depths = Array.from(new Set(nodes.map((node) => node.y))).sort(
+    (a, b) => a - b
+  );
+  const gaps = depths
+    .slice(1)
+    .map((depth, index) => depth - depths[index])
+    .filter((gap) => gap > 1);
+  const generationGap = gaps.length > 0 ? Math.min(...gaps) : nodeSeparation;
+  const depthScale = Math.max(1, nodeSeparation / generationGap);
+  const breadthScale = levelSeparation / nodeSeparation;
+  const sign = direction === "right-to-left" ? -1 : 1;
+
+  return nodes.map((node) => ({
+    ...node,
+    x: sign * node.y * depthScale,
+    y: node.x * breadthScale,
+  }));
+}
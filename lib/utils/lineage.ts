@@ -0,0 +1,94 @@
+/**
+ * @file Lineage filters. A lineage is a person and their descendants, either
+ * all of them or only those descended through fathers (patrilineal, the
+ * nasab) or through mothers (matrilineal). Step-children are not part of a
+ * lineage. Spouses of people in the lineage are kept so couples stay
+ * together, but their own families are not.
+ */
+import {
+  FamilyMember,
+  LineageMode,
+  RelationshipConnection,
+} from "../types";
+
+export const LINEAGE_MODES: LineageMode[] = [
+  "descendants",
+  "patrilineal",
+  "matrilineal",
+];
+
+/**
+ * Whether the lineage continues through the children of `person`.
+ */
+function continuesThrough(
+  person: FamilyMember,
+  mode: LineageMode,
+  isRoot: boolean
+) {
+  if (mode === "descendants" || isRoot) return true;
+  return mode === "patrilineal"
+    ? person.gender === "male"
+    : person.gender === "female";
+}
+
+/**
+ * Collects the lineage of `rootId`. `stubs` maps everyone whose children
+ * were left out by the filter to the number of those children.
+ */
+export function getLineage(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  rootId: string,
+  mode: LineageMode
+) {
+  const childrenOf = new Map<string, string[]>();
+  const spousesOf = new Map<string, string[]>();
+  const add = (map: Map<string, string[]>, key: string, value: string) => {
+    const list = map.get(key);
+    if (list) list.push(value);
+    else map.set(key, [value]);
+  };
+  relationships.forEach((rel) => {
+    if (!members[rel.fromId] || !members[rel.toId]) return;
+    if (rel.type === "parent" && rel.metadata?.adoptionType !== "step") {
+      add(childrenOf, rel.fromId, rel.toId);
+    } else if (rel.type === "spouse") {
+      add(spousesOf, rel.fromId, rel.toId);
+      add(spousesOf, rel.toId, rel.fromId);
+    }
+  });
+
+  const lineage = new Set<string>();
+  const stopped: string[] = [];
+  if (members[rootId]) {
+    lineage.add(rootId);
+    const queue = [rootId];
+    for (let i = 0; i < queue.length; i++) {
+      const id = queue[i];
+      if (!continuesThrough(members[id], mode, id === rootId)) {
+        stopped.push(id);
+        continue;
+      }
+      (childrenOf.get(id) ?? []).forEach((childId) => {
+        if (lineage.has(childId)) return;
+        lineage.add(childId);
+        queue.push(childId);
+      });
+    }
+  }
+
+  // A child can still be in the lineage through their other parent
+  const stubs = new Map<string, number>();
+  stopped.forEach((id) => {
+    const leftOut = (childrenOf.get(id) ?? []).filter(
+      (childId) => !lineage.has(childId)
+    ).length;
+    if (leftOut > 0) stubs.set(id, leftOut);
+  });
+
+  const memberIds = new Set(lineage);
+  lineage.forEach((id) =>
+    (spousesOf.get(id) ?? []).forEach((spouseId) => memberIds.add(spouseId))
+  );
+  return { memberIds, stubs };
+}
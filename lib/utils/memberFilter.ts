@@ -0,0 +1,94 @@
+/**
+ * @file Member filter: answers questions such as "who was born in Riyadh",
+ * "who is deceased" or "who has no photo" from the fields of FamilyMember.
+ * Every field left empty matches everyone.
+ */
+import { FamilyMember } from "../types";
+import { compareFamilyDates, dateYear } from "./familyDate";
+import { normalizeName } from "./memberSearch";
+
+export interface YearRange {
+  from?: number;
+  to?: number;
+}
+
+export interface MemberFilter {
+  gender?: FamilyMember["gender"];
+  status?: "living" | "deceased";
+  birthYear: YearRange;
+  deathYear: YearRange;
+  /** Part of the birthplace, compared like names in the search */
+  birthplace: string;
+  occupation: string;
+  hasImage?: boolean;
+}
+
+export const EMPTY_MEMBER_FILTER: MemberFilter = {
+  birthYear: {},
+  deathYear: {},
+  birthplace: "",
+  occupation: "",
+};
+
+export function isMemberFilterActive(filter: MemberFilter): boolean {
+  return (
+    filter.gender !== undefined ||
+    filter.status !== undefined ||
+    filter.birthYear.from !== undefined ||
+    filter.birthYear.to !== undefined ||
+    filter.deathYear.from !== undefined ||
+    filter.deathYear.to !== undefined ||
+    filter.birthplace.trim() !== "" ||
+    filter.occupation.trim() !== "" ||
+    filter.hasImage !== undefined
+  );
+}
+
+/**
+ * Whether `year` lies in the range. An unknown year only matches an empty
+ * range.
+ */
+function inRange(year: number | undefined, range: YearRange) {
+  if (range.from === undefined && range.to === undefined) return true;
+  if (year === undefined) return false;
+  return (
+    (range.from === undefined || year >= range.from) &&
+    (range.to === undefined || year <= range.to)
+  );
+}
+
+function containsText(value: string | undefined, query: string) {
+  const needle = normalizeName(query);
+  return !needle || normalizeName(value ?? "").includes(needle);
+}
+
+export function matchesMemberFilter(
+  member: FamilyMember,
+  filter: MemberFilter
+): boolean {
+  const isDeceased = !!member.death;
+  const hasImage = !!(member.image || member.imageUrl);
+  return (
+    (filter.gender === undefined || member.gender === filter.gender) &&
+    (filter.status === undefined ||
+      isDeceased === (filter.status === "deceased")) &&
+    inRange(dateYear(member.birth), filter.birthYear) &&
+    inRange(dateYear(member.death), filter.deathYear) &&
+    containsText(member.birthplace, filter.birthplace) &&
+    containsText(member.occupation, filter.occupation) &&
+    (filter.hasImage === undefined || hasImage === filter.hasImage)
+  );
+}
+
+/**
+ * Ids of the members matching `filter`, ordered by birth date.
+ */
+export function filterMembers(
+  members: { [id: string]: FamilyMember },
+  filter: MemberFilter
+): string[] {
+  return Object.values(members)
+    .filter((member) => matchesMemberFilter(member, filter))
+    .sort((a, b) => compareFamilyDates(a.birth, b.birth))
+    .map((member) => member.id);
+}
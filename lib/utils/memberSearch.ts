@@ -0,0 +1,216 @@
+/**
+ * @file Member search. Names are compared after Arabic normalization
+ * (hamza forms, taa marbuta, alef maqsura, diacritics and tatweel), and
+ * Arabic and Latin spellings are matched through a shared consonant
+ * skeleton, so "Mohammed" finds "محمد". A query can give several parts of a
+ * name in order, including the father and grandfather and the family name:
+ * "محمد بن أحمد آل سعود". The kunya and laqab count as the person's own name.
+ */
+import { FamilyMember, RelationshipConnection } from "../types";
+import {
+  getFamilyName,
+  getGivenName,
+  indexFathers,
+  NASAB_DEPTH,
+} from "./arabicName";
+
+/** Words that join the parts of a name and carry no meaning of their own */
+const CONNECTORS = new Set(["بن", "ابن", "بنت", "ibn", "bin", "bint", "ben"]);
+
+const LATIN_LETTERS: { [letter: string]: string } = {
+  ا: "a",
+  ب: "b",
+  ت: "t",
+  ث: "th",
+  ج: "j",
+  ح: "h",
+  خ: "kh",
+  د: "d",
+  ذ: "dh",
+  ر: "r",
+  ز: "z",
+  س: "s",
+  ش: "sh",
+  ص: "s",
+  ض: "d",
+  ط: "t",
+  ظ: "z",
+  ع: "a",
+  غ: "gh",
+  ف: "f",
+  ق: "q",
+  ك: "k",
+  ل: "l",
+  م: "m",
+  ن: "n",
+  ه: "h",
+  و: "w",
+  ي: "y",
+  ء: "a",
+};
+
+/**
+ * Folds the spelling variants of Arabic letters together and drops
+ * diacritics and tatweel. Latin text is lower-cased and stripped of accents.
+ */
+export function normalizeName(text: string): string {
+  return text
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[\u064B-\u065F\u0670\u0640]/g, "")
+    .replace(/[أإآٱ]/g, "ا")
+    .replace(/ة/g, "ه")
+    .replace(/ى/g, "ي")
+    .replace(/[ؤئ]/g, "ء")
+    .replace(/[^\p{L}\p{N}]+/gu, " ")
+    .trim();
+}
+
+/**
+ * Consonant skeletons of a normalized word, shared by its Arabic and Latin
+ * spellings: doubled letters, vowels and glides after the first letter are
+ * dropped. A leading vowel, ع or ء becomes a single "a", so "Ali" and "علي"
+ * both keep the skeleton "al". Variants without a final h (taa marbuta or its transliteration)
+ * and without the Arabic article are included.
+ */
+function skeletons(word: string): string[] {
+  const variants = [word];
+  if (word.startsWith("ال") && word.length > 3) variants.push(word.slice(2));
+  const result = new Set<string>();
+  variants.forEach((variant) => {
+    const latin = Array.from(variant)
+      .map((letter) => LATIN_LETTERS[letter] ?? letter)
+      .join("")
+      .replace(/[qc]/g, "k")
+      .replace(/g(?!h)/g, "j")
+      .replace(/(.)\1+/g, "$1");
+    const consonants =
+      latin[0].replace(/[aeiou]/, "a") + latin.slice(1).replace(/[aeiouwy]/g, "");
+    result.add(consonants);
+    result.add(consonants.replace(/h$/, ""));
+  });
+  return Array.from(result).filter((variant) => variant.length >= 2);
+}
+
+function editDistance(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+interface SearchWord {
+  text: string;
+  skeletons: string[];
+}
+
+const toWords = (text: string): SearchWord[] =>
+  normalizeName(text)
+    .split(" ")
+    .filter((word) => word && !CONNECTORS.has(word))
+    .map((word) => ({ text: word, skeletons: skeletons(word) }));
+
+/**
+ * How well one word of the query matches one word of a name, 0 for not at
+ * all. The last query word may be unfinished, so prefixes count.
+ */
+function wordScore(query: SearchWord, word: SearchWord, isLast: boolean) {
+  if (query.text === word.text) return 4;
+  if (isLast && word.text.startsWith(query.text)) return 3;
+  const sounds = (test: (queryForm: string, wordForm: string) => boolean) =>
+    query.skeletons.some((queryForm) =>
+      word.skeletons.some((wordForm) => test(queryForm, wordForm))
+    );
+  if (sounds((queryForm, wordForm) => queryForm === wordForm)) return 2;
+  if (isLast && sounds((queryForm, wordForm) => wordForm.startsWith(queryForm))) {
+    return 1.5;
+  }
+  if (
+    query.text.length >= 4 &&
+    editDistance(query.text, word.text) <= 1
+  ) {
+    return 1;
+  }
+  return 0;
+}
+
+export interface MemberSearchResult {
+  id: string;
+  score: number;
+}
+
+/**
+ * Finds the members whose name, followed by the names of their father and
+ * grandfather and the family name, contains every word of `query` in
+ * order. The first word must be part of the member's own name, kunya or
+ * laqab. Results are best first.
+ */
+export function searchMembers(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  query: string,
+  limit = 10
+): MemberSearchResult[] {
+  const queryWords = toWords(query);
+  if (queryWords.length === 0) return [];
+
+  const fathers = indexFathers(members, relationships);
+  const nasabWords = (id: string) => {
+    const words: SearchWord[] = [];
+    let ancestorId = fathers.get(id);
+    for (let depth = 0; ancestorId && depth < NASAB_DEPTH; depth++) {
+      words.push(...toWords(getGivenName(members[ancestorId])));
+      ancestorId = fathers.get(ancestorId);
+    }
+    const familyName = getFamilyName(id, members, fathers);
+    if (familyName) words.push(...toWords(familyName));
+    return words;
+  };
+
+  const results: MemberSearchResult[] = [];
+  Object.keys(members).forEach((id) => {
+    const { name, nameParts } = members[id];
+    const ownWords = toWords(
+      [name, nameParts?.given, nameParts?.kunya, nameParts?.laqab]
+        .filter(Boolean)
+        .join(" ")
+    );
+    const words = [...ownWords, ...nasabWords(id)];
+    let score = 0;
+    let next = 0;
+    for (let q = 0; q < queryWords.length; q++) {
+      const isLast = q === queryWords.length - 1;
+      const end = q === 0 ? ownWords.length : words.length;
+      let matched = false;
+      for (let w = next; w < end; w++) {
+        const points = wordScore(queryWords[q], words[w], isLast);
+        if (points === 0) continue;
+        // Matches further into the name count for a little less
+        score += points - w * 0.1;
+        next = w + 1;
+        matched = true;
+        break;
+      }
+      if (!matched) return;
+    }
+    results.push({ id, score });
+  });
+
+  return results
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        members[a.id].name.localeCompare(members[b.id].name)
+    )
+    .slice(0, limit);
+}
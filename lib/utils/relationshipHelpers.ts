@@ -55,3 +55,168 @@ export function getSiblingIds(
     )
     .map((rel) => (rel.fromId === personId ? rel.toId : rel.fromId));
 }
+
+/**
+ * Get the IDs of a person's birth or adoptive parents, leaving out parent
+ * links marked with adoptionType "step".
+ */
+export function getNonStepParentIds(
+  personId: string,
+  relationships: RelationshipConnection[]
+): string[] {
+  return relationships
+    .filter(
+      (rel) =>
+        rel.type === "parent" &&
+        rel.toId === personId &&
+        rel.metadata?.adoptionType !== "step"
+    )
+    .map((rel) => rel.fromId);
+}
+
+/**
+ * Get the IDs of a person's birth or adopted children, leaving out
+ * stepchildren.
+ */
+export function getNonStepChildIds(
+  personId: string,
+  relationships: RelationshipConnection[]
+): string[] {
+  return relationships
+    .filter(
+      (rel) =>
+        rel.type === "parent" &&
+        rel.fromId === personId &&
+        rel.metadata?.adoptionType !== "step"
+    )
+    .map((rel) => rel.toId);
+}
+
+/**
+ * Get the IDs of a person's step-parents: parents linked with adoptionType
+ * "step", and spouses of the person's other parents.
+ */
+export function getStepParentIds(
+  personId: string,
+  relationships: RelationshipConnection[]
+): string[] {
+  const parentIds = getNonStepParentIds(personId, relationships);
+  const stepParentIds = relationships
+    .filter(
+      (rel) =>
+        rel.type === "parent" &&
+        rel.toId === personId &&
+        rel.metadata?.adoptionType === "step"
+    )
+    .map((rel) => rel.fromId);
+  parentIds.forEach((parentId) =>
+    stepParentIds.push(...getSpouseIds(parentId, relationships))
+  );
+  return Array.from(new Set(stepParentIds)).filter(
+    (id) => id !== personId && !parentIds.includes(id)
+  );
+}
+
+/**
+ * Get the parents two people have in common, step-parents excluded.
+ */
+export function getSharedParentIds(
+  personId: string,
+  otherId: string,
+  relationships: RelationshipConnection[]
+): string[] {
+  const otherParentIds = getNonStepParentIds(otherId, relationships);
+  return getNonStepParentIds(personId, relationships).filter((id) =>
+    otherParentIds.includes(id)
+  );
+}
+
+/**
+ * Splits a person's siblings into full and half siblings. Siblings come from
+ * explicit sibling links and from shared parents. Two people are half
+ * siblings when they share a parent and each also has a parent the other
+ * does not; a sibling whose other parent is simply unrecorded stays a full
+ * sibling.
+ */
+function classifySiblings(
+  personId: string,
+  relationships: RelationshipConnection[]
+): { full: string[]; half: string[] } {
+  const parentIds = getNonStepParentIds(personId, relationships);
+  const candidates = new Set(getSiblingIds(personId, relationships));
+  parentIds.forEach((parentId) =>
+    getNonStepChildIds(parentId, relationships).forEach((id) =>
+      candidates.add(id)
+    )
+  );
+  candidates.delete(personId);
+
+  const full: string[] = [];
+  const half: string[] = [];
+  candidates.forEach((id) => {
+    const otherParentIds = getNonStepParentIds(id, relationships);
+    const shared = parentIds.filter((p) => otherParentIds.includes(p));
+    const isHalf =
+      shared.length > 0 &&
+      parentIds.some((p) => !otherParentIds.includes(p)) &&
+      otherParentIds.some((p) => !parentIds.includes(p));
+    (isHalf ? half : full).push(id);
+  });
+  return { full, half };
+}
+
+/**
+ * Get all full sibling IDs for a person, by explicit link or shared parents.
+ */
+export function getFullSiblingIds(
+  personId: string,
+  relationships: RelationshipConnection[]
+): string[] {
+  return classifySiblings(personId, relationships).full;
+}
+
+/**
+ * Get all half sibling IDs for a person.
+ */
+export function getHalfSiblingIds(
+  personId: string,
+  relationships: RelationshipConnection[]
+): string[] {
+  return classifySiblings(personId, relationships).half;
+}
+
+/**
+ * Get all step-sibling IDs for a person: children of the person's
+ * step-parents, and stepchildren of the person's own parents, as long as they
+ * share no parent with the person.
+ */
+export function getStepSiblingIds(
+  personId: string,
+  relationships: RelationshipConnection[]
+): string[] {
+  const candidates = new Set<string>();
+  getStepParentIds(personId, relationships).forEach((stepParentId) =>
+    getNonStepChildIds(stepParentId, relationships).forEach((id) =>
+      candidates.add(id)
+    )
+  );
+  getNonStepParentIds(personId, relationships).forEach((parentId) =>
+    relationships
+      .filter(
+        (rel) =>
+          rel.type === "parent" &&
+          rel.fromId === parentId &&
+          rel.metadata?.adoptionType === "step"
+      )
+      .forEach((rel) => candidates.add(rel.toId))
+  );
+
+  const { full, half } = classifySiblings(personId, relationships);
+  return Array.from(candidates).filter(
+    (id) =>
+      id !== personId &&
+      !full.includes(id) &&
+      !half.includes(id) &&
+      getSharedParentIds(personId, id, relationships).length === 0
+  );
+}
@@ -185,6 +185,14 @@ function inlineStyles(svgClone: SVGElement, isDarkMode: boolean): void {
         element.setAttribute('stroke', resolvedColor);
       }
     }
+
+    // Fan chart segments are filled with the gender colors
+    if (element.tagName === 'path' || element.tagName === 'circle') {
+      const currentFill = element.getAttribute('fill');
+      if (currentFill && (currentFill.includes('var(') || currentFill.includes('hsl('))) {
+        element.setAttribute('fill', resolveColor(currentFill, colorMap));
+      }
+    }
     
     // For foreignObject elements, we need to handle the HTML content differently
     if (element.tagName === 'foreignObject') {
@@ -0,0 +1,245 @@
+/**
+ * @file Merging another family file into the open tree. Incoming people are
+ * matched to existing ones by id or by similarity, and the differences are
+ * listed as changes (new people, changed fields, new relationships) that
+ * are accepted or rejected one by one before being applied.
+ */
+import { FamilyMember, NameParts, RelationshipConnection } from "../types";
+import {
+  createDuplicateFinder,
+  givenNameKey,
+  MERGE_FIELDS,
+  MergeField,
+  relationshipKey,
+} from "./duplicates";
+import { normalizeName } from "./memberSearch";
+
+export type TreeMergeChange =
+  | { id: string; kind: "newMember"; member: FamilyMember }
+  | {
+      id: string;
+      kind: "changedField";
+      memberId: string;
+      field: MergeField;
+      value: FamilyMember[MergeField];
+    }
+  | {
+      id: string;
+      kind: "newRelationship";
+      relationship: RelationshipConnection;
+    };
+
+export interface TreeMergeMatch {
+  incomingId: string;
+  existingId: string;
+  by: "id" | "similarity";
+}
+
+export interface TreeMergePlan {
+  matches: TreeMergeMatch[];
+  /** New people carry the id they get in the merged tree */
+  changes: TreeMergeChange[];
+  /** The incoming main person under their id in the merged tree */
+  mainId: string;
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === "";
+
+const NAME_PART_KEYS: (keyof NameParts)[] = [
+  "given",
+  "kunya",
+  "laqab",
+  "familyName",
+];
+
+/**
+ * Whether two records hold the same value for a field. Names that differ
+ * only in spelling (hamza forms, taa marbuta, diacritics) count as the same.
+ */
+function isSameValue(field: MergeField, a: FamilyMember, b: FamilyMember) {
+  if (field === "name") return normalizeName(a.name) === normalizeName(b.name);
+  if (field === "nameParts") {
+    return NAME_PART_KEYS.every(
+      (part) =>
+        normalizeName(a.nameParts?.[part] ?? "") ===
+        normalizeName(b.nameParts?.[part] ?? "")
+    );
+  }
+  return JSON.stringify(a[field]) === JSON.stringify(b[field]);
+}
+
+/**
+ * An id not used by either tree, for incoming people whose id is taken by
+ * someone else.
+ */
+function freeId(id: string, taken: (id: string) => boolean): string {
+  let candidate = `${id}-merged`;
+  for (let n = 2; taken(candidate); n++) candidate = `${id}-merged-${n}`;
+  return candidate;
+}
+
+/**
+ * Compares an incoming tree with the open one.
+ *
+ * People are matched first by id, when the two records agree on gender and
+ * given name, then by the duplicate scoring. Matching runs in rounds so a
+ * matched parent counts as shared when comparing their children.
+ *
+ * @param members - The members of the open tree.
+ * @param relationships - The relationships of the open tree.
+ * @param incoming - The members and relationships of the file being merged.
+ */
+export function planTreeMerge(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  incoming: {
+    members: { [id: string]: FamilyMember };
+    relationships: RelationshipConnection[];
+    mainId?: string;
+  }
+): TreeMergePlan {
+  const matched = new Map<string, TreeMergeMatch>();
+  const usedExisting = new Set<string>();
+  const match = (
+    incomingId: string,
+    existingId: string,
+    by: TreeMergeMatch["by"]
+  ) => {
+    matched.set(incomingId, { incomingId, existingId, by });
+    usedExisting.add(existingId);
+  };
+
+  Object.values(incoming.members).forEach((person) => {
+    const existing = members[person.id];
+    if (
+      existing &&
+      existing.gender === person.gender &&
+      givenNameKey(existing) === givenNameKey(person)
+    ) {
+      match(person.id, person.id, "id");
+    }
+  });
+
+  // Unmatched people keep their id unless the open tree already uses it
+  const newIds = new Map<string, string>();
+  const isTaken = (id: string) => !!members[id] || !!incoming.members[id];
+  Object.keys(incoming.members).forEach((id) => {
+    if (!matched.has(id)) newIds.set(id, members[id] ? freeId(id, isTaken) : id);
+  });
+  const mapId = (id: string) =>
+    matched.get(id)?.existingId ?? newIds.get(id) ?? id;
+
+  for (let found = true; found; ) {
+    found = false;
+    const combinedMembers = { ...members };
+    newIds.forEach((newId, id) => {
+      combinedMembers[newId] = { ...incoming.members[id], id: newId };
+    });
+    const combinedRelationships = [
+      ...relationships,
+      ...incoming.relationships.map((rel) => ({
+        ...rel,
+        fromId: mapId(rel.fromId),
+        toId: mapId(rel.toId),
+      })),
+    ];
+    const findDuplicatesOf = createDuplicateFinder(
+      combinedMembers,
+      combinedRelationships
+    );
+    newIds.forEach((newId, id) => {
+      const existing = findDuplicatesOf(combinedMembers[newId]).find(
+        (candidate) => members[candidate.id] && !usedExisting.has(candidate.id)
+      );
+      if (!existing) return;
+      match(id, existing.id, "similarity");
+      newIds.delete(id);
+      found = true;
+    });
+  }
+
+  const changes: TreeMergeChange[] = [];
+  newIds.forEach((newId, id) => {
+    changes.push({
+      id: `member:${newId}`,
+      kind: "newMember",
+      member: { ...incoming.members[id], id: newId },
+    });
+  });
+  matched.forEach(({ incomingId, existingId }) => {
+    const existing = members[existingId];
+    const person = incoming.members[incomingId];
+    MERGE_FIELDS.forEach((field) => {
+      if (isEmpty(person[field])) return;
+      if (isSameValue(field, person, existing)) return;
+      changes.push({
+        id: `field:${existingId}:${field}`,
+        kind: "changedField",
+        memberId: existingId,
+        field,
+        value: person[field],
+      });
+    });
+  });
+
+  const knownKeys = new Set(relationships.map(relationshipKey));
+  const knownIds = new Set(relationships.map((rel) => rel.id));
+  incoming.relationships.forEach((rel) => {
+    if (!incoming.members[rel.fromId] || !incoming.members[rel.toId]) return;
+    const moved = { ...rel, fromId: mapId(rel.fromId), toId: mapId(rel.toId) };
+    const key = relationshipKey(moved);
+    if (moved.fromId === moved.toId || knownKeys.has(key)) return;
+    knownKeys.add(key);
+    // Named after its ends in this tree, as links made in the editor are
+    const id = `${moved.fromId}_${moved.type}_${moved.toId}`;
+    moved.id = knownIds.has(id) ? freeId(id, (taken) => knownIds.has(taken)) : id;
+    knownIds.add(moved.id);
+    changes.push({
+      id: `relationship:${key}`,
+      kind: "newRelationship",
+      relationship: moved,
+    });
+  });
+
+  return {
+    matches: Array.from(matched.values()),
+    changes,
+    mainId: incoming.mainId ? mapId(incoming.mainId) : "",
+  };
+}
+
+/**
+ * Applies the accepted changes of a plan to the open tree. Relationships to
+ * people who were not added are left out.
+ *
+ * @param accepted - Ids of the accepted changes.
+ */
+export function applyTreeMerge(
+  members: { [id: string]: FamilyMember },
+  relationships: RelationshipConnection[],
+  plan: TreeMergePlan,
+  accepted: Set<string>
+): {
+  members: { [id: string]: FamilyMember };
+  relationships: RelationshipConnection[];
+} {
+  const merged = { ...members };
+  const added: RelationshipConnection[] = [];
+  const changes = plan.changes.filter((change) => accepted.has(change.id));
+  changes.forEach((change) => {
+    if (change.kind === "newMember") {
+      merged[change.member.id] = change.member;
+    } else if (change.kind === "changedField") {
+      merged[change.memberId] = {
+        ...merged[change.memberId],
+        [change.field]: change.value,
+      };
+    }
+  });
+  changes.forEach((change) => {
+    if (change.kind !== "newRelationship") return;
+    const { fromId, toId } = change.relationship;
+    if (merged[fromId] && merged[toId]) added.push(change.relationship);
+  });
+  return { members: merged, relationships: [...relationships, ...added] };
+}
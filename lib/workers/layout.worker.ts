@@ -0,0 +1,23 @@
+/**
+ * @file Web Worker that calculates tree layouts off the main thread, so the
+ * page stays responsive while a large tree is laid out. The main-thread side
+ * lives in hooks/useLayoutWorker.
+ */
+import { calculateTree, CalculateTreeParams } from "../utils/CalculateTree";
+import { TreeNodeData } from "../types";
+
+export interface LayoutRequest {
+  requestId: number;
+  params: CalculateTreeParams;
+}
+
+export interface LayoutResponse {
+  requestId: number;
+  tree: TreeNodeData[];
+}
+
+addEventListener("message", (event: MessageEvent<LayoutRequest>) => {
+  const { requestId, params } = event.data;
+  const response: LayoutResponse = { requestId, tree: calculateTree(params) };
+  postMessage(response);
+});
@@ -1,4 +1,5 @@
 import { test, expect } from "@playwright/test";
+import { generateLargeTree } from "./fixtures/largeTree";
 
 test.describe("Family Tree Visualizer E2E Tests", () => {
   test.beforeEach(async ({ page }) => {
@@ -49,6 +50,101 @@ test.describe("Family Tree Visualizer E2E Tests", () => {
       ).toBeVisible();
     });
 
+    test("should render the fan chart of ancestors", async ({ page }) => {
+      // Switch to the fan chart
+      await page.click('[data-testid="fan-view"]');
+
+      // Verify ancestors are drawn as ring segments instead of cards
+      await expect(page.locator('[data-testid="fan-chart"]')).toBeVisible();
+      await expect(
+        page.locator('[data-testid^="fan-segment-"]').first()
+      ).toBeVisible();
+      await expect(page.locator('[data-testid="node-card"]')).toHaveCount(0);
+    });
+
+    test("should render the hourglass view", async ({ page }) => {
+      const fullCount = await page.locator('[data-testid="node-card"]').count();
+
+      // Switch to the hourglass around the main person
+      await page.click('[data-testid="hourglass-view"]');
+
+      // Ancestors and descendants are drawn as regular cards
+      const cards = page.locator('[data-testid="node-card"]');
+      await expect(cards.first()).toBeVisible();
+      expect(await cards.count()).toBeLessThanOrEqual(fullCount);
+      await expect(page.locator('[data-testid="fan-chart"]')).toHaveCount(0);
+    });
+
+    test("should filter the tree to a lineage", async ({ page }) => {
+      const cards = page.locator('[data-testid="node-card"]');
+      const fullCount = await cards.count();
+
+      // Keep only the patrilineal line of the main person
+      await page.click('[data-testid="lineage-select"]');
+      await page.getByRole("option").nth(2).click();
+
+      const badge = page.locator('[data-testid="lineage-filter-badge"]');
+      await expect(badge).toBeVisible();
+      expect(await cards.count()).toBeLessThanOrEqual(fullCount);
+
+      // Clearing the filter brings everyone back
+      await page.click('[data-testid="clear-lineage-filter"]');
+      await expect(badge).toHaveCount(0);
+      await expect(cards).toHaveCount(fullCount);
+    });
+
+    test("should find a member by name and jump to them", async ({ page }) => {
+      const search = page.locator('[data-testid="member-search-input"]');
+
+      // A single letter, e.g. the start of عبدالله
+      await search.fill("ع");
+      await expect(search).toBeVisible();
+      await search.fill("");
+
+      // Latin spellings of names that start with ع
+      await search.fill("Ali");
+      const results = page.locator('[data-testid="member-search-result"]');
+      await expect(results.first()).toContainText("علي");
+      await search.fill("");
+
+      // Hamza and diacritics are ignored
+      await search.fill("احمد");
+      await expect(results.first()).toBeVisible();
+      await expect(results.first()).toContainText("أحمد");
+
+      await results.first().click();
+      await expect(search).toHaveValue("أحمد");
+      await expect(
+        page.locator('[data-testid="member-search-results"]')
+      ).toHaveCount(0);
+      await expect(
+        page.locator('[data-testid="node-card"]', { hasText: "أحمد" }).first()
+      ).toBeVisible();
+    });
+
+    test("should collapse and expand a branch", async ({ page }) => {
+      const cards = page.locator('[data-testid="node-card"]');
+      const initialCount = await cards.count();
+
+      // Fold the descendants of the first person who has children
+      const toggle = page.locator('[data-testid^="toggle-descendants-"]').first();
+      const toggleId = await toggle.getAttribute("data-testid");
+      await toggle.hover();
+      await toggle.click();
+
+      // The branch is hidden and the toggle shows how many people it hides
+      const collapsedToggle = page.locator(`[data-testid="${toggleId}"]`);
+      await expect(collapsedToggle).toHaveAttribute("aria-expanded", "false");
+      await expect(
+        collapsedToggle.locator('[data-testid="hidden-count"]')
+      ).toBeVisible();
+      expect(await cards.count()).toBeLessThan(initialCount);
+
+      // Unfolding brings every card back
+      await collapsedToggle.click();
+      await expect(cards).toHaveCount(initialCount);
+    });
+
     test("should handle zoom and pan interactions", async ({ page }) => {
       const treeContainer = page.locator('[data-testid="family-tree"]');
 
@@ -70,6 +166,51 @@ test.describe("Family Tree Visualizer E2E Tests", () => {
     });
   });
 
+  test.describe("Member Filter", () => {
+    test("should highlight members matching the filter", async ({ page }) => {
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      // Women only
+      await page.click('[data-testid="filter-gender"]');
+      await page.getByRole("option", { name: "Female" }).click();
+
+      const matches = page.locator('[data-testid="member-filter-match"]');
+      await expect(page.locator('[data-testid="member-filter-count"]')).toBeVisible();
+      await expect(matches.first()).toBeVisible();
+
+      // Picking a match selects that member
+      const name = await matches.first().locator("span").first().textContent();
+      await matches.first().click();
+      await expect(page.locator(`text=${name}`).first()).toBeVisible();
+
+      // Clearing the filter hides the result list
+      await page.click('[data-testid="clear-member-filter"]');
+      await expect(matches).toHaveCount(0);
+    });
+  });
+
+  test.describe("Generations", () => {
+    test("should number generations from the chosen founder", async ({
+      page,
+    }) => {
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      // Labels are off by default
+      const labels = page.locator('[data-testid="generation-label"]');
+      await expect(labels).toHaveCount(0);
+      await page.click('[data-testid="show-generation-toggle"]');
+      await expect(labels.first()).toBeVisible();
+      await expect(page.locator('[data-testid="generation-guide"]').first()).toBeAttached();
+
+      // Making a member the founder puts them in generation 1
+      await page.click('[data-testid="node-card"]:first-child');
+      await page.click('[data-testid="set-founder-btn"]');
+      await expect(page.locator('[data-testid="member-generation"]')).toContainText("1");
+    });
+  });
+
   test.describe("Member Management", () => {
     test("should add a new family member successfully", async ({ page }) => {
       // Navigate to tree editor
@@ -125,6 +266,84 @@ test.describe("Family Tree Visualizer E2E Tests", () => {
       await expect(page.locator("text=Updated Name")).toBeVisible();
     });
 
+    test("should record an approximate birth date", async ({ page }) => {
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      await page.click('[data-testid="node-card"]:first-child');
+      await page.click('[data-testid="edit-member-btn"]');
+
+      // A range whose end comes before its start is rejected
+      await page.click('[data-testid="birth-date-precision"]');
+      await page.getByRole("option", { name: "Between" }).click();
+      await page.fill('[data-testid="birth-date-input"]', "1890");
+      await page.fill('[data-testid="birth-date-end-input"]', "1885");
+      await page.click('[data-testid="submit-btn"]');
+      await expect(page.locator('[data-testid="birth-date-error"]')).toBeVisible();
+
+      await page.click('[data-testid="birth-date-precision"]');
+      await page.getByRole("option", { name: "About" }).click();
+      await page.fill('[data-testid="birth-date-original-input"]', "around the great flood");
+      await page.click('[data-testid="submit-btn"]');
+
+      await expect(
+        page.locator('[data-testid="success-notification"]')
+      ).toBeVisible();
+      await expect(page.locator("text=c. 1890").first()).toBeVisible();
+    });
+
+    test("should record a birth date in the Hijri calendar", async ({ page }) => {
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      await page.click('[data-testid="node-card"]:first-child');
+      await page.click('[data-testid="edit-member-btn"]');
+
+      await page.click('[data-testid="birth-date-calendar"]');
+      await page.getByRole("option", { name: "Hijri" }).click();
+      await page.fill('[data-testid="birth-date-input"]', "1307-07-20");
+      await expect(
+        page.locator('[data-testid="birth-date-converted"]')
+      ).toHaveText("= 1890-03-12");
+      await page.click('[data-testid="submit-btn"]');
+
+      await expect(
+        page.locator('[data-testid="success-notification"]')
+      ).toBeVisible();
+      // The Gregorian date is shown with the Hijri date as recorded
+      await expect(
+        page.locator("text=1890-03-12 (1307-07-20 AH)").first()
+      ).toBeVisible();
+    });
+
+    test("should show the full nasab from the name parts", async ({ page }) => {
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      await page.click('[data-testid="node-card"]:first-child');
+      await page.click('[data-testid="edit-member-btn"]');
+
+      await page.fill('[data-testid="name-given-input"]', "سعد");
+      await page.fill('[data-testid="name-familyName-input"]', "آل تجربة");
+      await page.fill('[data-testid="name-kunya-input"]', "أبو فهد");
+      await expect(page.locator('[data-testid="nasab-preview"]')).toContainText(
+        "سعد"
+      );
+      await expect(page.locator('[data-testid="nasab-preview"]')).toContainText(
+        "آل تجربة"
+      );
+      await page.click('[data-testid="submit-btn"]');
+      await expect(
+        page.locator('[data-testid="success-notification"]')
+      ).toBeVisible();
+
+      // Cards show the name with the kunya once that display is chosen
+      await page.click('[data-testid="name-display-kunya"]');
+      await expect(
+        page.locator('[data-testid="node-card"]', { hasText: "أبو فهد" }).first()
+      ).toBeVisible();
+    });
+
     test("should delete a member without children successfully", async ({
       page,
     }) => {
@@ -436,6 +655,22 @@ test.describe("Family Tree Visualizer E2E Tests", () => {
       expect(download.suggestedFilename()).toContain(".pdf");
     });
 
+    test("should export tree as GEDCOM", async ({ page }) => {
+      // Navigate to tree editor
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      // Set up download handler
+      const downloadPromise = page.waitForEvent("download");
+
+      // Click export GEDCOM button directly
+      await page.click('[data-testid="export-gedcom-btn"]');
+
+      // Verify download started
+      const download = await downloadPromise;
+      expect(download.suggestedFilename()).toContain(".ged");
+    });
+
     test("should import valid JSON file", async ({ page }) => {
       // Navigate to tree editor
       await page.click('[data-testid="tree-editor-link"]');
@@ -456,6 +691,112 @@ test.describe("Family Tree Visualizer E2E Tests", () => {
       ).toBeVisible();
     });
 
+    test("should import GEDCOM file", async ({ page }) => {
+      // Navigate to tree editor
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      // Set up file chooser handler
+      const fileChooserPromise = page.waitForEvent("filechooser");
+
+      // Click import button
+      await page.click('[data-testid="import-btn"]');
+
+      const fileChooser = await fileChooserPromise;
+      await fileChooser.setFiles("tests/e2e/fixtures/sample-family.ged");
+
+      // Verify success and imported members
+      await expect(
+        page.locator('[data-testid="success-notification"]')
+      ).toBeVisible();
+      await expect(page.locator("text=أحمد السالم").first()).toBeVisible();
+    });
+
+    test("should report and fix integrity issues", async ({ page }) => {
+      // Navigate to tree editor
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      // Import a tree where a sibling has no parents recorded
+      const fileChooserPromise = page.waitForEvent("filechooser");
+      await page.click('[data-testid="import-btn"]');
+      const fileChooser = await fileChooserPromise;
+      await fileChooser.setFiles("tests/e2e/fixtures/integrity-issues.json");
+
+      // The integrity panel lists the problem with a one-click fix
+      const issue = page.locator(
+        '[data-testid="integrity-issue-siblingMissingParents"]'
+      );
+      await expect(issue).toBeVisible();
+      await issue.locator('[data-testid="integrity-fix-btn"]').click();
+
+      // Verify the issue is gone after the fix
+      await expect(issue).toHaveCount(0);
+    });
+
+    test("should merge a member entered twice", async ({ page }) => {
+      // Navigate to tree editor
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      // Import a tree where the son was added twice under the same father
+      const fileChooserPromise = page.waitForEvent("filechooser");
+      await page.click('[data-testid="import-btn"]');
+      const fileChooser = await fileChooserPromise;
+      await fileChooser.setFiles("tests/e2e/fixtures/duplicate-members.json");
+
+      // The duplicates panel lists the pair for a side-by-side comparison
+      const candidate = page.locator('[data-testid="duplicate-candidate"]');
+      await expect(candidate).toHaveCount(1);
+      await candidate.locator('[data-testid="duplicate-compare-btn"]').click();
+      const dialog = page.locator('[data-testid="merge-members-dialog"]');
+      await expect(dialog).toBeVisible();
+      await dialog.locator('[data-testid="merge-confirm-btn"]').click();
+
+      // Verify the pair is gone and the merge can be undone
+      await expect(candidate).toHaveCount(0);
+      await page.click('[data-testid="undo-btn"]');
+      await expect(candidate).toHaveCount(1);
+    });
+
+    test("should merge another family file after review", async ({ page }) => {
+      // Navigate to tree editor
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      // Load the base tree
+      let fileChooserPromise = page.waitForEvent("filechooser");
+      await page.click('[data-testid="import-btn"]');
+      let fileChooser = await fileChooserPromise;
+      await fileChooser.setFiles("tests/e2e/fixtures/integrity-issues.json");
+
+      // Merge a cousin's copy with a new grandson and an occupation
+      fileChooserPromise = page.waitForEvent("filechooser");
+      await page.click('[data-testid="import-merge-btn"]');
+      fileChooser = await fileChooserPromise;
+      await fileChooser.setFiles("tests/e2e/fixtures/merge-incoming.json");
+
+      const dialog = page.locator('[data-testid="import-merge-dialog"]');
+      await expect(dialog).toBeVisible();
+      await expect(
+        dialog.locator('[data-testid="merge-section-newMember"]')
+      ).toContainText("فهد");
+      await expect(
+        dialog.locator('[data-testid="merge-section-changedField"]')
+      ).toContainText("تاجر");
+
+      // Reject the occupation change and apply the rest
+      await dialog
+        .locator('[data-testid="merge-section-changedField"]')
+        .locator('[data-testid="merge-change-toggle"]')
+        .uncheck();
+      await dialog.locator('[data-testid="import-merge-apply-btn"]').click();
+
+      // Verify the grandson was added
+      await expect(dialog).toHaveCount(0);
+      await expect(page.locator("text=فهد").first()).toBeVisible();
+    });
+
     test("should handle invalid JSON import", async ({ page }) => {
       // Navigate to tree editor
       await page.click('[data-testid="tree-editor-link"]');
@@ -572,6 +913,29 @@ test.describe("Family Tree Visualizer E2E Tests", () => {
       const loadTime = Date.now() - startTime;
       expect(loadTime).toBeLessThan(5000); // Should load within 5 seconds
     });
+
+    test("should lay out the 5,000-person benchmark tree", async ({ page }) => {
+      // Navigate to tree editor
+      await page.click('[data-testid="tree-editor-link"]');
+      await page.waitForURL("/tree-editor");
+
+      // Import the generated benchmark fixture
+      const fileChooserPromise = page.waitForEvent("filechooser");
+      await page.click('[data-testid="import-btn"]');
+      const fileChooser = await fileChooserPromise;
+      const startTime = Date.now();
+      await fileChooser.setFiles({
+        name: "benchmark-5000.json",
+        mimeType: "application/json",
+        buffer: Buffer.from(JSON.stringify(generateLargeTree())),
+      });
+
+      // Verify people are drawn within the documented target
+      await expect(
+        page.locator('[data-testid="node-card"]').first()
+      ).toBeVisible({ timeout: 10000 });
+      expect(Date.now() - startTime).toBeLessThan(10000);
+    });
   });
 
   test.describe("Cross-Browser Compatibility", () => {
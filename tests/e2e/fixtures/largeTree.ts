@@ -0,0 +1,125 @@
+/**
+ * Generated benchmark fixture: a deterministic tribe-sized family tree in the
+ * current family-data file format (formatVersion 3).
+ *
+ * The default is 5,000 people descending from one founding couple over
+ * about eight generations. Most in-laws join without parents; every fifth
+ * comes with their own parents, so the layout also has to place families that
+ * are only connected by marriage.
+ *
+ * Timing targets for the 5,000-person tree (mid-range laptop, production
+ * build):
+ * - layout (`calculateTree`, compact layout): under 300 ms, run in the
+ *   layout Web Worker so the page keeps responding meanwhile
+ * - from import to the first person card on screen: under 10 s
+ */
+
+interface GeneratedMember {
+  id: string;
+  name: string;
+  gender: "male" | "female";
+  birth: { precision: "exact"; year: number };
+}
+
+interface GeneratedRelationship {
+  id: string;
+  fromId: string;
+  toId: string;
+  type: "parent" | "spouse";
+  bidirectional: boolean;
+}
+
+const MALE_NAMES = ["محمد", "أحمد", "عبدالله", "خالد", "سعد", "فهد", "ناصر", "سلمان", "فيصل", "عمر"];
+const FEMALE_NAMES = ["فاطمة", "مريم", "نورة", "سارة", "هند", "لطيفة", "منيرة", "عائشة", "حصة", "ريم"];
+
+/**
+ * Small seeded PRNG (mulberry32) so every run builds the same tree.
+ */
+function createRandom(seed: number) {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function generateLargeTree(size: number = 5000, seed: number = 1) {
+  const random = createRandom(seed);
+  const members: { [id: string]: GeneratedMember } = {};
+  const relationships: GeneratedRelationship[] = [];
+  let personCount = 0;
+  let relationshipCount = 0;
+
+  const addPerson = (gender: "male" | "female", birthYear: number) => {
+    const id = `p${++personCount}`;
+    const names = gender === "male" ? MALE_NAMES : FEMALE_NAMES;
+    members[id] = {
+      id,
+      name: `${names[Math.floor(random() * names.length)]} ${personCount}`,
+      gender,
+      birth: { precision: "exact", year: birthYear },
+    };
+    return id;
+  };
+  const link = (
+    fromId: string,
+    toId: string,
+    type: "parent" | "spouse"
+  ) => {
+    relationships.push({
+      id: `r${++relationshipCount}`,
+      fromId,
+      toId,
+      type,
+      bidirectional: type === "spouse",
+    });
+  };
+  const marry = (personId: string) => {
+    const person = members[personId];
+    const spouseId = addPerson(
+      person.gender === "male" ? "female" : "male",
+      person.birth.year + Math.floor(random() * 7) - 3
+    );
+    link(personId, spouseId, "spouse");
+    // Some in-laws bring their parents along
+    if (random() < 0.2) {
+      const fatherId = addPerson("male", members[spouseId].birth.year - 28);
+      const motherId = addPerson("female", members[spouseId].birth.year - 25);
+      link(fatherId, motherId, "spouse");
+      link(fatherId, spouseId, "parent");
+      link(motherId, spouseId, "parent");
+    }
+    return spouseId;
+  };
+
+  const founderId = addPerson("male", 1800);
+  let couples = [[founderId, marry(founderId)]];
+
+  while (personCount < size && couples.length > 0) {
+    const nextCouples: string[][] = [];
+    for (const [parentId, spouseId] of couples) {
+      const childCount = 1 + Math.floor(random() * 5);
+      for (let i = 0; i < childCount && personCount < size; i++) {
+        const childId = addPerson(
+          random() < 0.5 ? "male" : "female",
+          members[parentId].birth.year + 22 + Math.floor(random() * 15)
+        );
+        link(parentId, childId, "parent");
+        link(spouseId, childId, "parent");
+        if (personCount < size - 4 && random() < 0.75) {
+          nextCouples.push([childId, marry(childId)]);
+        }
+      }
+    }
+    couples = nextCouples;
+  }
+
+  return {
+    formatVersion: 3,
+    mainId: founderId,
+    members,
+    relationships,
+  };
+}